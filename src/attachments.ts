@@ -0,0 +1,222 @@
+// src/attachments.ts
+// Image attachments for vision prompts (renderer side).
+//
+// Phones send each image as one binary data channel message before the prompt
+// that uses it, then reference it from an OpenAI-style content part:
+//
+//   { "type": "image_url", "image_url": { "url": "attachment:<id>" } }
+//
+// Binary frame layout (JSON frames always start with "{", so the first byte
+// tells the two apart):
+//
+//   0xA1 | header length (uint16, big-endian) | header (UTF-8 JSON) | image bytes
+//   header: { "id": string, "mime": "image/png" | "image/jpeg" | "image/webp" | "image/gif" }
+//
+// On encrypted sessions the whole frame above is sealed instead (see
+// openBinaryFrame in src/e2e.ts):
+//
+//   0xA2 | seq (uint64, big-endian) | AES-GCM ciphertext + tag
+//
+// Attachments wait per peer until a prompt uses them or they expire, and are
+// handed to llama-server as base64 data URLs.
+
+import { bytesToBase64 } from './p2pcf/utils';
+
+export const ATTACHMENT_FRAME_MAGIC = 0xa1;
+export const ENCRYPTED_ATTACHMENT_FRAME_MAGIC = 0xa2;
+
+// P2PCF chunks large messages (src/p2pcf/framing.ts), so an attachment is not
+// bound by the data channel's own message size limit.
+export const MAX_ATTACHMENT_BYTES = 4 * 1024 * 1024;
+const MAX_PENDING_ATTACHMENT_BYTES = 8 * 1024 * 1024;
+const MAX_PENDING_ATTACHMENTS = 16;
+const ATTACHMENT_TTL_MS = 5 * 60 * 1000;
+const MAX_ATTACHMENT_ID_LENGTH = 128;
+export const MAX_IMAGES_PER_PROMPT = 8;
+
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const ATTACHMENT_URL_PREFIX = 'attachment:';
+const DATA_URL_PATTERN = /^data:(image\/[a-z]+);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type Attachment = {
+  id: string;
+  mime: string;
+  data: Uint8Array;
+};
+
+export function isBinaryFrame(bytes: Uint8Array): boolean {
+  return (
+    bytes.length > 0 &&
+    (bytes[0] === ATTACHMENT_FRAME_MAGIC || bytes[0] === ENCRYPTED_ATTACHMENT_FRAME_MAGIC)
+  );
+}
+
+/**
+ * Decode a plaintext attachment frame. Throws when the frame is malformed,
+ * too large or not a supported image type.
+ */
+export function parseAttachmentFrame(bytes: Uint8Array): Attachment {
+  if (bytes.length < 3 || bytes[0] !== ATTACHMENT_FRAME_MAGIC) {
+    throw new Error('Not an attachment frame');
+  }
+  const headerLength = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(1);
+  if (3 + headerLength > bytes.length) {
+    throw new Error('Attachment header is truncated');
+  }
+
+  let header: any;
+  try {
+    header = JSON.parse(new TextDecoder().decode(bytes.subarray(3, 3 + headerLength)));
+  } catch {
+    throw new Error('Attachment header is not valid JSON');
+  }
+  if (
+    typeof header?.id !== 'string' ||
+    !header.id ||
+    header.id.length > MAX_ATTACHMENT_ID_LENGTH
+  ) {
+    throw new Error('Attachment header needs an id');
+  }
+  if (IMAGE_MIME_TYPES.indexOf(header.mime) === -1) {
+    throw new Error(`Unsupported attachment type: ${String(header.mime)}`);
+  }
+
+  const data = bytes.slice(3 + headerLength);
+  if (!data.length) {
+    throw new Error('Attachment is empty');
+  }
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`Attachment exceeds ${MAX_ATTACHMENT_BYTES} bytes`);
+  }
+  return { id: header.id, mime: header.mime, data };
+}
+
+/**
+ * Attachments received from one peer and not yet used by a prompt.
+ */
+export class AttachmentStore {
+  private readonly pending = new Map<string, Attachment & { receivedAt: number }>();
+  private bytes = 0;
+
+  put(attachment: Attachment, now = Date.now()): void {
+    this.expire(now);
+    this.delete(attachment.id);
+    if (this.pending.size >= MAX_PENDING_ATTACHMENTS) {
+      throw new Error(`Too many pending attachments (max ${MAX_PENDING_ATTACHMENTS})`);
+    }
+    if (this.bytes + attachment.data.length > MAX_PENDING_ATTACHMENT_BYTES) {
+      throw new Error('Pending attachments exceed the per-device memory limit');
+    }
+    this.pending.set(attachment.id, { ...attachment, receivedAt: now });
+    this.bytes += attachment.data.length;
+  }
+
+  /**
+   * Remove and return an attachment, or null if it never arrived or expired.
+   */
+  take(id: string, now = Date.now()): Attachment | null {
+    this.expire(now);
+    const attachment = this.pending.get(id);
+    if (!attachment) return null;
+    this.delete(id);
+    return attachment;
+  }
+
+  clear(): void {
+    this.pending.clear();
+    this.bytes = 0;
+  }
+
+  private delete(id: string): void {
+    const existing = this.pending.get(id);
+    if (!existing) return;
+    this.pending.delete(id);
+    this.bytes -= existing.data.length;
+  }
+
+  private expire(now: number): void {
+    for (const [id, attachment] of this.pending) {
+      if (now - attachment.receivedAt > ATTACHMENT_TTL_MS) {
+        this.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Validate an array-form message content. Returns null when any part is
+ * malformed so the whole message is dropped, as with non-string content.
+ */
+export function normalizeContentParts(raw: unknown[]): ContentPart[] | null {
+  const parts: ContentPart[] = [];
+  for (const p of raw as any[]) {
+    if (p?.type === 'text' && typeof p.text === 'string') {
+      parts.push({ type: 'text', text: p.text });
+    } else if (p?.type === 'image_url' && typeof p.image_url?.url === 'string') {
+      parts.push({ type: 'image_url', image_url: { url: p.image_url.url } });
+    } else {
+      return null;
+    }
+  }
+  return parts.length ? parts : null;
+}
+
+export function countImageParts(messages: Array<{ content: unknown }>): number {
+  let count = 0;
+  messages.forEach((m) => {
+    if (!Array.isArray(m.content)) return;
+    (m.content as ContentPart[]).forEach((part) => {
+      if (part.type === 'image_url') count += 1;
+    });
+  });
+  return count;
+}
+
+/**
+ * Replace "attachment:<id>" image URLs with data URLs, consuming the
+ * attachments from `store`. Inline image data URLs pass through; any other URL
+ * is refused so the desktop never fetches remote content for a peer.
+ */
+export function resolveImageParts<M extends { content: unknown }>(
+  messages: M[],
+  store: AttachmentStore,
+): { messages: M[] } | { error: string } {
+  const resolved: M[] = [];
+  for (const m of messages) {
+    if (!Array.isArray(m.content)) {
+      resolved.push(m);
+      continue;
+    }
+    const parts: ContentPart[] = [];
+    for (const part of m.content as ContentPart[]) {
+      if (part.type !== 'image_url') {
+        parts.push(part);
+        continue;
+      }
+      const url = part.image_url.url;
+      if (url.startsWith(ATTACHMENT_URL_PREFIX)) {
+        const attachment = store.take(url.slice(ATTACHMENT_URL_PREFIX.length));
+        if (!attachment) {
+          return { error: `Attachment not found or expired: ${url}` };
+        }
+        parts.push({
+          type: 'image_url',
+          image_url: { url: `data:${attachment.mime};base64,${bytesToBase64(attachment.data)}` },
+        });
+      } else if (
+        DATA_URL_PATTERN.test(url) &&
+        IMAGE_MIME_TYPES.indexOf(url.slice(5, url.indexOf(';'))) !== -1
+      ) {
+        parts.push(part);
+      } else {
+        return { error: 'Images must be sent as attachments or image data URLs' };
+      }
+    }
+    resolved.push({ ...m, content: parts });
+  }
+  return { messages: resolved };
+}
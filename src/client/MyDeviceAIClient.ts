@@ -0,0 +1,374 @@
+// src/client/MyDeviceAIClient.ts
+// Reference client: joins a room as a phone would and talks to the desktop hub.
+//
+// Built on P2PCF in mobile mode, it runs anywhere P2PCF does; under Node pass a
+// WebRTC implementation (options.webrtc, e.g. the exports of "@roamhq/wrtc").
+// connect() goes through the same steps as the app (see src/protocol/messages.ts):
+//
+// 1. "hello" with a stable deviceId, offering end-to-end encryption
+// 2. "pair_challenge": answered with the device secret from an earlier
+//    approval, or with the PIN shown on the desktop (options.requestPin)
+// 3. "approval_pending" while the desktop user decides; "pair_result" hands
+//    over a device secret, emitted as "device_secret" so callers can keep it
+// 4. "version_negotiate" / "version_ack"
+//
+// After that get_model() and prompt() can be used. Prompts do not survive a
+// dropped connection; they fail with code "disconnected".
+
+import { EventEmitter } from 'events';
+import { P2PCF } from '../p2pcf/P2PCF';
+import type { Peer, WebRTCImplementation } from '../p2pcf/types';
+import { generateUUID } from '../p2pcf/utils';
+import { E2E_SCHEME, deriveClientKeys, openFrame, sealFrame } from '../e2e';
+import type { E2EKeys } from '../e2e';
+import { computePairingProof, derivePairingSecrets, generatePairingKeyPair, generatePairingNonce } from '../pairing';
+import { MIN_COMPATIBLE_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../protocolVersion';
+import { parseRawFrame } from '../protocol';
+import type {
+  ClientMessage,
+  EncryptedFrameMessage,
+  ErrorMessage,
+  PromptMessage,
+  ServerMessage,
+  ServerMessageOf,
+} from '../protocol';
+import type { ChatMessage } from '../toolCalling';
+import { ClientError, PromptStream } from './PromptStream';
+
+export const CLIENT_IMPL = 'mydeviceai-client';
+export const CLIENT_VERSION = '1.0.0';
+const DEFAULT_CONNECT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type MyDeviceAIClientOptions = {
+  roomId: string;
+  workerUrl: string;
+  // Stable id for this client; the desktop remembers approvals by it.
+  deviceId: string;
+  deviceName?: string;
+  // Secret from an earlier approval ("device_secret" event); skips the PIN.
+  deviceSecret?: string;
+  // Asked for the PIN shown on the desktop when it is needed.
+  requestPin?: () => Promise<string>;
+  webrtc?: WebRTCImplementation;
+  // Set false to connect without end-to-end encryption.
+  encryption?: boolean;
+  // Covers pairing, including waiting for the desktop user's approval.
+  connectTimeoutMs?: number;
+};
+
+export type PromptOptions = Omit<PromptMessage, 't' | 'id' | 'messages'>;
+
+export type ModelInfo = Omit<ServerMessageOf<'model_info'>, 't'>;
+
+export class MyDeviceAIClient extends EventEmitter {
+  private readonly options: MyDeviceAIClientOptions;
+  private p2pcf: P2PCF | null = null;
+  private desktop: Peer | null = null;
+  private protocolVersion: string | null = null;
+
+  // End-to-end encryption: keys derived for the last pair_response take
+  // effect with the first encrypted frame from the desktop.
+  private pendingKeys: E2EKeys | null = null;
+  private keys: E2EKeys | null = null;
+  private sendSeq = 0;
+  private recvSeq = 0;
+  private sendChain: Promise<void> = Promise.resolve();
+  private recvChain: Promise<void> = Promise.resolve();
+
+  private connecting: {
+    resolve: (protocolVersion: string) => void;
+    reject: (err: ClientError) => void;
+    timer: ReturnType<typeof setTimeout>;
+  } | null = null;
+  private readonly prompts = new Map<string, PromptStream>();
+  private modelRequests: Array<{
+    resolve: (info: ModelInfo) => void;
+    reject: (err: ClientError) => void;
+  }> = [];
+
+  constructor(options: MyDeviceAIClientOptions) {
+    super();
+    this.options = options;
+  }
+
+  get connected(): boolean {
+    return this.protocolVersion !== null;
+  }
+
+  /**
+   * Join the room and pair with the desktop. Resolves with the negotiated
+   * protocol version.
+   */
+  connect(): Promise<string> {
+    if (this.p2pcf) {
+      return Promise.reject(new ClientError('Already connected or connecting'));
+    }
+    const p2pcf = new P2PCF(`${CLIENT_IMPL}-${generateUUID().slice(0, 8)}`, this.options.roomId, {
+      isDesktop: false,
+      workerUrl: this.options.workerUrl,
+      webrtc: this.options.webrtc,
+    });
+    this.p2pcf = p2pcf;
+
+    const connected = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.failConnect(new ClientError('Timed out connecting to the desktop', 'timeout'));
+      }, this.options.connectTimeoutMs || DEFAULT_CONNECT_TIMEOUT_MS);
+      this.connecting = { resolve, reject, timer };
+    });
+
+    p2pcf.on('peerconnect', (peer: Peer) => {
+      if (!peer.isDesktop || this.desktop) return;
+      this.desktop = peer;
+      this.sendFrame({
+        t: 'hello',
+        clientId: peer.clientId,
+        impl: CLIENT_IMPL,
+        version: CLIENT_VERSION,
+        deviceId: this.options.deviceId,
+        ...(this.options.deviceName ? { deviceName: this.options.deviceName } : {}),
+        ...(this.options.encryption !== false ? { encryption: [E2E_SCHEME] } : {}),
+      });
+    });
+    p2pcf.on('msg', (peer: Peer, data: ArrayBuffer | string) => {
+      if (peer.id === this.desktop?.id) this.receive(data);
+    });
+    p2pcf.on('peerclose', (peer: Peer) => {
+      if (peer.id !== this.desktop?.id) return;
+      this.handleClose(new ClientError('The connection to the desktop closed', 'disconnected'));
+    });
+    p2pcf.on('error', (err: Error) => {
+      // Signaling hiccups are retried by P2PCF; only report them.
+      this.emit('p2pcf_error', err);
+    });
+
+    void p2pcf.start().catch((err: Error) => {
+      this.failConnect(new ClientError(`Could not join the room: ${err.message}`));
+    });
+    return connected;
+  }
+
+  /**
+   * Leave the room. Pending requests fail with code "disconnected".
+   */
+  async close(): Promise<void> {
+    const p2pcf = this.p2pcf;
+    this.handleClose(new ClientError('The client was closed', 'disconnected'));
+    if (p2pcf) await p2pcf.destroy();
+  }
+
+  getModel(): Promise<ModelInfo> {
+    this.requireConnected();
+    return new Promise<ModelInfo>((resolve, reject) => {
+      this.modelRequests.push({ resolve, reject });
+      this.sendFrame({ t: 'get_model' });
+    });
+  }
+
+  /**
+   * Send a prompt: a single user message or a whole chat.
+   */
+  prompt(input: string | ChatMessage[], options: PromptOptions = {}): PromptStream {
+    this.requireConnected();
+    const id = generateUUID();
+    const messages: ChatMessage[] =
+      typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+    const stream = new PromptStream(id, () => this.sendFrame({ t: 'cancel', id }));
+    this.prompts.set(id, stream);
+    void stream.result.then(
+      () => this.prompts.delete(id),
+      () => this.prompts.delete(id),
+    );
+    this.sendFrame({ ...options, t: 'prompt', id, messages });
+    return stream;
+  }
+
+  private requireConnected(): void {
+    if (!this.connected) {
+      throw new ClientError('Not connected; call connect() first');
+    }
+  }
+
+  private sendFrame(frame: ClientMessage): void {
+    const p2pcf = this.p2pcf;
+    const desktop = this.desktop;
+    if (!p2pcf || !desktop) return;
+    const keys = this.keys;
+    if (!keys) {
+      p2pcf.send(desktop, JSON.stringify(frame));
+      return;
+    }
+    // Take the seq now so frames go out in the order they were sent.
+    const seq = ++this.sendSeq;
+    this.sendChain = this.sendChain.then(async () => {
+      const sealed = await sealFrame(keys.sendKey, seq, JSON.stringify(frame));
+      p2pcf.send(desktop, JSON.stringify(sealed));
+    });
+  }
+
+  private receive(data: ArrayBuffer | string): void {
+    const text = typeof data === 'string' ? data : new TextDecoder().decode(new Uint8Array(data));
+    const frame = parseRawFrame(text);
+    if (!frame) return;
+    if (frame.t !== 'enc') {
+      // The desktop only sends plaintext before keys are agreed.
+      if (!this.keys) this.handleFrame(frame as ServerMessage);
+      return;
+    }
+
+    // Malformed envelopes fail in openFrame, which checks seq and ct.
+    const sealed = frame as unknown as EncryptedFrameMessage;
+    this.recvChain = this.recvChain.then(async () => {
+      const keys = this.keys || this.pendingKeys;
+      if (!keys) return;
+      let inner: ServerMessage | null;
+      try {
+        const plaintext = await openFrame(keys.recvKey, this.recvSeq, sealed);
+        this.recvSeq = sealed.seq;
+        inner = parseRawFrame(plaintext) as ServerMessage | null;
+      } catch (err) {
+        this.handleClose(
+          new ClientError(`Could not decrypt a frame: ${(err as Error).message}`, 'decryption_failed'),
+        );
+        return;
+      }
+      this.keys = keys;
+      this.pendingKeys = null;
+      if (inner) this.handleFrame(inner);
+    });
+  }
+
+  private handleFrame(frame: ServerMessage): void {
+    switch (frame.t) {
+      case 'pair_challenge':
+        void this.answerChallenge(frame);
+        return;
+      case 'approval_pending':
+        this.emit('approval_pending');
+        return;
+      case 'pair_result':
+        if (frame.ok) {
+          if (frame.deviceSecret) this.emit('device_secret', frame.deviceSecret);
+          this.sendFrame({
+            t: 'version_negotiate',
+            protocolVersion: PROTOCOL_VERSION,
+            minCompatibleVersion: MIN_COMPATIBLE_PROTOCOL_VERSION,
+          });
+        } else {
+          // A new challenge follows while attempts are left.
+          this.pendingKeys = null;
+          this.emit('pairing_failed', frame.attemptsLeft);
+        }
+        return;
+      case 'version_ack':
+        if (frame.compatible) {
+          this.protocolVersion = frame.protocolVersion;
+          this.settleConnect(frame.protocolVersion);
+        } else {
+          this.failConnect(
+            new ClientError(frame.message || 'Incompatible protocol version', frame.reason),
+          );
+        }
+        return;
+      case 'model_info': {
+        const { t: _t, ...info } = frame;
+        this.modelRequests.shift()?.resolve(info);
+        return;
+      }
+      case 'model_changed':
+      case 'model_loading':
+        this.emit(frame.t, frame);
+        return;
+      case 'error':
+        this.handleError(frame);
+        return;
+      default:
+        break;
+    }
+
+    const id = 'id' in frame ? frame.id : '';
+    const stream = id ? this.prompts.get(id) : undefined;
+    stream?.handleFrame(frame);
+  }
+
+  private handleError(frame: ErrorMessage): void {
+    const stream = frame.id ? this.prompts.get(frame.id) : undefined;
+    if (stream) {
+      stream.handleFrame(frame);
+      return;
+    }
+    const err = new ClientError(frame.message, frame.code, frame);
+    if (this.connecting) {
+      this.failConnect(err);
+      return;
+    }
+    // get_model has no id; its failures arrive with id "".
+    const modelRequest = this.modelRequests.shift();
+    if (modelRequest) {
+      modelRequest.reject(err);
+      return;
+    }
+    this.emit('server_error', err);
+  }
+
+  private async answerChallenge(frame: ServerMessageOf<'pair_challenge'>): Promise<void> {
+    try {
+      const secret =
+        frame.method === 'device' && this.options.deviceSecret
+          ? this.options.deviceSecret
+          : await this.readPin();
+      const clientNonce = generatePairingNonce();
+      const keys = await generatePairingKeyPair();
+      const { binding, sessionSecret } = await derivePairingSecrets(keys, frame.key, {
+        desktopNonce: frame.nonce,
+        clientNonce,
+        desktopKey: frame.key,
+        clientKey: keys.publicKey,
+      });
+      const proof = await computePairingProof(secret, binding);
+      this.pendingKeys = frame.encryption === E2E_SCHEME ? await deriveClientKeys(sessionSecret) : null;
+      this.sendFrame({ t: 'pair_response', nonce: clientNonce, key: keys.publicKey, proof });
+    } catch (err) {
+      this.failConnect(err instanceof ClientError ? err : new ClientError((err as Error).message));
+    }
+  }
+
+  private async readPin(): Promise<string> {
+    if (!this.options.requestPin) {
+      throw new ClientError('The desktop asks for its pairing PIN', 'pin_required');
+    }
+    return (await this.options.requestPin()).trim();
+  }
+
+  private settleConnect(protocolVersion: string): void {
+    const connecting = this.connecting;
+    if (!connecting) return;
+    this.connecting = null;
+    clearTimeout(connecting.timer);
+    connecting.resolve(protocolVersion);
+  }
+
+  private failConnect(err: ClientError): void {
+    const connecting = this.connecting;
+    if (!connecting) return;
+    this.connecting = null;
+    clearTimeout(connecting.timer);
+    connecting.reject(err);
+    void this.close();
+  }
+
+  private handleClose(err: ClientError): void {
+    this.failConnect(err);
+    const wasOpen = this.p2pcf !== null;
+    this.p2pcf = null;
+    this.desktop = null;
+    this.protocolVersion = null;
+    this.keys = null;
+    this.pendingKeys = null;
+    this.prompts.forEach((stream) => stream.fail(err));
+    this.prompts.clear();
+    this.modelRequests.forEach((request) => request.reject(err));
+    this.modelRequests = [];
+    if (wasOpen) this.emit('close', err);
+  }
+}
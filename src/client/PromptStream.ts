@@ -0,0 +1,176 @@
+/// <reference lib="es2018.asynciterable" />
+// src/client/PromptStream.ts
+// One prompt's output on the client side, as an async iterator of events plus
+// a promise of the final result.
+//
+//   const stream = client.prompt('Hello');
+//   for await (const event of stream) {
+//     if (event.type === 'token') process.stdout.write(event.text);
+//   }
+//   const { finishReason, stats } = await stream.result;
+//
+// The iterator ends after "end"; after "error" or "cancelled" it throws the
+// ClientError that `result` rejects with.
+
+import type { ContextTruncation } from '../contextManager';
+import type { CompletionStats, ErrorMessage, ServerMessage } from '../protocol';
+
+export type PromptEvent =
+  | { type: 'queued'; position: number }
+  | { type: 'start' }
+  | { type: 'token'; text: string }
+  | { type: 'reasoning'; text: string }
+  | {
+      type: 'tool_call';
+      index: number;
+      callId?: string;
+      name?: string;
+      arguments?: string;
+    };
+
+export type PromptResult = {
+  text: string;
+  reasoning: string;
+  finishReason?: string;
+  stats?: CompletionStats;
+  truncation?: ContextTruncation;
+};
+
+/**
+ * A request that failed. `code` is the error frame's code, "cancelled" after a
+ * cancel, or "disconnected" when the connection closed first.
+ */
+export class ClientError extends Error {
+  readonly code?: string;
+  readonly frame?: ErrorMessage;
+
+  constructor(message: string, code?: string, frame?: ErrorMessage) {
+    super(message);
+    this.name = 'ClientError';
+    this.code = code;
+    this.frame = frame;
+  }
+}
+
+export class PromptStream implements AsyncIterable<PromptEvent> {
+  readonly id: string;
+  readonly result: Promise<PromptResult>;
+
+  private readonly events: PromptEvent[] = [];
+  private waiter: (() => void) | null = null;
+  private failure: ClientError | null = null;
+  private finished = false;
+  private text = '';
+  private reasoning = '';
+  private resolveResult!: (result: PromptResult) => void;
+  private rejectResult!: (err: ClientError) => void;
+  private readonly sendCancel: () => void;
+
+  constructor(id: string, sendCancel: () => void) {
+    this.id = id;
+    this.sendCancel = sendCancel;
+    this.result = new Promise<PromptResult>((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // Callers that only iterate still see the failure, from the iterator.
+    this.result.catch(() => undefined);
+  }
+
+  get done(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Ask the desktop to stop; the stream then fails with code "cancelled".
+   */
+  cancel(): void {
+    if (!this.finished) this.sendCancel();
+  }
+
+  /**
+   * Feed a frame addressed to this prompt. Used by MyDeviceAIClient.
+   */
+  handleFrame(frame: ServerMessage): void {
+    if (this.finished) return;
+    switch (frame.t) {
+      case 'queued':
+        this.push({ type: 'queued', position: frame.position });
+        break;
+      case 'start':
+        this.push({ type: 'start' });
+        break;
+      case 'token':
+        this.text += frame.tok;
+        this.push({ type: 'token', text: frame.tok });
+        break;
+      case 'reasoning_token':
+        this.reasoning += frame.tok;
+        this.push({ type: 'reasoning', text: frame.tok });
+        break;
+      case 'tool_call': {
+        const { index, callId, name } = frame;
+        this.push({ type: 'tool_call', index, callId, name, arguments: frame.arguments });
+        break;
+      }
+      case 'end':
+        this.finish();
+        this.resolveResult({
+          text: this.text,
+          reasoning: this.reasoning,
+          finishReason: frame.finishReason,
+          stats: frame.stats,
+          truncation: frame.truncation,
+        });
+        break;
+      case 'error':
+        this.fail(new ClientError(frame.message, frame.code, frame));
+        break;
+      case 'cancelled':
+        this.fail(new ClientError('The prompt was cancelled', 'cancelled'));
+        break;
+      default:
+        break;
+    }
+  }
+
+  fail(err: ClientError): void {
+    if (this.finished) return;
+    this.failure = err;
+    this.finish();
+    this.rejectResult(err);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<PromptEvent> {
+    return {
+      next: async (): Promise<IteratorResult<PromptEvent>> => {
+        while (!this.events.length && !this.finished) {
+          await new Promise<void>((resolve) => {
+            this.waiter = resolve;
+          });
+        }
+        if (this.events.length) {
+          return { value: this.events.shift() as PromptEvent, done: false };
+        }
+        if (this.failure) throw this.failure;
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private push(event: PromptEvent): void {
+    this.events.push(event);
+    this.wake();
+  }
+
+  private finish(): void {
+    this.finished = true;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.();
+  }
+}
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+// src/client/cli.ts
+// mydeviceai-client: send one prompt to a desktop from the command line.
+//
+//   mydeviceai-client --room <roomId> [options] "prompt"
+//
+// Joins the room as a phone, pairs (asking for the desktop's PIN the first
+// time), streams the reply to stdout and prints stats to stderr. The device id
+// and the secret from the desktop's approval are kept in a state file so later
+// runs skip the PIN.
+//
+// Needs a WebRTC implementation for Node: "@roamhq/wrtc" or "wrtc".
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { ENV } from '../Env';
+import type { WebRTCImplementation } from '../p2pcf/types';
+import { generateUUID } from '../p2pcf/utils';
+import { MyDeviceAIClient } from './MyDeviceAIClient';
+import type { PromptOptions } from './MyDeviceAIClient';
+import { ClientError } from './PromptStream';
+import type { ChatMessage } from '../toolCalling';
+
+const LOG_PREFIX = '[mydeviceai-client]';
+
+const USAGE = `Usage: mydeviceai-client --room <roomId> [options] "prompt"
+
+Options:
+  --room <id>           Room id shown by the desktop app (required)
+  --worker-url <url>    Signaling worker (default: $MYDEVICEAI_WORKER_URL or the built-in one)
+  --pin <pin>           Pairing PIN; asked for on the terminal when needed
+  --state <file>        Device id and secret (default: ~/.mydeviceai-client.json)
+  --system <text>       System message
+  --max-tokens <n>      Limit the reply length
+  --temperature <t>     Sampling temperature
+  --model-info          Print the desktop's current model and exit
+  --verbose             Show connection logs
+  --help                Show this help`;
+
+type CliArgs = {
+  room?: string;
+  workerUrl?: string;
+  pin?: string;
+  state: string;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+  modelInfo: boolean;
+  verbose: boolean;
+  help: boolean;
+  prompt: string;
+};
+
+type ClientState = {
+  deviceId: string;
+  // Keyed by room, since each desktop approves devices separately.
+  deviceSecrets: Record<string, string>;
+};
+
+const VALUE_FLAGS = ['--room', '--worker-url', '--pin', '--state', '--system', '--max-tokens', '--temperature'];
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    state: path.join(os.homedir(), '.mydeviceai-client.json'),
+    modelInfo: false,
+    verbose: false,
+    help: false,
+    prompt: '',
+  };
+  const words: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (VALUE_FLAGS.indexOf(arg) !== -1) {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value`);
+      switch (arg) {
+        case '--room': args.room = value; break;
+        case '--worker-url': args.workerUrl = value; break;
+        case '--pin': args.pin = value; break;
+        case '--state': args.state = value; break;
+        case '--system': args.system = value; break;
+        case '--max-tokens': args.maxTokens = parseNumber(arg, value); break;
+        case '--temperature': args.temperature = parseNumber(arg, value); break;
+      }
+    } else if (arg === '--model-info') {
+      args.modelInfo = true;
+    } else if (arg === '--verbose') {
+      args.verbose = true;
+    } else if (arg === '--help' || arg === '-h') {
+      args.help = true;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      words.push(arg);
+    }
+  }
+  args.prompt = words.join(' ');
+  return args;
+}
+
+function parseNumber(flag: string, value: string): number {
+  const n = Number(value);
+  if (!isFinite(n)) throw new Error(`${flag} must be a number`);
+  return n;
+}
+
+function loadState(file: string): ClientState {
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (raw && typeof raw.deviceId === 'string') {
+      return { deviceId: raw.deviceId, deviceSecrets: raw.deviceSecrets || {} };
+    }
+  } catch {
+    // Missing or unreadable: start as a new device.
+  }
+  return { deviceId: generateUUID(), deviceSecrets: {} };
+}
+
+function saveState(file: string, state: ClientState): void {
+  // The device secret grants access to the desktop; keep it private.
+  fs.writeFileSync(file, JSON.stringify(state, null, 2), { mode: 0o600 });
+}
+
+function loadWebRTC(): WebRTCImplementation {
+  for (const name of ['@roamhq/wrtc', 'wrtc']) {
+    try {
+      // Optional dependency, resolved at run time.
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const wrtc = require(name);
+      return {
+        RTCPeerConnection: wrtc.RTCPeerConnection,
+        RTCIceCandidate: wrtc.RTCIceCandidate,
+        RTCSessionDescription: wrtc.RTCSessionDescription,
+      };
+    } catch {
+      // Try the next one.
+    }
+  }
+  throw new Error('No WebRTC implementation found; install one with `npm install @roamhq/wrtc`');
+}
+
+function askPin(): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise((resolve) => {
+    rl.question('Enter the PIN shown on the desktop: ', (answer) => {
+      rl.close();
+      resolve(answer);
+    });
+  });
+}
+
+async function run(args: CliArgs): Promise<void> {
+  if (!args.room) throw new Error('--room is required');
+  if (!args.prompt && !args.modelInfo) throw new Error('A prompt is required');
+
+  const state = loadState(args.state);
+  const client = new MyDeviceAIClient({
+    roomId: args.room,
+    workerUrl: args.workerUrl || process.env.MYDEVICEAI_WORKER_URL || ENV.workerUrl,
+    deviceId: state.deviceId,
+    deviceName: `${os.hostname()} (CLI)`,
+    deviceSecret: state.deviceSecrets[args.room],
+    requestPin: args.pin ? () => Promise.resolve(args.pin) : askPin,
+    webrtc: loadWebRTC(),
+  });
+  client.on('approval_pending', () => {
+    console.error(`${LOG_PREFIX} Waiting for approval on the desktop...`);
+  });
+  client.on('pairing_failed', (attemptsLeft?: number) => {
+    const left = attemptsLeft !== undefined ? ` (${attemptsLeft} attempts left)` : '';
+    console.error(`${LOG_PREFIX} Wrong PIN${left}`);
+  });
+  client.on('device_secret', (secret: string) => {
+    state.deviceSecrets[args.room] = secret;
+    saveState(args.state, state);
+  });
+  client.on('p2pcf_error', (err: Error) => {
+    if (args.verbose) console.error(`${LOG_PREFIX} ${err.message}`);
+  });
+
+  try {
+    await client.connect();
+    // The device id is kept even before approval so the desktop sees one device.
+    if (!fs.existsSync(args.state)) saveState(args.state, state);
+
+    if (args.modelInfo) {
+      process.stdout.write(`${JSON.stringify(await client.getModel(), null, 2)}\n`);
+      return;
+    }
+
+    const messages: ChatMessage[] = [];
+    if (args.system) messages.push({ role: 'system', content: args.system });
+    messages.push({ role: 'user', content: args.prompt });
+    const options: PromptOptions = {};
+    if (args.maxTokens !== undefined) options.max_tokens = args.maxTokens;
+    if (args.temperature !== undefined) options.temperature = args.temperature;
+
+    const stream = client.prompt(messages, options);
+    process.once('SIGINT', () => stream.cancel());
+    for await (const event of stream) {
+      if (event.type === 'token') process.stdout.write(event.text);
+      else if (event.type === 'queued') console.error(`${LOG_PREFIX} Queued at position ${event.position}`);
+    }
+    process.stdout.write('\n');
+
+    const { finishReason, stats } = await stream.result;
+    if (stats) {
+      const speed = stats.predicted_per_second ? `, ${stats.predicted_per_second.toFixed(1)} tok/s` : '';
+      console.error(`${LOG_PREFIX} ${stats.completion_tokens ?? '?'} tokens${speed}, finish: ${finishReason || 'unknown'}`);
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+function main(): void {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error(`${LOG_PREFIX} ${(err as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!args.verbose) {
+    // P2PCF logs connection details to stdout, which carries the reply.
+    console.log = () => undefined;
+    console.warn = () => undefined;
+  }
+  run(args).then(
+    () => process.exit(0),
+    (err: Error) => {
+      const code = err instanceof ClientError && err.code ? ` (${err.code})` : '';
+      console.error(`${LOG_PREFIX} ${err.message}${code}`);
+      process.exit(1);
+    },
+  );
+}
+
+main();
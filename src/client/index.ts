@@ -0,0 +1,9 @@
+/**
+ * Reference client for the P2P protocol: joins a room as a phone and pairs
+ * with the desktop. The CLI in cli.ts is built on it.
+ */
+
+export { CLIENT_IMPL, CLIENT_VERSION, MyDeviceAIClient } from './MyDeviceAIClient';
+export type { ModelInfo, MyDeviceAIClientOptions, PromptOptions } from './MyDeviceAIClient';
+export { ClientError, PromptStream } from './PromptStream';
+export type { PromptEvent, PromptResult } from './PromptStream';
@@ -0,0 +1,275 @@
+// src/contextManager.ts
+// Context overflow handling for chat prompts (renderer side).
+//
+// A prompt whose messages, plus room for the reply (max_tokens), do not fit the
+// model's context makes llama-server fail. Before sending, the desktop counts
+// the prompt in the model's own tokens and shortens it with the strategy chosen
+// for the model in Manage Models:
+//
+// - "drop_oldest": drop the oldest turns; leading system messages are kept
+// - "sliding_window": keep only the newest turns that fit; the system prompt
+//   slides out like any other message
+// - "summarize": replace the oldest turns with a summary written by the model
+//   itself, falling back to drop_oldest when that fails or does not fit
+// - "none": never shorten; the prompt fails with code "context_overflow"
+//
+// Turns are dropped whole (a user message with the replies and tool results
+// after it), so no tool result loses its call. The newest turn (for session
+// prompts: the messages the phone just sent) is never dropped. Image parts are
+// not counted.
+
+import type { ChatMessage } from './toolCalling';
+
+export type ContextStrategy = 'none' | 'drop_oldest' | 'sliding_window' | 'summarize';
+
+export const CONTEXT_STRATEGIES: ContextStrategy[] = [
+  'drop_oldest',
+  'sliding_window',
+  'summarize',
+  'none',
+];
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = 'drop_oldest';
+
+// Prompt room kept free for the summary message, and its max_tokens.
+export const SUMMARY_MAX_TOKENS = 256;
+// Chat template tokens (role headers, separators) allowed for by the quick
+// upper bound, per message and per prompt.
+const TEMPLATE_TOKENS_PER_MESSAGE = 16;
+const TEMPLATE_TOKENS_BASE = 64;
+// Typical for BPE tokenizers on English text and code.
+const BYTES_PER_TOKEN_ESTIMATE = 4;
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:\n';
+
+export type ContextTruncation = {
+  strategy: ContextStrategy;
+  // Messages removed from the prompt (replaced by the summary when summarizing).
+  removedMessages: number;
+  originalTokens: number;
+  promptTokens: number;
+};
+
+export type ContextFitOptions = {
+  strategy: ContextStrategy;
+  // Tokens the prompt may use: the context window minus max_tokens.
+  budget: number;
+  // Newest messages that are always kept.
+  keepLast: number;
+  countTokens: (messages: ChatMessage[]) => Promise<number>;
+  summarize: (messages: ChatMessage[]) => Promise<string>;
+};
+
+export type ContextFitResult =
+  | { ok: true; messages: ChatMessage[]; truncation: ContextTruncation | null }
+  | { ok: false; message: string };
+
+export function normalizeContextStrategy(raw: unknown): ContextStrategy {
+  return CONTEXT_STRATEGIES.indexOf(raw as ContextStrategy) !== -1
+    ? (raw as ContextStrategy)
+    : DEFAULT_CONTEXT_STRATEGY;
+}
+
+function messageText(m: ChatMessage): string {
+  let text = '';
+  if (typeof m.content === 'string') {
+    text = m.content;
+  } else if (Array.isArray(m.content)) {
+    m.content.forEach((part) => {
+      if (part.type === 'text') text += part.text;
+    });
+  }
+  if ('tool_calls' in m) {
+    m.tool_calls.forEach((call) => {
+      text += call.function.name + call.function.arguments;
+    });
+  }
+  return text;
+}
+
+/**
+ * Upper bound on a chat's size in tokens without asking the tokenizer:
+ * byte-level tokenizers never produce more tokens than UTF-8 bytes, plus the
+ * chat template's own tokens. `extraBytes` covers e.g. tool definitions.
+ */
+export function maxPossibleTokens(messages: ChatMessage[], extraBytes = 0): number {
+  const encoder = new TextEncoder();
+  let bytes = extraBytes;
+  messages.forEach((m) => {
+    bytes += encoder.encode(messageText(m)).length + TEMPLATE_TOKENS_PER_MESSAGE;
+  });
+  return bytes + TEMPLATE_TOKENS_BASE;
+}
+
+/**
+ * Rough size of a text in tokens, for when llama-server never reported a
+ * count, e.g. usage of a prompt cancelled before its final chunk.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(new TextEncoder().encode(text).length / BYTES_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Rough size of a chat in tokens, chat template included; see estimateTokens.
+ */
+export function estimateChatTokens(messages: ChatMessage[], extraBytes = 0): number {
+  let tokens = Math.ceil(extraBytes / BYTES_PER_TOKEN_ESTIMATE) + TEMPLATE_TOKENS_BASE;
+  messages.forEach((m) => {
+    tokens += estimateTokens(messageText(m)) + TEMPLATE_TOKENS_PER_MESSAGE;
+  });
+  return tokens;
+}
+
+/**
+ * The messages with image parts left out, for the tokenizer.
+ */
+export function withoutImages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((m) =>
+    Array.isArray(m.content) ? ({ ...m, content: messageText(m) } as ChatMessage) : m,
+  );
+}
+
+/**
+ * Messages for the request that summarizes dropped turns. The transcript keeps
+ * its newest `maxChars` characters.
+ */
+export function summaryRequestMessages(dropped: ChatMessage[], maxChars: number): ChatMessage[] {
+  let transcript = dropped.map((m) => `${m.role}: ${messageText(m)}`).join('\n\n');
+  if (transcript.length > maxChars) {
+    transcript = transcript.slice(transcript.length - maxChars);
+  }
+  return [
+    {
+      role: 'system',
+      content:
+        'Summarize the conversation below in a few sentences. Keep names, facts, ' +
+        'decisions and open questions. Reply with the summary only.',
+    },
+    { role: 'user', content: transcript },
+  ];
+}
+
+function splitTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  messages.forEach((m) => {
+    if (m.role === 'user' || !turns.length) {
+      turns.push([m]);
+    } else {
+      turns[turns.length - 1].push(m);
+    }
+  });
+  return turns;
+}
+
+function withSummary(messages: ChatMessage[], summary: string): ChatMessage[] {
+  const first = messages[0];
+  if (first && first.role === 'system' && typeof first.content === 'string') {
+    return [
+      { role: 'system', content: `${first.content}\n\n${SUMMARY_PREFIX}${summary}` },
+      ...messages.slice(1),
+    ];
+  }
+  return [{ role: 'system', content: `${SUMMARY_PREFIX}${summary}` }, ...messages];
+}
+
+/**
+ * Shorten `messages` to fit options.budget with options.strategy. Counting
+ * is the expensive part, so the number of turns to drop is found by binary
+ * search (dropping more never adds tokens).
+ */
+export async function fitToContext(
+  messages: ChatMessage[],
+  options: ContextFitOptions,
+): Promise<ContextFitResult> {
+  const { strategy, budget, countTokens } = options;
+  const originalTokens = await countTokens(messages);
+  if (originalTokens <= budget) {
+    return { ok: true, messages, truncation: null };
+  }
+  if (strategy === 'none') {
+    return {
+      ok: false,
+      message: `The prompt needs ${originalTokens} tokens but the model has room for ${budget} (context window minus max_tokens)`,
+    };
+  }
+
+  const keepLast = Math.min(Math.max(1, options.keepLast), messages.length);
+  const tailStart = messages.length - keepLast;
+  let headEnd = 0;
+  if (strategy !== 'sliding_window') {
+    while (headEnd < tailStart && messages[headEnd].role === 'system') headEnd += 1;
+  }
+  const head = messages.slice(0, headEnd);
+  const turns = splitTurns(messages.slice(headEnd, tailStart));
+  const tail = messages.slice(tailStart);
+  const keepFrom = (dropped: number): ChatMessage[] =>
+    head.concat(...turns.slice(dropped), tail);
+
+  // Fewest dropped turns that fit `limit`, or the size with all of them gone.
+  const search = async (
+    limit: number,
+  ): Promise<{ fits: boolean; dropped: number; tokens: number }> => {
+    const minimum = await countTokens(keepFrom(turns.length));
+    if (minimum > limit) return { fits: false, dropped: turns.length, tokens: minimum };
+    let best = { fits: true, dropped: turns.length, tokens: minimum };
+    let lo = 1;
+    let hi = turns.length - 1;
+    while (lo <= hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      // eslint-disable-next-line no-await-in-loop
+      const tokens = await countTokens(keepFrom(mid));
+      if (tokens <= limit) {
+        best = { fits: true, dropped: mid, tokens };
+        hi = mid - 1;
+      } else {
+        lo = mid + 1;
+      }
+    }
+    return best;
+  };
+
+  if (strategy === 'summarize' && turns.length) {
+    const found = await search(budget - SUMMARY_MAX_TOKENS);
+    if (found.fits) {
+      const dropped = ([] as ChatMessage[]).concat(...turns.slice(0, found.dropped));
+      try {
+        const summary = (await options.summarize(dropped)).trim();
+        if (summary) {
+          const summarized = withSummary(keepFrom(found.dropped), summary);
+          const tokens = await countTokens(summarized);
+          if (tokens <= budget) {
+            return {
+              ok: true,
+              messages: summarized,
+              truncation: {
+                strategy,
+                removedMessages: dropped.length,
+                originalTokens,
+                promptTokens: tokens,
+              },
+            };
+          }
+        }
+      } catch {
+        // Fall back to dropping the turns below.
+      }
+    }
+  }
+
+  const found = await search(budget);
+  if (!found.fits) {
+    return {
+      ok: false,
+      message: `The newest messages alone need ${found.tokens} tokens but the model has room for ${budget} (context window minus max_tokens)`,
+    };
+  }
+  const kept = keepFrom(found.dropped);
+  return {
+    ok: true,
+    messages: kept,
+    truncation: {
+      strategy: strategy === 'sliding_window' ? 'sliding_window' : 'drop_oldest',
+      removedMessages: messages.length - kept.length,
+      originalTokens,
+      promptTokens: found.tokens,
+    },
+  };
+}
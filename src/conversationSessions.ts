@@ -0,0 +1,210 @@
+// src/conversationSessions.ts
+// Server-side conversation sessions (renderer side).
+//
+// A "prompt" carrying a session_id only sends the new turn(s); the desktop keeps
+// the history and prepends it. Each session is pinned to one llama-server slot
+// (id_slot) and sent with cache_prompt, so llama-server reuses the KV cache of
+// the shared prefix instead of reprocessing the whole chat on every turn.
+//
+// Sessions belong to a device, so they survive reconnects. They expire after
+// SESSION_TTL_MS without use, are capped in number and size (least recently used
+// idle sessions are evicted first), and can be ended early with "session_close".
+// A phone that finds its session gone starts it again with the full history.
+
+import type { ChatMessage, ToolCall } from './toolCalling';
+
+export const SESSION_TTL_MS = 30 * 60 * 1000;
+export const MAX_SESSIONS_PER_DEVICE = 8;
+const MAX_SESSIONS = 32;
+// History size in characters of message content; inline images count in full.
+export const MAX_SESSION_CHARS = 2 * 1024 * 1024;
+const MAX_SESSION_ID_LENGTH = 128;
+
+export type ConversationSession = {
+  id: string;
+  deviceId: string;
+  messages: ChatMessage[];
+  chars: number;
+  // llama-server slot the session's KV cache lives in, once assigned.
+  slot: number | null;
+  // A session runs one prompt at a time so turns stay in order.
+  busy: boolean;
+  lastUsedAt: number;
+};
+
+export type SessionOpenResult =
+  | { ok: true; session: ConversationSession }
+  | { ok: false; code: 'session_limit'; message: string };
+
+export function normalizeSessionId(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const value = raw.trim();
+  return value && value.length <= MAX_SESSION_ID_LENGTH ? value : null;
+}
+
+export function messageChars(messages: ChatMessage[]): number {
+  let chars = 0;
+  messages.forEach((m) => {
+    if (typeof m.content === 'string') {
+      chars += m.content.length;
+    } else if (Array.isArray(m.content)) {
+      m.content.forEach((part) => {
+        chars += part.type === 'text' ? part.text.length : part.image_url.url.length;
+      });
+    }
+    if ('tool_calls' in m) {
+      m.tool_calls.forEach((call) => {
+        chars += call.function.name.length + call.function.arguments.length;
+      });
+    }
+  });
+  return chars;
+}
+
+/**
+ * The assistant turn to store after a reply: its text and any tool calls.
+ */
+export function assistantMessage(text: string, toolCalls: ToolCall[]): ChatMessage {
+  return toolCalls.length
+    ? { role: 'assistant', content: text || null, tool_calls: toolCalls }
+    : { role: 'assistant', content: text };
+}
+
+export class ConversationStore {
+  private readonly sessions = new Map<string, ConversationSession>();
+
+  /**
+   * A device's session, or null if it never existed, expired or was evicted.
+   */
+  get(deviceId: string, id: string, now = Date.now()): ConversationSession | null {
+    this.expire(now);
+    const session = this.sessions.get(this.key(deviceId, id)) || null;
+    if (session) session.lastUsedAt = now;
+    return session;
+  }
+
+  /**
+   * Start a session with an empty history. An existing session is returned
+   * as is (it keeps its slot); its history stays until the caller replaces it
+   * with replaceHistory once the restarting prompt succeeds. Creating may evict
+   * the least recently used idle session of the device, or of any device, to
+   * stay within the caps.
+   */
+  start(deviceId: string, id: string, now = Date.now()): SessionOpenResult {
+    this.expire(now);
+    const existing = this.sessions.get(this.key(deviceId, id));
+    if (existing) {
+      existing.lastUsedAt = now;
+      return { ok: true, session: existing };
+    }
+
+    const own = Array.from(this.sessions.values()).filter((s) => s.deviceId === deviceId);
+    if (own.length >= MAX_SESSIONS_PER_DEVICE && !this.evictIdle(own)) {
+      return {
+        ok: false,
+        code: 'session_limit',
+        message: `This device already has ${MAX_SESSIONS_PER_DEVICE} sessions running prompts`,
+      };
+    }
+    if (this.sessions.size >= MAX_SESSIONS && !this.evictIdle(Array.from(this.sessions.values()))) {
+      return {
+        ok: false,
+        code: 'session_limit',
+        message: 'The desktop has too many active sessions; try again later',
+      };
+    }
+
+    const session: ConversationSession = {
+      id,
+      deviceId,
+      messages: [],
+      chars: 0,
+      slot: null,
+      busy: false,
+      lastUsedAt: now,
+    };
+    this.sessions.set(this.key(deviceId, id), session);
+    return { ok: true, session };
+  }
+
+  /**
+   * The llama-server slot for a session, pinning it to the least shared slot
+   * the first time or when the server now has fewer slots.
+   */
+  assignSlot(session: ConversationSession, slotCount: number): number {
+    const slots = Math.max(1, Math.floor(slotCount));
+    if (session.slot !== null && session.slot < slots) {
+      return session.slot;
+    }
+    const load: number[] = new Array(slots).fill(0);
+    this.sessions.forEach((s) => {
+      if (s !== session && s.slot !== null && s.slot < slots) load[s.slot] += 1;
+    });
+    session.slot = load.indexOf(Math.min(...load));
+    return session.slot;
+  }
+
+  /**
+   * True when `messages` still fit within MAX_SESSION_CHARS, on top of the
+   * current history or, with `restart`, on their own.
+   */
+  hasRoom(session: ConversationSession, messages: ChatMessage[], restart = false): boolean {
+    return (restart ? 0 : session.chars) + messageChars(messages) <= MAX_SESSION_CHARS;
+  }
+
+  /**
+   * Append a finished exchange. The reply itself may take the session past
+   * MAX_SESSION_CHARS; the next prompt is then refused by hasRoom.
+   */
+  append(session: ConversationSession, messages: ChatMessage[], now = Date.now()): void {
+    session.messages.push(...messages);
+    session.chars += messageChars(messages);
+    session.lastUsedAt = now;
+  }
+
+  /**
+   * Swap the history for a shortened one, e.g. after older turns were dropped
+   * or summarized to fit the context window.
+   */
+  replaceHistory(session: ConversationSession, messages: ChatMessage[]): void {
+    session.messages = messages;
+    session.chars = messageChars(messages);
+  }
+
+  close(deviceId: string, id: string): boolean {
+    return this.sessions.delete(this.key(deviceId, id));
+  }
+
+  /**
+   * Drop every session of a device, e.g. when it is revoked or blocked.
+   */
+  closeDevice(deviceId: string): void {
+    for (const [key, session] of this.sessions) {
+      if (session.deviceId === deviceId) this.sessions.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private key(deviceId: string, id: string): string {
+    return `${deviceId}\n${id}`;
+  }
+
+  private evictIdle(candidates: ConversationSession[]): boolean {
+    const idle = candidates.filter((s) => !s.busy);
+    if (!idle.length) return false;
+    const oldest = idle.reduce((a, b) => (b.lastUsedAt < a.lastUsedAt ? b : a));
+    this.sessions.delete(this.key(oldest.deviceId, oldest.id));
+    return true;
+  }
+
+  private expire(now: number): void {
+    for (const [key, session] of this.sessions) {
+      if (!session.busy && now - session.lastUsedAt > SESSION_TTL_MS) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+}
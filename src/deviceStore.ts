@@ -0,0 +1,443 @@
+// src/deviceStore.ts
+// Main-process store of known remote devices for MyDeviceAI-Desktop.
+//
+// Responsibilities:
+// - Persist trusted and blocked devices in DEVICES_STATE_FILE, keyed by the
+//   stable deviceId a phone presents in its "hello" frame.
+// - Issue a per-device secret on approval; trusted devices prove knowledge of it
+//   on later connections instead of re-entering the pairing PIN. The secret never
+//   leaves the main process except once, in the approval result.
+// - Notify renderer windows when a device is approved, renamed, blocked or revoked
+//   so live connections can be closed.
+
+import { app, BrowserWindow } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PeerLimits } from './settingsStore';
+
+const LOG_PREFIX = '[DeviceStore]';
+
+function logInfo(message: string, extra?: Record<string, unknown>): void {
+  if (extra) {
+    // eslint-disable-next-line no-console
+    console.log(`${LOG_PREFIX} ${message}`, extra);
+  } else {
+    // eslint-disable-next-line no-console
+    console.log(`${LOG_PREFIX} ${message}`);
+  }
+}
+
+function logError(message: string, error?: unknown, extra?: Record<string, unknown>): void {
+  // eslint-disable-next-line no-console
+  console.error(`${LOG_PREFIX} ${message}`, {
+    error:
+      error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : error,
+    ...(extra || {}),
+  });
+}
+
+export type DeviceStatus = 'trusted' | 'blocked';
+
+// Remote actions beyond prompting. Every permission is off until granted on
+// the Devices screen.
+export type DevicePermissions = {
+  // list_models / set_model: see and switch the desktop's active model.
+  manageModels: boolean;
+};
+
+export type KnownDevice = {
+  // Stable identity presented by the phone in "hello".
+  id: string;
+  name: string;
+  status: DeviceStatus;
+
+  // Shared secret issued on approval (trusted devices only).
+  secret?: string;
+
+  // Overrides of the default limits in Settings; missing keys use the default.
+  limits?: Partial<PeerLimits>;
+
+  // Granted permissions; missing keys are denied.
+  permissions?: Partial<DevicePermissions>;
+
+  createdAt: string;
+  updatedAt: string;
+  lastSeenAt?: string;
+};
+
+// Device record as exposed to the renderer (secret stripped).
+export type DeviceInfo = Omit<KnownDevice, 'secret'>;
+
+export type DevicesState = {
+  version: number;
+  devices: KnownDevice[];
+};
+
+export type DeviceChange =
+  | { type: 'updated'; device: DeviceInfo }
+  | { type: 'removed'; id: string };
+
+const STATE_VERSION = 1;
+const DEVICES_STATE_FILE = path.join(app.getPath('userData'), 'devices.json');
+const MAX_DEVICE_ID_LENGTH = 128;
+const MAX_DEVICE_NAME_LENGTH = 64;
+
+// Must match PAIRING_PROOF_CONTEXT in src/pairing.ts.
+const PAIRING_PROOF_CONTEXT = 'mydeviceai-pair';
+
+function readJsonFile<T>(file: string): T | null {
+  try {
+    const raw = fs.readFileSync(file, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeJsonAtomic(file: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2), 'utf8');
+  fs.renameSync(tmp, file);
+}
+
+function normalizeDeviceId(id: unknown): string {
+  const value = typeof id === 'string' ? id.trim() : '';
+  if (!value) {
+    throw new Error('deviceId is required');
+  }
+  if (value.length > MAX_DEVICE_ID_LENGTH) {
+    throw new Error(`deviceId must be at most ${MAX_DEVICE_ID_LENGTH} characters`);
+  }
+  return value;
+}
+
+function normalizeDeviceName(name: unknown, fallback: string): string {
+  const value = typeof name === 'string' ? name.trim() : '';
+  return (value || fallback).slice(0, MAX_DEVICE_NAME_LENGTH);
+}
+
+function toDeviceInfo(device: KnownDevice): DeviceInfo {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { secret, ...info } = device;
+  return info;
+}
+
+// Core state access
+
+let cachedState: DevicesState | null = null;
+
+function ensureState(): DevicesState {
+  if (cachedState) {
+    return cachedState;
+  }
+
+  const disk = readJsonFile<DevicesState>(DEVICES_STATE_FILE);
+  cachedState = {
+    version: STATE_VERSION,
+    devices: Array.isArray(disk?.devices)
+      ? disk.devices.filter((d) => d && typeof d.id === 'string')
+      : [],
+  };
+  return cachedState;
+}
+
+function broadcastChange(change: DeviceChange): void {
+  BrowserWindow.getAllWindows().forEach((window) => {
+    window.webContents.send('devices-changed', change);
+  });
+}
+
+function updateState(mutator: (state: DevicesState) => void): DevicesState {
+  const state = ensureState();
+  mutator(state);
+  state.version = STATE_VERSION;
+  writeJsonAtomic(DEVICES_STATE_FILE, state);
+  return state;
+}
+
+export function listDevices(): DeviceInfo[] {
+  return ensureState().devices.map(toDeviceInfo);
+}
+
+export function getDevice(id: string): DeviceInfo | null {
+  const device = ensureState().devices.find((d) => d.id === id);
+  return device ? toDeviceInfo(device) : null;
+}
+
+/**
+ * Check a trusted device's answer to a pairing challenge. The proof is
+ * computed exactly like a PIN proof (see src/pairing.ts) with the device
+ * secret as the HMAC key; `binding` comes from the connection's key exchange,
+ * which the renderer runs, so the secret never leaves this process.
+ */
+export function verifyDeviceProof(id: string, binding: unknown, proof: unknown): boolean {
+  const device = ensureState().devices.find((d) => d.id === id);
+  if (!device || device.status !== 'trusted' || !device.secret) return false;
+  if (typeof binding !== 'string' || !binding) return false;
+  if (typeof proof !== 'string') return false;
+
+  const expected = crypto
+    .createHmac('sha256', device.secret)
+    .update(`${PAIRING_PROOF_CONTEXT}:${binding}`)
+    .digest();
+  const actual = Buffer.from(proof.toLowerCase(), 'hex');
+  if (actual.length !== expected.length) return false;
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Trust a device (new or previously blocked) and issue it a fresh secret.
+ */
+export function approveDevice(
+  id: string,
+  name?: string,
+): { ok: boolean; device?: DeviceInfo; secret?: string; error?: string } {
+  try {
+    const deviceId = normalizeDeviceId(id);
+    const now = new Date().toISOString();
+    let approved: KnownDevice | undefined;
+
+    updateState((s) => {
+      let device = s.devices.find((d) => d.id === deviceId);
+      if (!device) {
+        device = {
+          id: deviceId,
+          name: normalizeDeviceName(name, deviceId),
+          status: 'trusted',
+          createdAt: now,
+          updatedAt: now,
+        };
+        s.devices.push(device);
+      }
+      device.status = 'trusted';
+      device.secret = crypto.randomBytes(32).toString('hex');
+      device.updatedAt = now;
+      device.lastSeenAt = now;
+      approved = device;
+    });
+
+    if (!approved) {
+      throw new Error('Internal error: approved device missing');
+    }
+
+    logInfo('Device approved', { id: deviceId });
+    const info = toDeviceInfo(approved);
+    broadcastChange({ type: 'updated', device: info });
+    return { ok: true, device: info, secret: approved.secret };
+  } catch (err: any) {
+    logError('approveDevice failed', err, { id });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+/**
+ * Block a device; blocked devices are refused as soon as they say hello.
+ */
+export function blockDevice(
+  id: string,
+  name?: string,
+): { ok: boolean; device?: DeviceInfo; error?: string } {
+  try {
+    const deviceId = normalizeDeviceId(id);
+    const now = new Date().toISOString();
+    let blocked: KnownDevice | undefined;
+
+    updateState((s) => {
+      let device = s.devices.find((d) => d.id === deviceId);
+      if (!device) {
+        device = {
+          id: deviceId,
+          name: normalizeDeviceName(name, deviceId),
+          status: 'blocked',
+          createdAt: now,
+          updatedAt: now,
+        };
+        s.devices.push(device);
+      }
+      device.status = 'blocked';
+      delete device.secret;
+      device.updatedAt = now;
+      blocked = device;
+    });
+
+    if (!blocked) {
+      throw new Error('Internal error: blocked device missing');
+    }
+
+    logInfo('Device blocked', { id: deviceId });
+    const info = toDeviceInfo(blocked);
+    broadcastChange({ type: 'updated', device: info });
+    return { ok: true, device: info };
+  } catch (err: any) {
+    logError('blockDevice failed', err, { id });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+export function renameDevice(
+  id: string,
+  name: string,
+): { ok: boolean; device?: DeviceInfo; error?: string } {
+  try {
+    let renamed: KnownDevice | undefined;
+
+    updateState((s) => {
+      const device = s.devices.find((d) => d.id === id);
+      if (!device) {
+        throw new Error(`Device not found: ${id}`);
+      }
+      device.name = normalizeDeviceName(name, device.name);
+      device.updatedAt = new Date().toISOString();
+      renamed = device;
+    });
+
+    if (!renamed) {
+      throw new Error('Internal error: renamed device missing');
+    }
+
+    logInfo('Device renamed', { id });
+    const info = toDeviceInfo(renamed);
+    broadcastChange({ type: 'updated', device: info });
+    return { ok: true, device: info };
+  } catch (err: any) {
+    logError('renameDevice failed', err, { id });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+/**
+ * Replace a device's limit overrides. Non-numeric or negative values are
+ * dropped so the Settings default applies for that limit.
+ */
+export function setDeviceLimits(
+  id: string,
+  limits: Partial<PeerLimits> | null,
+): { ok: boolean; device?: DeviceInfo; error?: string } {
+  try {
+    const overrides: Partial<PeerLimits> = {};
+    const keys: Array<keyof PeerLimits> = [
+      'requestsPerMinute',
+      'maxConcurrentPerPeer',
+      'dailyPromptTokens',
+      'dailyCompletionTokens',
+    ];
+    keys.forEach((key) => {
+      const value = limits?.[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        overrides[key] = Math.round(value);
+      }
+    });
+
+    let updated: KnownDevice | undefined;
+    updateState((s) => {
+      const device = s.devices.find((d) => d.id === id);
+      if (!device) {
+        throw new Error(`Device not found: ${id}`);
+      }
+      if (Object.keys(overrides).length) {
+        device.limits = overrides;
+      } else {
+        delete device.limits;
+      }
+      device.updatedAt = new Date().toISOString();
+      updated = device;
+    });
+
+    if (!updated) {
+      throw new Error('Internal error: updated device missing');
+    }
+
+    logInfo('Device limits updated', { id, limits: overrides });
+    const info = toDeviceInfo(updated);
+    broadcastChange({ type: 'updated', device: info });
+    return { ok: true, device: info };
+  } catch (err: any) {
+    logError('setDeviceLimits failed', err, { id });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+/**
+ * Replace a device's granted permissions. Only `true` values are stored.
+ */
+export function setDevicePermissions(
+  id: string,
+  permissions: Partial<DevicePermissions> | null,
+): { ok: boolean; device?: DeviceInfo; error?: string } {
+  try {
+    const granted: Partial<DevicePermissions> = {};
+    const keys: Array<keyof DevicePermissions> = ['manageModels'];
+    keys.forEach((key) => {
+      if (permissions?.[key] === true) {
+        granted[key] = true;
+      }
+    });
+
+    let updated: KnownDevice | undefined;
+    updateState((s) => {
+      const device = s.devices.find((d) => d.id === id);
+      if (!device) {
+        throw new Error(`Device not found: ${id}`);
+      }
+      if (Object.keys(granted).length) {
+        device.permissions = granted;
+      } else {
+        delete device.permissions;
+      }
+      device.updatedAt = new Date().toISOString();
+      updated = device;
+    });
+
+    if (!updated) {
+      throw new Error('Internal error: updated device missing');
+    }
+
+    logInfo('Device permissions updated', { id, permissions: granted });
+    const info = toDeviceInfo(updated);
+    broadcastChange({ type: 'updated', device: info });
+    return { ok: true, device: info };
+  } catch (err: any) {
+    logError('setDevicePermissions failed', err, { id });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+/**
+ * Forget a device entirely. Its next connection is treated as unknown and
+ * must pair with the PIN and be approved again.
+ */
+export function revokeDevice(id: string): { ok: boolean; error?: string } {
+  try {
+    updateState((s) => {
+      const index = s.devices.findIndex((d) => d.id === id);
+      if (index === -1) {
+        throw new Error(`Device not found: ${id}`);
+      }
+      s.devices.splice(index, 1);
+    });
+
+    logInfo('Device revoked', { id });
+    broadcastChange({ type: 'removed', id });
+    return { ok: true };
+  } catch (err: any) {
+    logError('revokeDevice failed', err, { id });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+export function markDeviceSeen(id: string): void {
+  try {
+    updateState((s) => {
+      const device = s.devices.find((d) => d.id === id);
+      if (device) {
+        device.lastSeenAt = new Date().toISOString();
+      }
+    });
+  } catch (err) {
+    logError('markDeviceSeen failed', err, { id });
+  }
+}
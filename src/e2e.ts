@@ -0,0 +1,174 @@
+// src/e2e.ts
+// Application-layer encryption of P2P protocol frames (renderer side).
+//
+// DTLS protects the data channel hop by hop, but the signaling worker sees the
+// DTLS fingerprints and TURN relays are third-party. When both sides support it,
+// every frame after a successful pair_response is wrapped in an envelope:
+//
+//   { "t": "enc", "seq": number, "ct": string }
+//
+// - Keys: HKDF-SHA256 over the session secret from the pairing key exchange
+//   (derivePairingSecrets in src/pairing.ts), one AES-256-GCM key per direction.
+// - IV: 4 zero bytes followed by seq as a 64-bit big-endian integer. Keys are
+//   unique per connection and direction, so an IV is never reused.
+// - ct: base64 of the AES-GCM ciphertext + tag of the inner JSON frame.
+// - Replay protection: seq starts at 1 and must strictly increase per direction.
+//
+// Binary attachment frames (src/attachments.ts) are sealed the same way, with
+// the plaintext frame as the payload, and share the seq counter with "enc":
+//
+//   0xA2 | seq (uint64, big-endian) | ciphertext + tag
+//
+// The session secret comes from an ephemeral ECDH exchange, not from the PIN or
+// device secret, so a recorded connection cannot be decrypted by guessing the
+// PIN, and the device secret handed out in "pair_result" travels under keys no
+// PIN can reproduce.
+
+import { base64ToBytes, bytesToBase64, hexToBytes, stringToBytes } from './p2pcf/utils';
+
+export const E2E_SCHEME = 'aes-256-gcm';
+
+const KEY_INFO_CLIENT_TO_DESKTOP = 'mydeviceai-e2e client->desktop';
+const KEY_INFO_DESKTOP_TO_CLIENT = 'mydeviceai-e2e desktop->client';
+
+export type E2EKeys = {
+  sendKey: CryptoKey;
+  recvKey: CryptoKey;
+};
+
+export type EncryptedFrame = {
+  t: 'enc';
+  seq: number;
+  ct: string;
+};
+
+/**
+ * True when a hello's "encryption" list offers a scheme the desktop speaks.
+ */
+export function supportsE2E(offer: unknown): boolean {
+  return Array.isArray(offer) && offer.indexOf(E2E_SCHEME) !== -1;
+}
+
+async function deriveDirectionKey(ikm: CryptoKey, info: string): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: stringToBytes(info),
+    },
+    ikm,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+async function deriveKeys(
+  sessionSecretHex: string,
+  sendInfo: string,
+  recvInfo: string,
+): Promise<E2EKeys> {
+  const ikm = await crypto.subtle.importKey(
+    'raw',
+    hexToBytes(sessionSecretHex),
+    'HKDF',
+    false,
+    ['deriveKey'],
+  );
+  const [sendKey, recvKey] = await Promise.all([
+    deriveDirectionKey(ikm, sendInfo),
+    deriveDirectionKey(ikm, recvInfo),
+  ]);
+  return { sendKey, recvKey };
+}
+
+/**
+ * Derive the desktop's send/receive keys from a hex session secret.
+ */
+export function deriveDesktopKeys(sessionSecretHex: string): Promise<E2EKeys> {
+  return deriveKeys(sessionSecretHex, KEY_INFO_DESKTOP_TO_CLIENT, KEY_INFO_CLIENT_TO_DESKTOP);
+}
+
+/**
+ * The phone's side of deriveDesktopKeys, used by the client SDK (src/client/).
+ */
+export function deriveClientKeys(sessionSecretHex: string): Promise<E2EKeys> {
+  return deriveKeys(sessionSecretHex, KEY_INFO_CLIENT_TO_DESKTOP, KEY_INFO_DESKTOP_TO_CLIENT);
+}
+
+function ivForSeq(seq: number): Uint8Array {
+  const iv = new Uint8Array(12);
+  const view = new DataView(iv.buffer);
+  view.setUint32(4, Math.floor(seq / 0x100000000));
+  view.setUint32(8, seq >>> 0);
+  return iv;
+}
+
+export async function sealFrame(
+  key: CryptoKey,
+  seq: number,
+  plaintext: string,
+): Promise<EncryptedFrame> {
+  const ct = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: ivForSeq(seq) },
+    key,
+    stringToBytes(plaintext),
+  );
+  return { t: 'enc', seq, ct: bytesToBase64(new Uint8Array(ct)) };
+}
+
+function checkSeq(seq: unknown, lastSeq: number): asserts seq is number {
+  if (typeof seq !== 'number' || !Number.isSafeInteger(seq) || seq <= 0) {
+    throw new Error('Encrypted frame has an invalid seq');
+  }
+  if (seq <= lastSeq) {
+    throw new Error(`Replayed or out-of-order encrypted frame (seq ${seq} <= ${lastSeq})`);
+  }
+}
+
+/**
+ * Decrypt an envelope. Throws when the frame is malformed, replayed
+ * (seq <= lastSeq) or fails authentication.
+ */
+export async function openFrame(
+  key: CryptoKey,
+  lastSeq: number,
+  frame: { seq?: unknown; ct?: unknown },
+): Promise<string> {
+  const { seq, ct } = frame;
+  checkSeq(seq, lastSeq);
+  if (typeof ct !== 'string' || !ct) {
+    throw new Error('Encrypted frame is missing ct');
+  }
+
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: ivForSeq(seq) },
+    key,
+    base64ToBytes(ct),
+  );
+  return new TextDecoder().decode(plain);
+}
+
+/**
+ * Decrypt a sealed binary frame (first byte 0xA2). Same checks as openFrame.
+ */
+export async function openBinaryFrame(
+  key: CryptoKey,
+  lastSeq: number,
+  bytes: Uint8Array,
+): Promise<{ seq: number; plaintext: Uint8Array }> {
+  if (bytes.length < 9) {
+    throw new Error('Encrypted binary frame is truncated');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const seq = view.getUint32(1) * 0x100000000 + view.getUint32(5);
+  checkSeq(seq, lastSeq);
+
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: ivForSeq(seq) },
+    key,
+    bytes.subarray(9),
+  );
+  return { seq, plaintext: new Uint8Array(plain) };
+}
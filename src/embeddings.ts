@@ -0,0 +1,84 @@
+// src/embeddings.ts
+// "embed" requests (renderer side).
+//
+// Phones send text and get back one vector per input, computed by the embedding
+// model chosen in Manage Models. That model runs on its own llama-server started
+// with --embedding (see ensureEmbeddingServer in src/llamaSetup.ts), so
+// embeddings neither wait behind chat prompts nor change the active model.
+// Requests go to llama-server's OpenAI-compatible /v1/embeddings endpoint.
+
+export const MAX_EMBED_INPUTS = 64;
+export const MAX_EMBED_INPUT_CHARS = 32 * 1024;
+const MAX_EMBED_TOTAL_CHARS = 256 * 1024;
+
+export type EmbeddingResult = {
+  embeddings: number[][];
+  dimensions: number;
+  promptTokens?: number;
+};
+
+/**
+ * Validate "input": one string or a non-empty array of strings. A single string
+ * is returned as a one-element array.
+ */
+export function normalizeEmbedInput(raw: unknown): { inputs: string[] } | { error: string } {
+  const inputs = typeof raw === 'string' ? [raw] : raw;
+  if (!Array.isArray(inputs) || !inputs.length) {
+    return { error: 'input must be a string or a non-empty array of strings' };
+  }
+  if (inputs.length > MAX_EMBED_INPUTS) {
+    return { error: `input has more than ${MAX_EMBED_INPUTS} entries` };
+  }
+  let total = 0;
+  for (const value of inputs) {
+    if (typeof value !== 'string' || !value.trim()) {
+      return { error: 'every input must be a non-empty string' };
+    }
+    if (value.length > MAX_EMBED_INPUT_CHARS) {
+      return { error: `inputs are limited to ${MAX_EMBED_INPUT_CHARS} characters` };
+    }
+    total += value.length;
+  }
+  if (total > MAX_EMBED_TOTAL_CHARS) {
+    return { error: `inputs are limited to ${MAX_EMBED_TOTAL_CHARS} characters in total` };
+  }
+  return { inputs: inputs as string[] };
+}
+
+/**
+ * Read a /v1/embeddings response, putting vectors back in input order. Throws
+ * when it does not hold one equally sized vector per input.
+ */
+export function parseEmbeddingResponse(body: any, inputCount: number): EmbeddingResult {
+  const data = Array.isArray(body?.data) ? body.data : null;
+  if (!data || data.length !== inputCount) {
+    throw new Error('Embedding server returned an unexpected number of vectors');
+  }
+
+  const embeddings: number[][] = new Array(inputCount);
+  data.forEach((item: any, position: number) => {
+    const index = typeof item?.index === 'number' ? item.index : position;
+    const vector = item?.embedding;
+    if (
+      !Array.isArray(vector) ||
+      index < 0 ||
+      index >= inputCount ||
+      vector.some((v: unknown) => typeof v !== 'number')
+    ) {
+      throw new Error('Embedding server returned a malformed vector');
+    }
+    embeddings[index] = vector;
+  });
+
+  const dimensions = embeddings[0]?.length || 0;
+  if (!dimensions || embeddings.some((v) => !v || v.length !== dimensions)) {
+    throw new Error('Embedding server returned vectors of different sizes');
+  }
+
+  const promptTokens = body?.usage?.prompt_tokens;
+  return {
+    embeddings,
+    dimensions,
+    ...(typeof promptTokens === 'number' ? { promptTokens } : {}),
+  };
+}
@@ -5,20 +5,47 @@ import {
   ensureLlamaServer,
   LlamaSetupProgress,
   stopLlamaServer,
+  ensureEmbeddingServer,
+  stopEmbeddingServer,
   getLlamaLogs,
   getLlamaServerStatus,
+  llamaServerHasProjector,
 } from './llamaSetup';
 import {
   listModels,
   getActiveModel,
   setActiveModel,
+  setEmbeddingModel,
+  setContextStrategy,
   updateModelParams,
+  resolveActiveSampling,
   searchHfGgufModels,
   downloadHfModel,
   listHfRepoGgufFiles,
+  modelSupportsVision,
   cancelDownload,
+  getModelDirFreeBytes,
   deleteModel,
 } from './modelManager';
+import {
+  listDevices,
+  getDevice,
+  approveDevice,
+  blockDevice,
+  renameDevice,
+  revokeDevice,
+  markDeviceSeen,
+  verifyDeviceProof,
+  setDeviceLimits,
+  setDevicePermissions,
+} from './deviceStore';
+import { getSettings, updateSettings } from './settingsStore';
+import {
+  checkDailyQuota,
+  getDeviceUsage,
+  recordUsage,
+} from './usageStore';
+import { appendCapture, deleteCapture, listCaptures, readCapture } from './trafficCapture';
 // This allows TypeScript to pick up the magic constants that's auto-generated by Forge's Webpack
 // plugin that tells the Electron app where to look for the Webpack-bundled app code (depending on
 // whether you're running in development or production).
@@ -126,8 +153,9 @@ app.on('before-quit', async (event) => {
     event.preventDefault();
     isQuitting = true;
 
-    logMain('App before-quit: stopping managed llama-server if running');
+    logMain('App before-quit: stopping managed llama-servers if running');
     stopLlamaServer();
+    stopEmbeddingServer();
     // Now actually quit
     app.quit();
   }
@@ -219,6 +247,21 @@ if (!ipcMain.listeners('llama-server-get-endpoint').length) {
   });
 }
 
+// Start / ensure the separate embeddings llama-server for the chosen embedding model.
+if (!ipcMain.listeners('llama-ensure-embedding-server').length) {
+  logMain('Registering IPC handler llama-ensure-embedding-server');
+  ipcMain.handle('llama-ensure-embedding-server', async () => {
+    logMain('IPC llama-ensure-embedding-server invoked');
+    const result = await ensureEmbeddingServer();
+    if (!result.ok) {
+      logMainError('llama-ensure-embedding-server failed', undefined, {
+        error: (result as { ok: false; error: string }).error,
+      });
+    }
+    return result;
+  });
+}
+
 // Status bar IPC handlers
 if (!ipcMain.listeners('llama-logs-get-history').length) {
   logMain('Registering IPC handler llama-logs-get-history');
@@ -248,7 +291,7 @@ if (!ipcMain.listeners('models-list').length) {
       return listModels();
     } catch (err) {
       logMainError('models-list failed', err as Error);
-      return { models: [], activeModelId: null };
+      return { models: [], activeModelId: null, embeddingModelId: null };
     }
   });
 }
@@ -258,10 +301,13 @@ if (!ipcMain.listeners('models-get-active').length) {
   ipcMain.handle('models-get-active', async () => {
     try {
       const model = getActiveModel();
-      return { model };
+      // A projector downloaded while the model is loaded only applies once the
+      // model is set active again.
+      const vision = modelSupportsVision(model) && llamaServerHasProjector(model.mmprojPath || null);
+      return { model, vision };
     } catch (err) {
       logMainError('models-get-active failed', err as Error);
-      return { model: null };
+      return { model: null, vision: false };
     }
   });
 }
@@ -277,6 +323,32 @@ if (!ipcMain.listeners('models-set-active').length) {
       // When active model changes, restart managed llama-server for the new model
       // via ensureLlamaServer; callers that need endpoint should call llama-ensure-server.
       stopLlamaServer();
+
+      // Let every window know, e.g. so connected peers hear about the switch.
+      const model = getActiveModel();
+      const change = {
+        activeModelId: result.activeModelId || null,
+        model,
+        vision: modelSupportsVision(model),
+      };
+      BrowserWindow.getAllWindows().forEach((window) => {
+        window.webContents.send('models-active-changed', change);
+      });
+    }
+    return result;
+  });
+}
+
+if (!ipcMain.listeners('models-set-embedding').length) {
+  logMain('Registering IPC handler models-set-embedding');
+  ipcMain.handle('models-set-embedding', async (_event, { id }) => {
+    logMain('IPC models-set-embedding invoked', { id });
+    const result = setEmbeddingModel(id ? String(id) : null);
+    if (!result.ok) {
+      logMainError('models-set-embedding error', undefined, { error: result.error });
+    } else {
+      // Started again with the new model on the next embedding request.
+      stopEmbeddingServer();
     }
     return result;
   });
@@ -299,6 +371,30 @@ if (!ipcMain.listeners('models-update-params').length) {
   );
 }
 
+if (!ipcMain.listeners('models-set-context-strategy').length) {
+  logMain('Registering IPC handler models-set-context-strategy');
+  ipcMain.handle('models-set-context-strategy', async (_event, { id, strategy }) => {
+    logMain('IPC models-set-context-strategy invoked', { id, strategy });
+    const result = setContextStrategy(String(id || ''), String(strategy || ''));
+    if (!result.ok) {
+      logMainError('models-set-context-strategy error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+if (!ipcMain.listeners('models-resolve-sampling').length) {
+  logMain('Registering IPC handler models-resolve-sampling');
+  ipcMain.handle('models-resolve-sampling', async (_event, { overrides }) => {
+    try {
+      return { ok: true, sampling: resolveActiveSampling(overrides || {}) };
+    } catch (err) {
+      logMainError('models-resolve-sampling failed', err as Error);
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
 if (!ipcMain.listeners('models-search-hf-gguf').length) {
   logMain('Registering IPC handler models-search-hf-gguf');
   ipcMain.handle('models-search-hf-gguf', async (_event, { query }) => {
@@ -344,6 +440,7 @@ if (!ipcMain.listeners('models-download-hf').length) {
       id,
       repoId: options?.repoId,
       fileName: options?.fileName,
+      mmprojFileName: options?.mmprojFileName,
     });
 
     const onProgress = (p: LlamaSetupProgress & { id: string }) => {
@@ -364,6 +461,9 @@ if (!ipcMain.listeners('models-download-hf').length) {
           typeof options?.contextWindow === 'number'
             ? options.contextWindow
             : undefined,
+        mmprojFileName: options?.mmprojFileName
+          ? String(options.mmprojFileName)
+          : undefined,
       },
       onProgress,
     );
@@ -384,6 +484,17 @@ if (!ipcMain.listeners('models-download-hf').length) {
   });
 }
 
+if (!ipcMain.listeners('models-get-free-disk-space').length) {
+  logMain('Registering IPC handler models-get-free-disk-space');
+  ipcMain.handle('models-get-free-disk-space', async () => {
+    const result = getModelDirFreeBytes();
+    if (!result.ok) {
+      logMainError('models-get-free-disk-space error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
 if (!ipcMain.listeners('models-cancel-download').length) {
   logMain('Registering IPC handler models-cancel-download');
   ipcMain.handle('models-cancel-download', async (_event, { id }) => {
@@ -412,6 +523,254 @@ if (!ipcMain.listeners('models-delete').length) {
   });
 }
 
+/**
+ * Trusted device IPC
+ * - Wraps src/deviceStore.ts for the renderer's P2P handler and Devices screen.
+ */
+
+if (!ipcMain.listeners('devices-list').length) {
+  logMain('Registering IPC handler devices-list');
+  ipcMain.handle('devices-list', async () => {
+    try {
+      return { ok: true, devices: listDevices() };
+    } catch (err) {
+      logMainError('devices-list failed', err as Error);
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
+if (!ipcMain.listeners('devices-get').length) {
+  logMain('Registering IPC handler devices-get');
+  ipcMain.handle('devices-get', async (_event, { id }) => {
+    try {
+      return { ok: true, device: getDevice(String(id || '')) };
+    } catch (err) {
+      logMainError('devices-get failed', err as Error);
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
+if (!ipcMain.listeners('devices-verify-proof').length) {
+  logMain('Registering IPC handler devices-verify-proof');
+  ipcMain.handle(
+    'devices-verify-proof',
+    async (_event, { id, binding, proof }) => {
+      const ok = verifyDeviceProof(String(id || ''), binding, proof);
+      if (!ok) {
+        return { ok: false };
+      }
+      markDeviceSeen(String(id));
+      return { ok: true };
+    },
+  );
+}
+
+if (!ipcMain.listeners('devices-approve').length) {
+  logMain('Registering IPC handler devices-approve');
+  ipcMain.handle('devices-approve', async (_event, { id, name }) => {
+    logMain('IPC devices-approve invoked', { id });
+    const result = approveDevice(String(id || ''), name);
+    if (!result.ok) {
+      logMainError('devices-approve error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+if (!ipcMain.listeners('devices-block').length) {
+  logMain('Registering IPC handler devices-block');
+  ipcMain.handle('devices-block', async (_event, { id, name }) => {
+    logMain('IPC devices-block invoked', { id });
+    const result = blockDevice(String(id || ''), name);
+    if (!result.ok) {
+      logMainError('devices-block error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+if (!ipcMain.listeners('devices-rename').length) {
+  logMain('Registering IPC handler devices-rename');
+  ipcMain.handle('devices-rename', async (_event, { id, name }) => {
+    logMain('IPC devices-rename invoked', { id });
+    const result = renameDevice(String(id || ''), String(name || ''));
+    if (!result.ok) {
+      logMainError('devices-rename error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+if (!ipcMain.listeners('devices-revoke').length) {
+  logMain('Registering IPC handler devices-revoke');
+  ipcMain.handle('devices-revoke', async (_event, { id }) => {
+    logMain('IPC devices-revoke invoked', { id });
+    const result = revokeDevice(String(id || ''));
+    if (!result.ok) {
+      logMainError('devices-revoke error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+if (!ipcMain.listeners('devices-set-limits').length) {
+  logMain('Registering IPC handler devices-set-limits');
+  ipcMain.handle('devices-set-limits', async (_event, { id, limits }) => {
+    logMain('IPC devices-set-limits invoked', { id, limits });
+    const result = setDeviceLimits(String(id || ''), limits || null);
+    if (!result.ok) {
+      logMainError('devices-set-limits error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+if (!ipcMain.listeners('devices-set-permissions').length) {
+  logMain('Registering IPC handler devices-set-permissions');
+  ipcMain.handle('devices-set-permissions', async (_event, { id, permissions }) => {
+    logMain('IPC devices-set-permissions invoked', { id, permissions });
+    const result = setDevicePermissions(String(id || ''), permissions || null);
+    if (!result.ok) {
+      logMainError('devices-set-permissions error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+/**
+ * Usage IPC
+ * - Wraps src/usageStore.ts: daily token budgets and per-device counters.
+ */
+
+if (!ipcMain.listeners('usage-check-quota').length) {
+  logMain('Registering IPC handler usage-check-quota');
+  ipcMain.handle('usage-check-quota', async (_event, { deviceId }) => {
+    try {
+      return { ok: true, ...checkDailyQuota(String(deviceId || '')) };
+    } catch (err) {
+      logMainError('usage-check-quota failed', err as Error);
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
+if (!ipcMain.listeners('usage-record').length) {
+  logMain('Registering IPC handler usage-record');
+  ipcMain.handle(
+    'usage-record',
+    async (_event, { deviceId, promptTokens, completionTokens }) => {
+      try {
+        const usage = recordUsage(String(deviceId || ''), {
+          promptTokens,
+          completionTokens,
+        });
+        return { ok: true, usage };
+      } catch (err) {
+        logMainError('usage-record failed', err as Error);
+        return { ok: false, error: (err as Error)?.message || String(err) };
+      }
+    },
+  );
+}
+
+if (!ipcMain.listeners('usage-get').length) {
+  logMain('Registering IPC handler usage-get');
+  ipcMain.handle('usage-get', async (_event, { deviceId }) => {
+    try {
+      return { ok: true, usage: getDeviceUsage(String(deviceId || '')) };
+    } catch (err) {
+      logMainError('usage-get failed', err as Error);
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
+/**
+ * Settings IPC
+ * - Wraps src/settingsStore.ts for the renderer's Settings screen.
+ */
+
+if (!ipcMain.listeners('settings-get').length) {
+  logMain('Registering IPC handler settings-get');
+  ipcMain.handle('settings-get', async () => {
+    try {
+      return { ok: true, settings: getSettings() };
+    } catch (err) {
+      logMainError('settings-get failed', err as Error);
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
+if (!ipcMain.listeners('settings-update').length) {
+  logMain('Registering IPC handler settings-update');
+  ipcMain.handle('settings-update', async (_event, { patch }) => {
+    logMain('IPC settings-update invoked', { patch });
+    const result = updateSettings(patch || {});
+    if (!result.ok) {
+      logMainError('settings-update error', undefined, { error: result.error });
+    }
+    return result;
+  });
+}
+
+/**
+ * Traffic capture IPC
+ * - Wraps src/trafficCapture.ts: the renderer's frame recorder and the
+ *   Traffic Inspector screen.
+ */
+
+if (!ipcMain.listeners('capture-append').length) {
+  logMain('Registering IPC handler capture-append');
+  // Fire-and-forget like renderer-log; frames arrive in batches.
+  ipcMain.on('capture-append', (_event, { entries }) => {
+    try {
+      appendCapture(entries);
+    } catch (err) {
+      logMainError('capture-append failed', err as Error);
+    }
+  });
+}
+
+if (!ipcMain.listeners('capture-list').length) {
+  logMain('Registering IPC handler capture-list');
+  ipcMain.handle('capture-list', async () => {
+    try {
+      return { ok: true, captures: listCaptures() };
+    } catch (err) {
+      logMainError('capture-list failed', err as Error);
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
+if (!ipcMain.listeners('capture-read').length) {
+  logMain('Registering IPC handler capture-read');
+  ipcMain.handle('capture-read', async (_event, { name }) => {
+    try {
+      return { ok: true, text: readCapture(String(name || '')) };
+    } catch (err) {
+      logMainError('capture-read failed', err as Error, { name });
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
+if (!ipcMain.listeners('capture-delete').length) {
+  logMain('Registering IPC handler capture-delete');
+  ipcMain.handle('capture-delete', async (_event, { name }) => {
+    try {
+      deleteCapture(String(name || ''));
+      return { ok: true };
+    } catch (err) {
+      logMainError('capture-delete failed', err as Error, { name });
+      return { ok: false, error: (err as Error)?.message || String(err) };
+    }
+  });
+}
+
 /**
  * Renderer logging IPC
  * - Forward renderer logs to main process console
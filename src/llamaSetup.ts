@@ -11,7 +11,8 @@ import { app } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as https from 'https';
-import { getActiveModel } from './modelManager';
+import { getActiveModel, getEmbeddingModel } from './modelManager';
+import { getSettings } from './settingsStore';
 
 const LOG_PREFIX = '[LlamaSetup]';
 
@@ -108,7 +109,21 @@ export function getLlamaLogs(): Array<{
 let llamaServerProcess: import('child_process').ChildProcessWithoutNullStreams | null = null;
 let llamaServerPort: number | null = null;
 let llamaServerCurrentModelPath: string | null = null;
+let llamaServerCurrentMmprojPath: string | null = null;
 let llamaServerStartTime: number | null = null;
+// --parallel value of the running server; sessions pin themselves to one slot.
+let llamaServerSlots: number | null = null;
+
+// Embedding requests run on a second llama-server started with --embedding, so
+// they never wait behind (or unload) the chat model.
+let embeddingServerProcess: import('child_process').ChildProcessWithoutNullStreams | null = null;
+let embeddingServerPort: number | null = null;
+let embeddingServerModelPath: string | null = null;
+let embeddingServerStarting: Promise<EmbeddingServerResult> | null = null;
+
+export type EmbeddingServerResult =
+  | { ok: true; endpoint: string; modelId: string; contextWindow: number }
+  | { ok: false; error: string };
 
 type Platform = 'windows' | 'linux' | 'macos';
 type Arch = 'x64' | 'arm64';
@@ -765,7 +780,8 @@ async function pickAvailablePort(): Promise<number> {
 async function spawnLlamaServer(
   binaryPath: string,
   modelPath: string,
-  contextWindow: number = 8192
+  contextWindow: number = 8192,
+  mmprojPath: string | null = null
 ): Promise<{ port: number }> {
   if (llamaServerProcess) {
     // If already running, reuse existing port if known.
@@ -788,6 +804,7 @@ async function spawnLlamaServer(
 
   const port = await pickAvailablePort();
 
+  const slots = getSettings().maxConcurrentPrompts;
   const args = [
     '--host',
     'localhost',
@@ -797,9 +814,17 @@ async function spawnLlamaServer(
     modelPath,
     '--ctx-size',
     String(contextWindow),
+    // One slot per prompt the desktop scheduler lets through at once.
     '--parallel',
-    '4',
+    String(slots),
+    // Jinja chat templates render tool definitions for tool calling. Always on,
+    // so a prompt with tools never forces a restart mid-generation.
+    '--jinja',
   ];
+  // Vision models need their projector to accept image content parts.
+  if (mmprojPath) {
+    args.push('--mmproj', mmprojPath);
+  }
 
   // eslint-disable-next-line @typescript-eslint/no-var-requires
   const spawn = require('child_process').spawn;
@@ -815,6 +840,7 @@ async function spawnLlamaServer(
   llamaServerProcess = proc;
   llamaServerPort = port;
   llamaServerStartTime = Date.now();
+  llamaServerSlots = slots;
 
   proc.stdout?.on('data', (data: Buffer) => {
     const text = data.toString();
@@ -830,7 +856,7 @@ async function spawnLlamaServer(
       // Port conflict: attempt to restart on a new port.
       (async () => {
         try {
-          await restartLlamaServerOnNewPort(binaryPath, modelPath);
+          await restartLlamaServerOnNewPort(binaryPath, modelPath, contextWindow, mmprojPath);
         } catch {
           // If restart fails, leave process cleanup to exit handler.
         }
@@ -850,7 +876,8 @@ async function spawnLlamaServer(
 async function restartLlamaServerOnNewPort(
   binaryPath: string,
   modelPath: string,
-  contextWindow: number = 8192
+  contextWindow: number = 8192,
+  mmprojPath: string | null = null
 ): Promise<{ port: number }> {
   if (llamaServerProcess) {
     try {
@@ -862,7 +889,7 @@ async function restartLlamaServerOnNewPort(
     llamaServerPort = null;
   }
 
-  return spawnLlamaServer(binaryPath, modelPath, contextWindow);
+  return spawnLlamaServer(binaryPath, modelPath, contextWindow, mmprojPath);
 }
 
 /**
@@ -885,20 +912,23 @@ async function restartLlamaServerOnNewPort(
  */
 export async function ensureLlamaServer(
   onProgress?: (p: LlamaSetupProgress) => void,
-): Promise<{ ok: true; endpoint: string } | { ok: false; error: string }> {
+): Promise<{ ok: true; endpoint: string; slots: number } | { ok: false; error: string }> {
   logDebug('ensureLlamaServer invoked');
 
   // Determine which model should be running
   let modelPath: string;
   let contextWindow: number = 8192; // default
+  let mmprojPath: string | null = null;
   const activeModel = getActiveModel();
   if (activeModel && activeModel.installed && activeModel.filePath) {
     modelPath = activeModel.filePath;
     contextWindow = activeModel.currentParams.contextWindow || 8192;
+    mmprojPath = activeModel.mmprojPath || null;
     logDebug('ensureLlamaServer: active model from model manager', {
       modelId: activeModel.id,
       modelPath,
       contextWindow,
+      mmprojPath,
     });
   } else {
     // Fall back to default Qwen3 model
@@ -909,6 +939,20 @@ export async function ensureLlamaServer(
     });
   }
 
+  // A vision projector added or removed for the running model is not picked up
+  // here: restarting would cut off prompts being generated. It loads the next
+  // time the model is set active (see models-set-active in src/index.ts).
+  if (
+    llamaServerProcess &&
+    llamaServerCurrentModelPath === modelPath &&
+    llamaServerCurrentMmprojPath !== mmprojPath
+  ) {
+    logDebug('ensureLlamaServer: vision projector changed; applies on next model load', {
+      loadedMmproj: llamaServerCurrentMmprojPath,
+      newMmproj: mmprojPath,
+    });
+  }
+
   // Check if server is running with the correct model
   if (llamaServerProcess && llamaServerPort && llamaServerCurrentModelPath === modelPath) {
     const endpoint = `http://localhost:${llamaServerPort}`;
@@ -916,7 +960,7 @@ export async function ensureLlamaServer(
       endpoint,
       modelPath,
     });
-    return { ok: true, endpoint };
+    return { ok: true, endpoint, slots: llamaServerSlots || 1 };
   }
 
   // If server is running but with wrong model, stop it
@@ -940,8 +984,14 @@ export async function ensureLlamaServer(
 
   // Spawn llama-server with the active model
   try {
-    const { port } = await spawnLlamaServer(install.binaryPath, modelPath, contextWindow);
+    const { port } = await spawnLlamaServer(
+      install.binaryPath,
+      modelPath,
+      contextWindow,
+      mmprojPath,
+    );
     llamaServerCurrentModelPath = modelPath;
+    llamaServerCurrentMmprojPath = mmprojPath;
     const endpoint = `http://localhost:${port}`;
     const modelName = activeModel?.displayName || 'Qwen3-4B-Q4_K_M.gguf';
     logDebug('ensureLlamaServer: started new managed llama-server', {
@@ -954,7 +1004,7 @@ export async function ensureLlamaServer(
       type: 'status',
       message: `llama-server running at ${endpoint} with ${modelName}`,
     });
-    return { ok: true, endpoint };
+    return { ok: true, endpoint, slots: llamaServerSlots || 1 };
   } catch (err: any) {
     const msg = err?.message || String(err);
     logError('ensureLlamaServer: failed to start llama-server', err, {
@@ -969,6 +1019,15 @@ export async function ensureLlamaServer(
   }
 }
 
+/**
+ * True unless llama-server is running without this vision projector, i.e. a
+ * prompt with images can be served once the server is ensured.
+ */
+export function llamaServerHasProjector(mmprojPath: string | null): boolean {
+  if (!llamaServerProcess) return true;
+  return !!mmprojPath && llamaServerCurrentMmprojPath === mmprojPath;
+}
+
 /**
  * Stop the managed llama-server process if it is running.
  * This is idempotent and safe to call multiple times.
@@ -988,7 +1047,144 @@ export function stopLlamaServer(): void {
     llamaServerProcess = null;
     llamaServerPort = null;
     llamaServerCurrentModelPath = null;
+    llamaServerCurrentMmprojPath = null;
     llamaServerStartTime = null;
+    llamaServerSlots = null;
+  }
+}
+
+/**
+ * Ensure the embeddings llama-server is running with the chosen embedding
+ * model, restarting it when the choice changed. Concurrent callers share one
+ * startup.
+ */
+export async function ensureEmbeddingServer(): Promise<EmbeddingServerResult> {
+  if (embeddingServerStarting) {
+    return embeddingServerStarting;
+  }
+  embeddingServerStarting = startEmbeddingServer();
+  try {
+    return await embeddingServerStarting;
+  } finally {
+    embeddingServerStarting = null;
+  }
+}
+
+async function startEmbeddingServer(): Promise<EmbeddingServerResult> {
+  const model = getEmbeddingModel();
+  if (!model || !model.installed || !model.filePath) {
+    if (embeddingServerProcess) {
+      stopEmbeddingServer();
+    }
+    return { ok: false, error: 'No embedding model is selected on this desktop' };
+  }
+  const contextWindow = model.currentParams.contextWindow || 8192;
+
+  if (embeddingServerProcess && embeddingServerPort && embeddingServerModelPath === model.filePath) {
+    return {
+      ok: true,
+      endpoint: `http://localhost:${embeddingServerPort}`,
+      modelId: model.id,
+      contextWindow,
+    };
+  }
+  if (embeddingServerProcess) {
+    logDebug('ensureEmbeddingServer: embedding model changed, restarting server', {
+      oldModel: embeddingServerModelPath,
+      newModel: model.filePath,
+    });
+    stopEmbeddingServer();
+  }
+
+  const install = await ensureLlamaBinary();
+  if (!install.installed || !install.binaryPath) {
+    const error = install.error || 'llama.cpp not installed';
+    logError('ensureEmbeddingServer: cannot start server, llama.cpp not installed', error);
+    return { ok: false, error };
+  }
+
+  try {
+    const port = await pickAvailablePort();
+    const args = [
+      '--host',
+      'localhost',
+      '--port',
+      String(port),
+      '--model',
+      model.filePath,
+      '--embedding',
+      '--ctx-size',
+      String(contextWindow),
+      // Each input is embedded in a single batch, so batches must hold a whole
+      // context window rather than llama-server's 512-token default.
+      '--batch-size',
+      String(contextWindow),
+      '--ubatch-size',
+      String(contextWindow),
+    ];
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const spawn = require('child_process').spawn;
+    logDebug('Spawning embeddings llama-server process', {
+      binaryPath: install.binaryPath,
+      args,
+    });
+    const proc = spawn(install.binaryPath, args, {
+      cwd: INSTALL_ROOT,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    embeddingServerProcess = proc;
+    embeddingServerPort = port;
+    embeddingServerModelPath = model.filePath;
+
+    // Kept out of the status bar log buffer, which tracks the chat server.
+    proc.stdout?.on('data', (data: Buffer) => {
+      logDebug('embeddings llama-server stdout', { line: data.toString().trim() });
+    });
+    proc.stderr?.on('data', (data: Buffer) => {
+      logDebug('embeddings llama-server stderr', { line: data.toString().trim() });
+    });
+    proc.on('exit', (code: number | null, signal: NodeJS.Signals | null) => {
+      logDebug('embeddings llama-server process exited', { code, signal });
+      if (embeddingServerProcess === proc) {
+        embeddingServerProcess = null;
+        embeddingServerPort = null;
+        embeddingServerModelPath = null;
+      }
+    });
+
+    const endpoint = `http://localhost:${port}`;
+    logDebug('ensureEmbeddingServer: started embeddings llama-server', {
+      endpoint,
+      modelId: model.id,
+      contextWindow,
+    });
+    return { ok: true, endpoint, modelId: model.id, contextWindow };
+  } catch (err: any) {
+    logError('ensureEmbeddingServer: failed to start embeddings llama-server', err, {
+      modelPath: model.filePath,
+    });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+/**
+ * Stop the embeddings llama-server if it is running. Idempotent.
+ */
+export function stopEmbeddingServer(): void {
+  if (!embeddingServerProcess) {
+    return;
+  }
+
+  try {
+    logDebug('Stopping embeddings llama-server process');
+    embeddingServerProcess.kill();
+  } catch (error) {
+    logError('Error while stopping embeddings llama-server process', error);
+  } finally {
+    embeddingServerProcess = null;
+    embeddingServerPort = null;
+    embeddingServerModelPath = null;
   }
 }
 
@@ -13,6 +13,8 @@ import * as path from 'path';
 import * as https from 'https';
 import type { ClientRequest } from 'http';
 import { MODEL_DIR, MODELS_STATE_FILE, LlamaSetupProgress } from './llamaSetup';
+import { CONTEXT_STRATEGIES } from './contextManager';
+import type { ContextStrategy } from './contextManager';
 
 const LOG_PREFIX = '[ModelManager]';
 
@@ -63,6 +65,10 @@ export type ManagedModel = {
   filePath: string;
   sizeBytes?: number;
 
+  // Companion multimodal projector for vision models (llama-server --mmproj).
+  mmprojFileName?: string;
+  mmprojPath?: string;
+
   quantization?: string;
   contextWindow?: number;
   description?: string;
@@ -71,6 +77,10 @@ export type ManagedModel = {
 
   currentParams: ModelRuntimeParams;
 
+  // What to do with chats longer than the context window (see
+  // src/contextManager.ts); unset means drop_oldest.
+  contextStrategy?: ContextStrategy;
+
   installed: boolean;
   downloadedBytes?: number;
   checksum?: string;
@@ -84,6 +94,9 @@ export type ModelsState = {
   models: ManagedModel[];
   activeModelId: string | null;
   lastUsedModelId?: string | null;
+  // Model served by the separate embeddings llama-server (--embedding). Unlike
+  // the active model there is no fallback: embeddings stay off until one is chosen.
+  embeddingModelId?: string | null;
 };
 
 const STATE_VERSION = 1;
@@ -165,6 +178,91 @@ function normalizeParams(params: Partial<ModelRuntimeParams> | undefined): Model
   };
 }
 
+// Per-request sampling overrides sent by remote peers on a "prompt" message.
+// Field names follow the llama-server / OpenAI request body.
+export type SamplingOverrides = {
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  max_tokens?: number;
+  stop?: string | string[];
+  seed?: number;
+  repeat_penalty?: number;
+  min_p?: number;
+};
+
+// Sampling fields ready to be merged into a llama-server chat completion body.
+export type ResolvedSampling = {
+  temperature: number;
+  top_p: number;
+  top_k: number;
+  max_tokens: number;
+  stop?: string[];
+  seed?: number;
+  repeat_penalty?: number;
+  min_p?: number;
+};
+
+const MAX_STOP_SEQUENCES = 4;
+const MAX_STOP_SEQUENCE_LENGTH = 64;
+
+function finiteNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Combine a model's runtime params with per-request overrides.
+ * Overrides are clamped with the same ranges as normalizeParams; malformed
+ * values are dropped so the model's configured value wins.
+ */
+export function resolveSamplingParams(
+  params: ModelRuntimeParams,
+  overrides: SamplingOverrides | undefined,
+): ResolvedSampling {
+  const o = overrides || {};
+  const merged = normalizeParams({
+    ...params,
+    temperature: finiteNumber(o.temperature) ?? params.temperature,
+    topP: finiteNumber(o.top_p) ?? params.topP,
+    topK: finiteNumber(o.top_k) ?? params.topK,
+    maxTokens: finiteNumber(o.max_tokens) ?? params.maxTokens,
+  });
+
+  const resolved: ResolvedSampling = {
+    temperature: merged.temperature,
+    top_p: merged.topP,
+    top_k: Math.round(merged.topK),
+    max_tokens: Math.round(merged.maxTokens),
+  };
+
+  const rawStop = typeof o.stop === 'string' ? [o.stop] : o.stop;
+  if (Array.isArray(rawStop)) {
+    const stop = rawStop
+      .filter((s): s is string => typeof s === 'string' && s.length > 0)
+      .map((s) => s.slice(0, MAX_STOP_SEQUENCE_LENGTH))
+      .slice(0, MAX_STOP_SEQUENCES);
+    if (stop.length) resolved.stop = stop;
+  }
+
+  const seed = finiteNumber(o.seed);
+  if (seed !== undefined) {
+    // -1 asks llama-server for a random seed.
+    resolved.seed = Math.round(clamp(seed, -1, 0xffffffff));
+  }
+
+  const repeatPenalty = finiteNumber(o.repeat_penalty);
+  if (repeatPenalty !== undefined) {
+    resolved.repeat_penalty = clamp(repeatPenalty, 0, 2);
+  }
+
+  const minP = finiteNumber(o.min_p);
+  if (minP !== undefined) {
+    resolved.min_p = clamp(minP, 0, 1);
+  }
+
+  return resolved;
+}
+
 // Core state access
 
 let cachedState: ModelsState | null = null;
@@ -185,6 +283,7 @@ function loadStateFromDisk(): ModelsState | null {
     })),
     activeModelId: existing.activeModelId ?? null,
     lastUsedModelId: existing.lastUsedModelId ?? null,
+    embeddingModelId: existing.embeddingModelId ?? null,
   };
 
   return norm;
@@ -268,9 +367,18 @@ function ensureState(): ModelsState {
           filePath: m.filePath,
         });
       }
+      const mmprojPath =
+        m.mmprojPath && fs.existsSync(m.mmprojPath) ? m.mmprojPath : undefined;
+      if (m.mmprojPath && !mmprojPath) {
+        logInfo('Vision projector file missing; disabling vision', {
+          id: m.id,
+          mmprojPath: m.mmprojPath,
+        });
+      }
       return {
         ...m,
         installed,
+        mmprojPath,
         currentParams: normalizeParams(m.currentParams),
       };
     });
@@ -290,11 +398,18 @@ function ensureState(): ModelsState {
       activeModelId = firstInstalled ? firstInstalled.id : null;
     }
 
+    const embeddingModelId = models.some(
+      (m) => m.id === disk.embeddingModelId && m.installed,
+    )
+      ? disk.embeddingModelId
+      : null;
+
     const normalized: ModelsState = {
       version: STATE_VERSION,
       models,
       activeModelId,
       lastUsedModelId: disk.lastUsedModelId ?? activeModelId,
+      embeddingModelId,
     };
 
     cachedState = normalized;
@@ -311,11 +426,16 @@ export function getModelsState(): ModelsState {
   return ensureState();
 }
 
-export function listModels(): { models: ManagedModel[]; activeModelId: string | null } {
+export function listModels(): {
+  models: ManagedModel[];
+  activeModelId: string | null;
+  embeddingModelId: string | null;
+} {
   const state = ensureState();
   return {
     models: state.models,
     activeModelId: state.activeModelId,
+    embeddingModelId: state.embeddingModelId ?? null,
   };
 }
 
@@ -325,6 +445,31 @@ export function getActiveModel(): ManagedModel | null {
   return state.models.find((m) => m.id === state.activeModelId) || null;
 }
 
+export function getEmbeddingModel(): ManagedModel | null {
+  const state = ensureState();
+  if (!state.embeddingModelId) return null;
+  return state.models.find((m) => m.id === state.embeddingModelId) || null;
+}
+
+/**
+ * True when the model has a downloaded vision projector, so llama-server can
+ * accept image content parts for it.
+ */
+export function modelSupportsVision(model: ManagedModel | null): boolean {
+  return !!model?.mmprojPath;
+}
+
+/**
+ * Resolve the sampling fields for a remote prompt against the active model.
+ * Falls back to DEFAULT_PARAMS when no model is active yet.
+ */
+export function resolveActiveSampling(
+  overrides: SamplingOverrides | undefined,
+): ResolvedSampling {
+  const active = getActiveModel();
+  return resolveSamplingParams(active?.currentParams ?? DEFAULT_PARAMS, overrides);
+}
+
 function updateState(mutator: (state: ModelsState) => void): ModelsState {
   const state = ensureState();
   mutator(state);
@@ -340,6 +485,13 @@ function updateState(mutator: (state: ModelsState) => void): ModelsState {
     }
   }
 
+  if (
+    state.embeddingModelId &&
+    !state.models.some((m) => m.id === state.embeddingModelId && m.installed)
+  ) {
+    state.embeddingModelId = null;
+  }
+
   persistState(state);
   return state;
 }
@@ -366,6 +518,64 @@ export function setActiveModel(id: string): { ok: boolean; activeModelId?: strin
   }
 }
 
+/**
+ * Choose the model for embedding requests, or turn embeddings off with null.
+ * Any installed GGUF can be chosen; dedicated embedding models (e.g.
+ * nomic-embed-text, bge) give far better vectors than chat models.
+ */
+export function setEmbeddingModel(
+  id: string | null,
+): { ok: boolean; embeddingModelId?: string | null; error?: string } {
+  try {
+    const state = updateState((s) => {
+      if (id !== null) {
+        const model = s.models.find((m) => m.id === id);
+        if (!model) {
+          throw new Error(`Model not found: ${id}`);
+        }
+        if (!model.installed) {
+          throw new Error(`Model not installed: ${id}`);
+        }
+      }
+      s.embeddingModelId = id;
+    });
+
+    logInfo('Embedding model updated', { embeddingModelId: state.embeddingModelId });
+    return { ok: true, embeddingModelId: state.embeddingModelId ?? null };
+  } catch (err: any) {
+    logError('setEmbeddingModel failed', err, { id });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
+export function setContextStrategy(
+  id: string,
+  strategy: string,
+): { ok: boolean; model?: ManagedModel; error?: string } {
+  try {
+    if (CONTEXT_STRATEGIES.indexOf(strategy as ContextStrategy) === -1) {
+      throw new Error(`Unknown context strategy: ${strategy}`);
+    }
+    let updatedModel: ManagedModel | undefined;
+
+    updateState((s) => {
+      const model = s.models.find((m) => m.id === id);
+      if (!model) {
+        throw new Error(`Model not found: ${id}`);
+      }
+      model.contextStrategy = strategy as ContextStrategy;
+      model.updatedAt = new Date().toISOString();
+      updatedModel = model;
+    });
+
+    logInfo('Model context strategy updated', { id, strategy });
+    return { ok: true, model: updatedModel };
+  } catch (err: any) {
+    logError('setContextStrategy failed', err, { id, strategy });
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
 export function updateModelParams(
   id: string,
   params: Partial<ModelRuntimeParams>,
@@ -717,10 +927,13 @@ export async function downloadHfModel(
     displayName?: string;
     quantization?: string;
     contextWindow?: number;
+    // Vision projector from the same repo, downloaded after the model.
+    mmprojFileName?: string;
   },
   onProgress?: (p: LlamaSetupProgress & { id: string }) => void,
 ): Promise<{ ok: boolean; model?: ManagedModel; error?: string }> {
-  const { repoId, fileName, displayName, quantization, contextWindow } = options;
+  const { repoId, fileName, displayName, quantization, contextWindow, mmprojFileName } =
+    options;
 
   try {
     if (!repoId || !fileName) {
@@ -736,10 +949,17 @@ export async function downloadHfModel(
     const encodedRepoPath = owner && repo
       ? `${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
       : encodeURIComponent(repoId); // fallback for malformed repoId
-    const url = `https://huggingface.co/${encodedRepoPath}/resolve/main/${encodeURIComponent(fileName)}?download=true`;
+    const fileUrl = (name: string) =>
+      `https://huggingface.co/${encodedRepoPath}/resolve/main/${encodeURIComponent(name)}?download=true`;
+    const url = fileUrl(fileName);
 
     const destPath = path.join(MODEL_DIR, fileName);
     const tmpPath = destPath + '.download';
+    // Projectors often share generic names (mmproj-f16.gguf) across repos, so
+    // name the local copy after the model file.
+    const mmprojDestPath = mmprojFileName
+      ? path.join(MODEL_DIR, `${path.basename(fileName, '.gguf')}.mmproj.gguf`)
+      : undefined;
 
     logInfo('Starting HF model download', { id, url, destPath });
 
@@ -784,16 +1004,44 @@ export async function downloadHfModel(
       throw err;
     }
 
+    // Move into place
+    fs.renameSync(tmpPath, destPath);
+    const stat = fs.statSync(destPath);
+
+    if (mmprojFileName && mmprojDestPath) {
+      const mmprojTmpPath = mmprojDestPath + '.download';
+      logInfo('Downloading vision projector', { id, mmprojFileName, mmprojDestPath });
+      onProgress?.({
+        id,
+        type: 'status',
+        message: `Downloading vision projector ${mmprojFileName}...`,
+      });
+      activeDownloads.set(id, { request: null, aborted: false });
+      try {
+        await downloadFile(fileUrl(mmprojFileName), mmprojTmpPath, id, (received, total) => {
+          onProgress?.({
+            id,
+            type: 'download-progress',
+            receivedBytes: received,
+            totalBytes: total,
+          });
+        });
+      } catch (err: any) {
+        activeDownloads.delete(id);
+        if (fs.existsSync(mmprojTmpPath)) {
+          fs.unlinkSync(mmprojTmpPath);
+        }
+        throw err;
+      }
+      fs.renameSync(mmprojTmpPath, mmprojDestPath);
+    }
+
     onProgress?.({
       id,
       type: 'download-complete',
-      filePath: tmpPath,
+      filePath: destPath,
     });
 
-    // Move into place
-    fs.renameSync(tmpPath, destPath);
-    const stat = fs.statSync(destPath);
-
     const now = new Date().toISOString();
     let createdOrUpdated: ManagedModel | undefined;
 
@@ -814,6 +1062,10 @@ export async function downloadHfModel(
             : existing.contextWindow;
         existing.installed = true;
         existing.downloadedBytes = stat.size;
+        if (mmprojFileName) {
+          existing.mmprojFileName = mmprojFileName;
+          existing.mmprojPath = mmprojDestPath;
+        }
         existing.currentParams = normalizeParams(existing.currentParams);
         existing.updatedAt = now;
         createdOrUpdated = existing;
@@ -827,6 +1079,8 @@ export async function downloadHfModel(
           fileName,
           filePath: destPath,
           sizeBytes: stat.size,
+          mmprojFileName,
+          mmprojPath: mmprojDestPath,
           quantization,
           contextWindow,
           description: undefined,
@@ -872,6 +1126,28 @@ export async function downloadHfModel(
   }
 }
 
+/**
+ * Free bytes on the volume holding MODEL_DIR, or null when it cannot be read.
+ */
+export function getModelDirFreeBytes(): { ok: boolean; freeBytes?: number | null; error?: string } {
+  try {
+    // fs.statfsSync (Node 18.15+) ships with Electron's Node but is missing
+    // from the @types/node this project compiles against.
+    const statfsSync = (
+      fs as unknown as { statfsSync?: (dir: string) => { bavail: number; bsize: number } }
+    ).statfsSync;
+    if (!statfsSync) {
+      return { ok: true, freeBytes: null };
+    }
+    ensureDirSync(MODEL_DIR);
+    const stats = statfsSync(MODEL_DIR);
+    return { ok: true, freeBytes: stats.bavail * stats.bsize };
+  } catch (err: any) {
+    logError('getModelDirFreeBytes failed', err);
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
+
 /**
  * Cancel an ongoing model download
  */
@@ -913,6 +1189,7 @@ export function deleteModel(id: string): { ok: boolean; error?: string } {
     logInfo('Deleting model', { id });
     
     let deletedFilePath: string | null = null;
+    let deletedMmprojPath: string | null = null;
     
     const state = updateState((s) => {
       const index = s.models.findIndex((m) => m.id === id);
@@ -929,6 +1206,7 @@ export function deleteModel(id: string): { ok: boolean; error?: string } {
       
       // Store file path for deletion
       deletedFilePath = model.filePath;
+      deletedMmprojPath = model.mmprojPath || null;
       
       // Remove from models array
       s.models.splice(index, 1);
@@ -944,6 +1222,10 @@ export function deleteModel(id: string): { ok: boolean; error?: string } {
       fs.unlinkSync(deletedFilePath);
       logInfo('Model file deleted from disk', { filePath: deletedFilePath });
     }
+    if (deletedMmprojPath && fs.existsSync(deletedMmprojPath)) {
+      fs.unlinkSync(deletedMmprojPath);
+      logInfo('Vision projector deleted from disk', { mmprojPath: deletedMmprojPath });
+    }
     
     logInfo('Model deleted successfully', { id, modelCount: state.models.length });
     return { ok: true };
@@ -12,8 +12,25 @@ import type {
   WorkerPackage,
   WorkerResponse,
   PeerData,
+  WebRTCImplementation,
 } from './types';
 import { generateSessionId, generateUUID } from './utils';
+import {
+  CAPABILITIES_FRAME_MAGIC,
+  CHUNK_FRAME_MAGIC,
+  DEFAULT_MAX_CHUNK_SIZE,
+  DEFAULT_MAX_MESSAGE_SIZE,
+  DEFAULT_MAX_PARTIAL_MESSAGES,
+  DEFAULT_MAX_REASSEMBLY_BYTES,
+  DEFAULT_REASSEMBLY_TIMEOUT,
+  FrameReassembler,
+  MIN_CHUNK_SIZE,
+  decodeCapabilities,
+  encodeCapabilities,
+  needsChunking,
+  splitIntoChunks,
+} from './framing';
+import type { ReassemblyLimits } from './framing';
 import { P2PCFStorage } from './storage';
 
 // Platform detection and WebRTC imports
@@ -21,22 +38,23 @@ const isReactNative =
   typeof navigator !== 'undefined' &&
   (navigator as any)?.product === 'ReactNative';
 
-let RTCPeerConnection: any;
-let RTCIceCandidate: any;
-let RTCSessionDescription: any;
+// Platform WebRTC; null under Node, where options.webrtc must be passed
+let platformWebRTC: WebRTCImplementation | null = null;
 
 if (isReactNative) {
   const RNWebRTC = require('react-native-webrtc');
-  RTCPeerConnection = RNWebRTC.RTCPeerConnection;
-  RTCIceCandidate = RNWebRTC.RTCIceCandidate;
-  RTCSessionDescription = RNWebRTC.RTCSessionDescription;
-} else {
-  // @ts-ignore - Web environment
-  RTCPeerConnection = window.RTCPeerConnection;
-  // @ts-ignore
-  RTCIceCandidate = window.RTCIceCandidate;
-  // @ts-ignore
-  RTCSessionDescription = window.RTCSessionDescription;
+  platformWebRTC = {
+    RTCPeerConnection: RNWebRTC.RTCPeerConnection,
+    RTCIceCandidate: RNWebRTC.RTCIceCandidate,
+    RTCSessionDescription: RNWebRTC.RTCSessionDescription,
+  };
+} else if (typeof window !== 'undefined' && (window as any).RTCPeerConnection) {
+  // Web environment
+  platformWebRTC = {
+    RTCPeerConnection: (window as any).RTCPeerConnection,
+    RTCIceCandidate: (window as any).RTCIceCandidate,
+    RTCSessionDescription: (window as any).RTCSessionDescription,
+  };
 }
 
 /**
@@ -83,6 +101,10 @@ export class P2PCF extends EventEmitter {
   private _stunIceServers: any[];
   private _turnIceServers: any[];
   private _pollingInterval: number;
+  private _maxChunkSize: number;
+  private _maxMessageSize: number;
+  private _reassemblyLimits: ReassemblyLimits;
+  private _webrtc: WebRTCImplementation;
 
   // Session identifiers
   private _sessionId: string;
@@ -102,6 +124,11 @@ export class P2PCF extends EventEmitter {
   private _desktopPeer: Peer | null = null; // For mobile: track desktop
   private _peerSymmetricStatus: Map<string, boolean> = new Map(); // sessionId -> isSymmetric
 
+  // Message framing (see ./framing.ts)
+  private _peerChunkSizes: Map<string, number> = new Map(); // sessionId -> peer's max chunk size
+  private _reassemblers: Map<string, FrameReassembler> = new Map(); // sessionId -> partial messages
+  private _nextMessageId = 0;
+
   // Signaling state
   private _pollingTimer: any = null;
   private _isPolling: boolean = false;
@@ -124,6 +151,14 @@ export class P2PCF extends EventEmitter {
     this._isDesktop = options.isDesktop;
     this._workerUrl = options.workerUrl || '';
 
+    const webrtc = options.webrtc || platformWebRTC;
+    if (!webrtc) {
+      throw new Error(
+        '[P2PCF] No WebRTC implementation available; pass options.webrtc'
+      );
+    }
+    this._webrtc = webrtc;
+
     // Validate clientId follows desktop naming convention
     const hasDesktopInName = clientId.toLowerCase().includes('desktop');
     if (this._isDesktop && !hasDesktopInName) {
@@ -141,6 +176,19 @@ export class P2PCF extends EventEmitter {
     this._stunIceServers = options.stunIceServers || DEFAULT_STUN_ICE;
     this._turnIceServers = options.turnIceServers || DEFAULT_TURN_ICE;
     this._pollingInterval = options.pollingInterval || 3000;
+    this._maxChunkSize = Math.max(
+      MIN_CHUNK_SIZE,
+      options.maxChunkSize || DEFAULT_MAX_CHUNK_SIZE
+    );
+    this._maxMessageSize = options.maxMessageSize || DEFAULT_MAX_MESSAGE_SIZE;
+    this._reassemblyLimits = {
+      maxMessageSize: this._maxMessageSize,
+      reassemblyTimeout: options.reassemblyTimeout || DEFAULT_REASSEMBLY_TIMEOUT,
+      maxReassemblyBytes:
+        options.maxReassemblyBytes || DEFAULT_MAX_REASSEMBLY_BYTES,
+      maxPartialMessages:
+        options.maxPartialMessages || DEFAULT_MAX_PARTIAL_MESSAGES,
+    };
 
     this._sessionId = generateSessionId();
     // contextId will be loaded asynchronously in start() - use temporary value for now
@@ -197,20 +245,57 @@ export class P2PCF extends EventEmitter {
 
   /**
    * Send data to a specific peer
+   * Messages larger than the negotiated chunk size are split into chunks when
+   * the peer supports framing (see ./framing.ts).
    */
   send(peer: Peer, data: ArrayBuffer | string): void {
     const dataChannel = this._dataChannels.get(peer.id);
 
     if (!dataChannel || dataChannel.readyState !== 'open') {
       console.warn(`[P2PCF] Data channel not ready for peer ${peer.clientId}`);
+      this.emit(
+        'error',
+        new Error(`Data channel not ready for peer ${peer.clientId}; message dropped`)
+      );
       return;
     }
 
     try {
-      // Convert string to ArrayBuffer if needed
+      // Convert string to bytes if needed
       const buffer =
-        typeof data === 'string' ? new TextEncoder().encode(data) : data;
-      dataChannel.send(buffer);
+        typeof data === 'string'
+          ? new TextEncoder().encode(data)
+          : new Uint8Array(data);
+
+      if (buffer.length > this._maxMessageSize) {
+        throw new Error(
+          `Message of ${buffer.length} bytes exceeds maxMessageSize (${this._maxMessageSize})`
+        );
+      }
+
+      const peerChunkSize = this._peerChunkSizes.get(peer.id);
+      if (!peerChunkSize) {
+        // Peer without framing support: send whole, as SCTP allows.
+        const sctpMax = this._connections.get(peer.id)?.sctp?.maxMessageSize;
+        if (sctpMax && buffer.length > sctpMax) {
+          throw new Error(
+            `Message of ${buffer.length} bytes exceeds the data channel limit (${sctpMax}) and ${peer.clientId} does not support chunking`
+          );
+        }
+        dataChannel.send(buffer);
+        return;
+      }
+
+      const chunkSize = Math.min(peerChunkSize, this._maxChunkSize);
+      if (!needsChunking(buffer, chunkSize)) {
+        dataChannel.send(buffer);
+        return;
+      }
+
+      this._nextMessageId = (this._nextMessageId + 1) >>> 0;
+      for (const chunk of splitIntoChunks(this._nextMessageId, buffer, chunkSize)) {
+        dataChannel.send(chunk);
+      }
     } catch (error) {
       console.error(`[P2PCF] Failed to send to ${peer.clientId}:`, error);
       this.emit('error', error as Error);
@@ -257,6 +342,15 @@ export class P2PCF extends EventEmitter {
     return this._desktopPeer !== null;
   }
 
+  /**
+   * Close the connection to a single peer
+   * Emits 'peerclose' just like a remote disconnect
+   */
+  disconnect(peer: Peer): void {
+    console.log(`[P2PCF] Disconnecting peer ${peer.clientId}`);
+    this._handlePeerDisconnection(peer.id);
+  }
+
   /**
    * Cleanup and destroy all connections
    */
@@ -303,6 +397,11 @@ export class P2PCF extends EventEmitter {
     this._peers.clear();
     this._desktopPeer = null;
     this._peerSymmetricStatus.clear();
+    for (const reassembler of this._reassemblers.values()) {
+      reassembler.clear();
+    }
+    this._reassemblers.clear();
+    this._peerChunkSizes.clear();
     this._pendingPackages = [];
     this._pendingIceCandidates.clear();
 
@@ -364,7 +463,7 @@ export class P2PCF extends EventEmitter {
 
     return new Promise((resolve, reject) => {
       // Use STUN servers for initial detection (will use TURN for connections later if needed)
-      const pc = new RTCPeerConnection({
+      const pc = new this._webrtc.RTCPeerConnection({
         iceServers: this._stunIceServers,
       });
       const timeout = setTimeout(() => {
@@ -755,19 +854,19 @@ export class P2PCF extends EventEmitter {
 
     try {
       // Create peer connection with appropriate ICE servers
-      const pc = new RTCPeerConnection(this._getRTCConfig(sessionId));
+      const pc = new this._webrtc.RTCPeerConnection(this._getRTCConfig(sessionId));
       this._connections.set(sessionId, pc);
 
       // Setup event handlers
       this._setupPeerConnectionHandlers(sessionId, pc, false);
 
       // Set remote description
-      await pc.setRemoteDescription(new RTCSessionDescription(offerData));
+      await pc.setRemoteDescription(new this._webrtc.RTCSessionDescription(offerData));
 
       // Add any pending ICE candidates
       const pendingIce = this._pendingIceCandidates.get(sessionId) || [];
       for (const candidate of pendingIce) {
-        await pc.addIceCandidate(new RTCIceCandidate(candidate));
+        await pc.addIceCandidate(new this._webrtc.RTCIceCandidate(candidate));
       }
       this._pendingIceCandidates.delete(sessionId);
 
@@ -797,7 +896,7 @@ export class P2PCF extends EventEmitter {
 
     try {
       // Create peer connection with appropriate ICE servers
-      const pc = new RTCPeerConnection(this._getRTCConfig(peer.id));
+      const pc = new this._webrtc.RTCPeerConnection(this._getRTCConfig(peer.id));
       this._connections.set(peer.id, pc);
 
       // Setup event handlers
@@ -837,12 +936,12 @@ export class P2PCF extends EventEmitter {
         return;
       }
 
-      await pc.setRemoteDescription(new RTCSessionDescription(answerData));
+      await pc.setRemoteDescription(new this._webrtc.RTCSessionDescription(answerData));
 
       // Add any pending ICE candidates
       const pendingIce = this._pendingIceCandidates.get(sessionId) || [];
       for (const candidate of pendingIce) {
-        await pc.addIceCandidate(new RTCIceCandidate(candidate));
+        await pc.addIceCandidate(new this._webrtc.RTCIceCandidate(candidate));
       }
       this._pendingIceCandidates.delete(sessionId);
 
@@ -906,11 +1005,22 @@ export class P2PCF extends EventEmitter {
    */
   private _setupDataChannel(sessionId: string, dc: any, peer: Peer): void {
     this._dataChannels.set(sessionId, dc);
+    dc.binaryType = 'arraybuffer';
 
     dc.onopen = () => {
       console.log(`[P2PCF] Data channel open with ${peer.clientId}`);
       this._peers.set(sessionId, peer);
 
+      // Advertise framing support before any application message.
+      try {
+        dc.send(encodeCapabilities(this._maxChunkSize));
+      } catch (error) {
+        console.error(
+          `[P2PCF] Failed to send framing capabilities to ${peer.clientId}:`,
+          error
+        );
+      }
+
       // Stop polling on mobile once connected to desktop
       if (!this._isDesktop && peer.isDesktop) {
         console.log('[P2PCF] Mobile connected to desktop - stopping polling');
@@ -936,6 +1046,26 @@ export class P2PCF extends EventEmitter {
     dc.onmessage = (event: any) => {
       try {
         const data = event.data;
+        if (typeof data !== 'string') {
+          const bytes = new Uint8Array(data);
+          if (bytes[0] === CAPABILITIES_FRAME_MAGIC) {
+            const maxChunkSize = decodeCapabilities(bytes);
+            if (maxChunkSize) {
+              console.log(
+                `[P2PCF] ${peer.clientId} accepts chunks up to ${maxChunkSize} bytes`
+              );
+              this._peerChunkSizes.set(sessionId, maxChunkSize);
+            }
+            return;
+          }
+          if (bytes[0] === CHUNK_FRAME_MAGIC) {
+            const message = this._getReassembler(sessionId, peer).push(bytes);
+            if (message) {
+              this.emit('msg', peer, message);
+            }
+            return;
+          }
+        }
         this.emit('msg', peer, data);
       } catch (error) {
         console.error(
@@ -947,6 +1077,18 @@ export class P2PCF extends EventEmitter {
     };
   }
 
+  private _getReassembler(sessionId: string, peer: Peer): FrameReassembler {
+    let reassembler = this._reassemblers.get(sessionId);
+    if (!reassembler) {
+      reassembler = new FrameReassembler(this._reassemblyLimits, (error) => {
+        console.warn(`[P2PCF] Dropped message from ${peer.clientId}:`, error.message);
+        this.emit('error', error);
+      });
+      this._reassemblers.set(sessionId, reassembler);
+    }
+    return reassembler;
+  }
+
   /**
    * Handle peer disconnection
    */
@@ -958,6 +1100,10 @@ export class P2PCF extends EventEmitter {
 
     console.log(`[P2PCF] Peer disconnected: ${peer.clientId}`);
 
+    this._reassemblers.get(sessionId)?.clear();
+    this._reassemblers.delete(sessionId);
+    this._peerChunkSizes.delete(sessionId);
+
     // Clean up
     const dc = this._dataChannels.get(sessionId);
     if (dc) {
@@ -1021,7 +1167,7 @@ export class P2PCF extends EventEmitter {
     }
 
     try {
-      await pc.addIceCandidate(new RTCIceCandidate(candidateData));
+      await pc.addIceCandidate(new this._webrtc.RTCIceCandidate(candidateData));
       console.log(`[P2PCF] Added remote ICE candidate for ${sessionId}`);
     } catch (error) {
       console.error(
@@ -0,0 +1,234 @@
+/**
+ * P2PCF Framing
+ * Splits messages larger than the negotiated chunk size across several data
+ * channel messages and reassembles them on receipt.
+ *
+ * Wire format (first byte selects the frame kind; JSON text always starts with
+ * "{", so unframed messages pass through untouched):
+ *
+ *   0xA4 | version (uint8) | max chunk size (uint32)
+ *     Capabilities, sent by both sides when the data channel opens. Peers that
+ *     never send it get every message unframed, as before.
+ *
+ *   0xA3 | message id (uint32) | index (uint32) | total (uint32) | payload
+ *     One chunk of a message. All integers are big-endian.
+ */
+
+export const CHUNK_FRAME_MAGIC = 0xa3;
+export const CAPABILITIES_FRAME_MAGIC = 0xa4;
+export const FRAMING_VERSION = 1;
+
+const CHUNK_HEADER_BYTES = 13;
+const CAPABILITIES_FRAME_BYTES = 6;
+
+/**
+ * Chunk payloads up to 16 KiB are delivered by every WebRTC implementation.
+ */
+export const DEFAULT_MAX_CHUNK_SIZE = 16 * 1024;
+export const MIN_CHUNK_SIZE = 1024;
+export const DEFAULT_MAX_MESSAGE_SIZE = 8 * 1024 * 1024;
+export const DEFAULT_REASSEMBLY_TIMEOUT = 30 * 1000;
+export const DEFAULT_MAX_REASSEMBLY_BYTES = 16 * 1024 * 1024;
+export const DEFAULT_MAX_PARTIAL_MESSAGES = 16;
+
+export function encodeCapabilities(maxChunkSize: number): Uint8Array {
+  const frame = new Uint8Array(CAPABILITIES_FRAME_BYTES);
+  const view = new DataView(frame.buffer);
+  frame[0] = CAPABILITIES_FRAME_MAGIC;
+  frame[1] = FRAMING_VERSION;
+  view.setUint32(2, maxChunkSize);
+  return frame;
+}
+
+/**
+ * Returns the peer's max chunk size, or null if the frame is malformed.
+ */
+export function decodeCapabilities(frame: Uint8Array): number | null {
+  if (frame.length < CAPABILITIES_FRAME_BYTES || frame[0] !== CAPABILITIES_FRAME_MAGIC) {
+    return null;
+  }
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const maxChunkSize = view.getUint32(2);
+  return maxChunkSize >= MIN_CHUNK_SIZE ? maxChunkSize : null;
+}
+
+/**
+ * True when a message must go out as chunks: it is larger than one chunk, or
+ * starts with a framing magic byte and would be mistaken for a frame.
+ */
+export function needsChunking(data: Uint8Array, chunkSize: number): boolean {
+  return (
+    data.length > chunkSize ||
+    data[0] === CHUNK_FRAME_MAGIC ||
+    data[0] === CAPABILITIES_FRAME_MAGIC
+  );
+}
+
+export function splitIntoChunks(
+  messageId: number,
+  data: Uint8Array,
+  chunkSize: number
+): Uint8Array[] {
+  const total = Math.max(1, Math.ceil(data.length / chunkSize));
+  const chunks: Uint8Array[] = [];
+  for (let index = 0; index < total; index++) {
+    const payload = data.subarray(index * chunkSize, (index + 1) * chunkSize);
+    const chunk = new Uint8Array(CHUNK_HEADER_BYTES + payload.length);
+    const view = new DataView(chunk.buffer);
+    chunk[0] = CHUNK_FRAME_MAGIC;
+    view.setUint32(1, messageId);
+    view.setUint32(5, index);
+    view.setUint32(9, total);
+    chunk.set(payload, CHUNK_HEADER_BYTES);
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+type PartialMessage = {
+  total: number;
+  received: number;
+  bytes: number;
+  chunks: (Uint8Array | undefined)[];
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export type ReassemblyLimits = {
+  maxMessageSize: number;
+  reassemblyTimeout: number;
+  maxReassemblyBytes: number;
+  maxPartialMessages: number;
+};
+
+/**
+ * Reassembles chunked messages from one peer.
+ */
+export class FrameReassembler {
+  private readonly _partial: Map<number, PartialMessage> = new Map();
+  private _pendingBytes = 0;
+
+  constructor(
+    private readonly _limits: ReassemblyLimits,
+    private readonly _onError: (error: Error) => void
+  ) {}
+
+  /**
+   * Add a chunk frame. Returns the complete message once its last chunk
+   * arrives, otherwise null. Malformed or oversized messages are dropped and
+   * reported through onError.
+   */
+  push(frame: Uint8Array): ArrayBuffer | null {
+    if (frame.length < CHUNK_HEADER_BYTES || frame[0] !== CHUNK_FRAME_MAGIC) {
+      this._onError(new Error('Malformed chunk frame'));
+      return null;
+    }
+    const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+    const messageId = view.getUint32(1);
+    const index = view.getUint32(5);
+    const total = view.getUint32(9);
+    const payload = frame.slice(CHUNK_HEADER_BYTES);
+
+    if (total === 0 || index >= total) {
+      this._onError(new Error(`Chunk ${index}/${total} of message ${messageId} is out of range`));
+      return null;
+    }
+    // Every chunk but the last carries at least MIN_CHUNK_SIZE bytes, so a
+    // larger total can only describe an oversized message. Checked before
+    // anything is allocated for it.
+    if (total > Math.ceil(this._limits.maxMessageSize / MIN_CHUNK_SIZE)) {
+      this._onError(
+        new Error(`Message ${messageId} has ${total} chunks; exceeds ${this._limits.maxMessageSize} bytes`)
+      );
+      return null;
+    }
+    // Only a message that is one empty chunk may carry no payload.
+    if (payload.length === 0 && total !== 1) {
+      this._onError(new Error(`Chunk ${index}/${total} of message ${messageId} is empty`));
+      return null;
+    }
+
+    let message = this._partial.get(messageId);
+    if (!message) {
+      if (this._partial.size >= this._limits.maxPartialMessages) {
+        this._onError(
+          new Error(
+            `Too many partial messages (${this._partial.size}); dropped message ${messageId}`
+          )
+        );
+        return null;
+      }
+      message = {
+        total,
+        received: 0,
+        bytes: 0,
+        chunks: new Array(total),
+        timer: setTimeout(() => {
+          this._drop(messageId);
+          this._onError(
+            new Error(`Timed out reassembling message ${messageId} (${total} chunks)`)
+          );
+        }, this._limits.reassemblyTimeout),
+      };
+      this._partial.set(messageId, message);
+    }
+    if (message.total !== total) {
+      this._drop(messageId);
+      this._onError(new Error(`Chunks of message ${messageId} disagree on the total`));
+      return null;
+    }
+    if (message.chunks[index]) {
+      // Duplicate chunk; keep the first copy.
+      return null;
+    }
+
+    if (message.bytes + payload.length > this._limits.maxMessageSize) {
+      this._drop(messageId);
+      this._onError(
+        new Error(`Message ${messageId} exceeds ${this._limits.maxMessageSize} bytes`)
+      );
+      return null;
+    }
+    if (this._pendingBytes + payload.length > this._limits.maxReassemblyBytes) {
+      this._drop(messageId);
+      this._onError(
+        new Error(`Reassembly buffer full; dropped message ${messageId}`)
+      );
+      return null;
+    }
+
+    message.chunks[index] = payload;
+    message.received += 1;
+    message.bytes += payload.length;
+    this._pendingBytes += payload.length;
+
+    if (message.received < message.total) {
+      return null;
+    }
+
+    const data = new Uint8Array(message.bytes);
+    let offset = 0;
+    for (const chunk of message.chunks) {
+      data.set(chunk as Uint8Array, offset);
+      offset += (chunk as Uint8Array).length;
+    }
+    this._drop(messageId);
+    return data.buffer;
+  }
+
+  /**
+   * Drop every partial message, e.g. when the data channel closes.
+   */
+  clear(): void {
+    for (const messageId of Array.from(this._partial.keys())) {
+      this._drop(messageId);
+    }
+  }
+
+  private _drop(messageId: number): void {
+    const message = this._partial.get(messageId);
+    if (!message) return;
+    clearTimeout(message.timer);
+    this._pendingBytes -= message.bytes;
+    this._partial.delete(messageId);
+  }
+}
@@ -8,7 +8,13 @@
  */
 
 export { P2PCF } from './P2PCF';
-export type { P2PCFOptions, Peer, P2PCFEvents, P2PCFEventType } from './types';
+export type {
+  P2PCFOptions,
+  Peer,
+  P2PCFEvents,
+  P2PCFEventType,
+  WebRTCImplementation,
+} from './types';
 export {
   hexToBytes,
   bytesToHex,
@@ -37,11 +37,59 @@ export interface P2PCFOptions {
    */
   turnIceServers?: any[];
 
+  /**
+   * WebRTC classes to use instead of the platform's
+   * Required under Node, which has no built-in WebRTC (for example the exports
+   * of "@roamhq/wrtc")
+   */
+  webrtc?: WebRTCImplementation;
+
   /**
    * Polling interval in milliseconds
    * @default 3000
    */
   pollingInterval?: number;
+
+  /**
+   * Largest chunk payload in bytes this peer accepts; advertised when the data
+   * channel opens. Each side sends chunks no larger than the smaller of its
+   * own and the remote value.
+   * @default 16384
+   */
+  maxChunkSize?: number;
+
+  /**
+   * Largest message in bytes, before chunking, that may be sent or reassembled
+   * @default 8388608
+   */
+  maxMessageSize?: number;
+
+  /**
+   * Time in milliseconds to wait for the rest of a chunked message
+   * @default 30000
+   */
+  reassemblyTimeout?: number;
+
+  /**
+   * Memory cap in bytes for partially received messages per peer
+   * @default 16777216
+   */
+  maxReassemblyBytes?: number;
+
+  /**
+   * Most chunked messages per peer that may be partially received at once
+   * @default 16
+   */
+  maxPartialMessages?: number;
+}
+
+/**
+ * WebRTC classes P2PCF creates connections with
+ */
+export interface WebRTCImplementation {
+  RTCPeerConnection: typeof RTCPeerConnection;
+  RTCIceCandidate: typeof RTCIceCandidate;
+  RTCSessionDescription: typeof RTCSessionDescription;
 }
 
 /**
@@ -0,0 +1,165 @@
+// src/pairing.ts
+// PIN pairing helpers for the P2P protocol (renderer side).
+//
+// The desktop shows a short one-time PIN. After "hello" it sends the peer a
+// random challenge nonce and an ephemeral ECDH P-256 public key; the phone
+// answers with its own nonce, its own ephemeral public key and a proof of the
+// PIN (or, for a trusted device, of its device secret):
+//
+//   shared  = ECDH(own private key, peer public key)
+//   binding = HMAC-SHA256(key = shared,
+//               data = "mydeviceai-bind:<desktopNonce>:<clientNonce>:<desktopKey>:<clientKey>")
+//   proof   = HMAC-SHA256(key = PIN or device secret, data = "mydeviceai-pair:<binding>")
+//
+// Keys are base64 raw (uncompressed) points; binding and proof are lowercase
+// hex. The PIN itself never crosses the data channel, and since the proof is
+// bound to the ECDH secret, a recorded exchange gives nothing to test PIN
+// guesses against. End-to-end encryption keys (src/e2e.ts) come from the
+// shared secret alone, so they never depend on the PIN.
+
+import { base64ToBytes, bytesToBase64, bytesToHex, stringToBytes } from './p2pcf/utils';
+
+export const PAIRING_PIN_LENGTH = 6;
+// Wrong PIN answers allowed per connection before the peer is dropped.
+export const MAX_PAIRING_ATTEMPTS = 3;
+const PAIRING_NONCE_BYTES = 16;
+const PAIRING_PROOF_CONTEXT = 'mydeviceai-pair';
+const PAIRING_BINDING_CONTEXT = 'mydeviceai-bind';
+const SESSION_SECRET_CONTEXT = 'mydeviceai-e2e';
+const ECDH_CURVE = 'P-256';
+
+export type PairingKeyPair = {
+  privateKey: CryptoKey;
+  // base64 raw public key, sent in pair_challenge / pair_response.
+  publicKey: string;
+};
+
+export type PairingTranscript = {
+  desktopNonce: string;
+  clientNonce: string;
+  desktopKey: string;
+  clientKey: string;
+};
+
+export type PairingSecrets = {
+  // Keyed into the proof; see the header comment.
+  binding: string;
+  // Hex secret for deriveDesktopKeys / deriveClientKeys in src/e2e.ts.
+  sessionSecret: string;
+};
+
+/**
+ * Random numeric PIN, zero-padded to PAIRING_PIN_LENGTH digits.
+ */
+export function generatePairingPin(): string {
+  const max = 10 ** PAIRING_PIN_LENGTH;
+  // Rejection sampling keeps the distribution uniform.
+  const limit = Math.floor(0xffffffff / max) * max;
+  const buf = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buf);
+  } while (buf[0] >= limit);
+  return String(buf[0] % max).padStart(PAIRING_PIN_LENGTH, '0');
+}
+
+export function generatePairingNonce(): string {
+  const bytes = new Uint8Array(PAIRING_NONCE_BYTES);
+  crypto.getRandomValues(bytes);
+  return bytesToHex(bytes);
+}
+
+/**
+ * Fresh ECDH key pair for one pairing challenge.
+ */
+export async function generatePairingKeyPair(): Promise<PairingKeyPair> {
+  const pair = (await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: ECDH_CURVE }, false, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+  const raw = await crypto.subtle.exportKey('raw', pair.publicKey);
+  return { privateKey: pair.privateKey, publicKey: bytesToBase64(new Uint8Array(raw)) };
+}
+
+async function hmacHex(key: Uint8Array, data: string): Promise<string> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const sig = await crypto.subtle.sign('HMAC', hmacKey, stringToBytes(data));
+  return bytesToHex(new Uint8Array(sig));
+}
+
+/**
+ * Run the key exchange for a pairing. Throws when the peer's public key is not
+ * a valid point on the curve.
+ */
+export async function derivePairingSecrets(
+  own: PairingKeyPair,
+  peerPublicKey: string,
+  transcript: PairingTranscript,
+): Promise<PairingSecrets> {
+  const peerKey = await crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(peerPublicKey),
+    { name: 'ECDH', namedCurve: ECDH_CURVE },
+    false,
+    [],
+  );
+  const shared = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, own.privateKey, 256),
+  );
+  const { desktopNonce, clientNonce, desktopKey, clientKey } = transcript;
+  const context = `${desktopNonce}:${clientNonce}:${desktopKey}:${clientKey}`;
+  const [binding, sessionSecret] = await Promise.all([
+    hmacHex(shared, `${PAIRING_BINDING_CONTEXT}:${context}`),
+    hmacHex(shared, `${SESSION_SECRET_CONTEXT}:${context}`),
+  ]);
+  return { binding, sessionSecret };
+}
+
+export function computePairingProof(secret: string, binding: string): Promise<string> {
+  return hmacHex(stringToBytes(secret), `${PAIRING_PROOF_CONTEXT}:${binding}`);
+}
+
+/**
+ * Check a peer's proof in constant time with respect to its content.
+ */
+export async function verifyPairingProof(
+  secret: string,
+  binding: string,
+  proof: unknown,
+): Promise<boolean> {
+  if (typeof proof !== 'string') return false;
+
+  const expected = await computePairingProof(secret, binding);
+  const actual = proof.toLowerCase();
+  if (actual.length !== expected.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Check a pair_response against the challenge it answers: run the key
+ * exchange, then check the proof of the PIN or device secret with
+ * `verifyProof`. Returns the session secret when the proof matches, otherwise
+ * null. Throws when the phone's key is not a valid point on the curve.
+ */
+export async function checkPairResponse(
+  challenge: { nonce: string; keys: PairingKeyPair },
+  response: { nonce: string; key: string; proof: string },
+  verifyProof: (binding: string, proof: string) => Promise<boolean>,
+): Promise<string | null> {
+  const { binding, sessionSecret } = await derivePairingSecrets(challenge.keys, response.key, {
+    desktopNonce: challenge.nonce,
+    clientNonce: response.nonce,
+    desktopKey: challenge.keys.publicKey,
+    clientKey: response.key,
+  });
+  return (await verifyProof(binding, response.proof)) ? sessionSecret : null;
+}
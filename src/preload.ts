@@ -107,6 +107,10 @@ type LlamaServerStatus =
   | { ok: true; endpoint: string }
   | { ok: false; error: string };
 
+type EmbeddingServerStatus =
+  | { ok: true; endpoint: string; modelId: string; contextWindow: number }
+  | { ok: false; error: string };
+
 
 /**
  * NOTE: Llama HTTP helpers were moved into the renderer process.
@@ -248,6 +252,25 @@ contextBridge.exposeInMainWorld('llama', {
     }
   },
 
+  /**
+   * Ensure the separate embeddings llama-server is running with the embedding
+   * model chosen in Manage Models.
+   */
+  ensureEmbeddingServer: async (): Promise<EmbeddingServerStatus> => {
+    logPreload('llama.ensureEmbeddingServer bridge invoked');
+    try {
+      const result = await ipcRenderer.invoke('llama-ensure-embedding-server') as EmbeddingServerStatus;
+      logPreload('llama.ensureEmbeddingServer bridge result', result as any);
+      return result;
+    } catch (err: any) {
+      logPreloadError('llama.ensureEmbeddingServer IPC failed', err);
+      return {
+        ok: false,
+        error: err?.message || 'IPC llama-ensure-embedding-server failed',
+      };
+    }
+  },
+
   /**
    * Register a handler to be called when the app is about to quit.
    * Handler receives a callback to notify when cleanup is complete.
@@ -351,6 +374,23 @@ contextBridge.exposeInMainWorld('modelManager', {
     return ipcRenderer.invoke('models-set-active', { id });
   },
 
+  setEmbedding: async (id: string | null) => {
+    logPreload('modelManager.setEmbedding invoke', { id });
+    return ipcRenderer.invoke('models-set-embedding', { id });
+  },
+
+  onActiveChanged: (
+    handler: (change: { activeModelId: string | null; model: any; vision: boolean }) => void,
+  ) => {
+    const listener = (_event: any, change: any) => {
+      handler(change);
+    };
+    ipcRenderer.on('models-active-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('models-active-changed', listener);
+    };
+  },
+
   updateParams: async (
     id: string,
     params: {
@@ -366,6 +406,25 @@ contextBridge.exposeInMainWorld('modelManager', {
     return ipcRenderer.invoke('models-update-params', { id, params });
   },
 
+  setContextStrategy: async (id: string, strategy: string) => {
+    logPreload('modelManager.setContextStrategy invoke', { id, strategy });
+    return ipcRenderer.invoke('models-set-context-strategy', { id, strategy });
+  },
+
+  resolveSampling: async (overrides: {
+    temperature?: number;
+    top_p?: number;
+    top_k?: number;
+    max_tokens?: number;
+    stop?: string | string[];
+    seed?: number;
+    repeat_penalty?: number;
+    min_p?: number;
+  }) => {
+    logPreload('modelManager.resolveSampling invoke', { overrides });
+    return ipcRenderer.invoke('models-resolve-sampling', { overrides });
+  },
+
   searchHfGguf: async (query: string) => {
     logPreload('modelManager.searchHfGguf invoke', { query });
     return ipcRenderer.invoke('models-search-hf-gguf', { query });
@@ -382,14 +441,20 @@ contextBridge.exposeInMainWorld('modelManager', {
     displayName?: string;
     quantization?: string;
     contextWindow?: number;
+    mmprojFileName?: string;
   }) => {
     logPreload('modelManager.downloadHf invoke', {
       repoId: options?.repoId,
       fileName: options?.fileName,
+      mmprojFileName: options?.mmprojFileName,
     });
     return ipcRenderer.invoke('models-download-hf', options);
   },
 
+  getFreeDiskSpace: async () => {
+    return ipcRenderer.invoke('models-get-free-disk-space');
+  },
+
   cancelDownload: async (id: string) => {
     logPreload('modelManager.cancelDownload invoke', { id });
     return ipcRenderer.invoke('models-cancel-download', { id });
@@ -427,6 +492,179 @@ contextBridge.exposeInMainWorld('modelManager', {
   },
 });
 
+/**
+ * Trusted device bridge
+ * - Wraps the devices-* IPC handlers from src/index.ts.
+ * - Device secrets stay in the main process; only approve() returns one,
+ *   so it can be handed to the phone once.
+ */
+type PeerLimits = {
+  requestsPerMinute: number;
+  maxConcurrentPerPeer: number;
+  dailyPromptTokens: number;
+  dailyCompletionTokens: number;
+};
+
+type DevicePermissions = {
+  manageModels: boolean;
+};
+
+type DeviceInfo = {
+  id: string;
+  name: string;
+  status: 'trusted' | 'blocked';
+  limits?: Partial<PeerLimits>;
+  permissions?: Partial<DevicePermissions>;
+  createdAt: string;
+  updatedAt: string;
+  lastSeenAt?: string;
+};
+
+contextBridge.exposeInMainWorld('devices', {
+  list: async () => {
+    logPreload('devices.list invoke');
+    return ipcRenderer.invoke('devices-list');
+  },
+
+  get: async (id: string) => {
+    return ipcRenderer.invoke('devices-get', { id });
+  },
+
+  verifyProof: async (id: string, binding: string, proof: unknown) => {
+    return ipcRenderer.invoke('devices-verify-proof', { id, binding, proof });
+  },
+
+  approve: async (id: string, name?: string) => {
+    logPreload('devices.approve invoke', { id });
+    return ipcRenderer.invoke('devices-approve', { id, name });
+  },
+
+  block: async (id: string, name?: string) => {
+    logPreload('devices.block invoke', { id });
+    return ipcRenderer.invoke('devices-block', { id, name });
+  },
+
+  rename: async (id: string, name: string) => {
+    logPreload('devices.rename invoke', { id });
+    return ipcRenderer.invoke('devices-rename', { id, name });
+  },
+
+  revoke: async (id: string) => {
+    logPreload('devices.revoke invoke', { id });
+    return ipcRenderer.invoke('devices-revoke', { id });
+  },
+
+  setLimits: async (id: string, limits: Partial<PeerLimits> | null) => {
+    logPreload('devices.setLimits invoke', { id, limits });
+    return ipcRenderer.invoke('devices-set-limits', { id, limits });
+  },
+
+  setPermissions: async (id: string, permissions: Partial<DevicePermissions> | null) => {
+    logPreload('devices.setPermissions invoke', { id, permissions });
+    return ipcRenderer.invoke('devices-set-permissions', { id, permissions });
+  },
+
+  onChanged: (
+    handler: (
+      change:
+        | { type: 'updated'; device: DeviceInfo }
+        | { type: 'removed'; id: string },
+    ) => void,
+  ) => {
+    const listener = (_event: any, change: any) => {
+      handler(change);
+    };
+    ipcRenderer.on('devices-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('devices-changed', listener);
+    };
+  },
+});
+
+/**
+ * Usage bridge
+ * - Daily token budgets and counters per device (src/usageStore.ts).
+ */
+contextBridge.exposeInMainWorld('usage', {
+  checkQuota: async (deviceId: string) => {
+    return ipcRenderer.invoke('usage-check-quota', { deviceId });
+  },
+
+  record: async (
+    deviceId: string,
+    tokens: { promptTokens?: number; completionTokens?: number },
+  ) => {
+    return ipcRenderer.invoke('usage-record', { deviceId, ...tokens });
+  },
+
+  get: async (deviceId: string) => {
+    return ipcRenderer.invoke('usage-get', { deviceId });
+  },
+});
+
+/**
+ * Settings bridge
+ * - Wraps the settings-* IPC handlers from src/index.ts.
+ */
+type DownloadLimits = {
+  maxModelMb: number;
+  minFreeDiskMb: number;
+};
+
+type AppSettings = {
+  requireEncryption: boolean;
+  maxConcurrentPrompts: number;
+  limits: PeerLimits;
+  downloads: DownloadLimits;
+  captureTraffic: boolean;
+};
+
+contextBridge.exposeInMainWorld('settings', {
+  get: async () => {
+    logPreload('settings.get invoke');
+    return ipcRenderer.invoke('settings-get');
+  },
+
+  update: async (patch: Partial<AppSettings>) => {
+    logPreload('settings.update invoke', { patch });
+    return ipcRenderer.invoke('settings-update', { patch });
+  },
+
+  onChanged: (handler: (settings: AppSettings) => void) => {
+    const listener = (_event: any, settings: AppSettings) => {
+      handler(settings);
+    };
+    ipcRenderer.on('settings-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('settings-changed', listener);
+    };
+  },
+});
+
+/**
+ * Traffic capture bridge
+ * - Wraps the capture-* IPC handlers from src/index.ts (src/trafficCapture.ts).
+ */
+contextBridge.exposeInMainWorld('captures', {
+  append: (entries: unknown[]) => {
+    ipcRenderer.send('capture-append', { entries });
+  },
+
+  list: async () => {
+    return ipcRenderer.invoke('capture-list');
+  },
+
+  read: async (name: string) => {
+    logPreload('captures.read invoke', { name });
+    return ipcRenderer.invoke('capture-read', { name });
+  },
+
+  delete: async (name: string) => {
+    logPreload('captures.delete invoke', { name });
+    return ipcRenderer.invoke('capture-delete', { name });
+  },
+});
+
 /**
  * Logger bridge for forwarding renderer logs to main process
  */
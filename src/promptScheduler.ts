@@ -0,0 +1,154 @@
+// src/promptScheduler.ts
+// Desktop-side prompt scheduler (renderer side).
+//
+// Limits how many prompts stream from llama-server at once and shares the
+// remaining capacity fairly: each peer has its own FIFO queue and peers are
+// served round-robin, so one phone sending many prompts cannot starve others.
+// Waiting prompts are told how many prompts will start before them.
+
+type Waiter = {
+  peerId: string;
+  onPosition?: (ahead: number) => void;
+  lastAhead: number | null;
+  resolve: (release: (() => void) | null) => void;
+  detach: () => void;
+};
+
+export type SchedulerStats = {
+  running: number;
+  waiting: number;
+  concurrency: number;
+};
+
+export class PromptScheduler {
+  private concurrency: number;
+  private running = 0;
+  private readonly queues = new Map<string, Waiter[]>();
+  // Peers with waiting prompts, next to be served first.
+  private rotation: string[] = [];
+
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  stats(): SchedulerStats {
+    let waiting = 0;
+    for (const queue of this.queues.values()) waiting += queue.length;
+    return { running: this.running, waiting, concurrency: this.concurrency };
+  }
+
+  /**
+   * Wait for a generation slot. Resolves with a release function to call when
+   * the prompt finishes, or null if `signal` aborts while still queued.
+   * `onPosition` is called with the number of prompts ahead whenever it changes;
+   * it is not called for prompts that start immediately.
+   */
+  acquire(
+    peerId: string,
+    options: { signal?: AbortSignal; onPosition?: (ahead: number) => void } = {},
+  ): Promise<(() => void) | null> {
+    const { signal, onPosition } = options;
+    if (signal?.aborted) {
+      return Promise.resolve(null);
+    }
+
+    if (this.running < this.concurrency && !this.rotation.length) {
+      return Promise.resolve(this.startSlot());
+    }
+
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        this.remove(waiter);
+        resolve(null);
+      };
+      const waiter: Waiter = {
+        peerId,
+        onPosition,
+        lastAhead: null,
+        resolve,
+        detach: () => signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      let queue = this.queues.get(peerId);
+      if (!queue) {
+        queue = [];
+        this.queues.set(peerId, queue);
+      }
+      queue.push(waiter);
+      if (this.rotation.indexOf(peerId) === -1) {
+        this.rotation.push(peerId);
+      }
+      this.pump();
+    });
+  }
+
+  private startSlot(): () => void {
+    this.running += 1;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.running -= 1;
+      this.pump();
+    };
+  }
+
+  private remove(waiter: Waiter): void {
+    waiter.detach();
+    const queue = this.queues.get(waiter.peerId);
+    if (!queue) return;
+    const index = queue.indexOf(waiter);
+    if (index !== -1) queue.splice(index, 1);
+    if (!queue.length) {
+      this.queues.delete(waiter.peerId);
+      this.rotation = this.rotation.filter((id) => id !== waiter.peerId);
+    }
+    this.notifyPositions();
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.rotation.length) {
+      const peerId = this.rotation.shift() as string;
+      const queue = this.queues.get(peerId) || [];
+      const waiter = queue.shift();
+      if (queue.length) {
+        this.rotation.push(peerId);
+      } else {
+        this.queues.delete(peerId);
+      }
+      if (!waiter) continue;
+      waiter.detach();
+      waiter.resolve(this.startSlot());
+    }
+    this.notifyPositions();
+  }
+
+  /**
+   * Walk the queues in the order pump() will serve them (one prompt per peer
+   * per round, following the rotation) and report each waiter's place.
+   */
+  private notifyPositions(): void {
+    const queues = this.rotation.map((id) => this.queues.get(id) || []);
+    let ahead = 0;
+    for (let round = 0; ; round++) {
+      let any = false;
+      for (const queue of queues) {
+        const waiter = queue[round];
+        if (!waiter) continue;
+        any = true;
+        if (waiter.lastAhead !== ahead) {
+          waiter.lastAhead = ahead;
+          waiter.onPosition?.(ahead);
+        }
+        ahead += 1;
+      }
+      if (!any) break;
+    }
+  }
+}
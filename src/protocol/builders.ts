@@ -0,0 +1,44 @@
+// src/protocol/builders.ts
+// Builders for outbound frames that are assembled in many places.
+
+import type { ContextTruncation } from '../contextManager';
+import type { ProtocolErrorCode } from './errors';
+import type { CompletionStats, ErrorMessage, ServerMessageOf } from './messages';
+
+/**
+ * An "error" frame. Pass "" as id for errors about the connection rather than
+ * one request; `code` is omitted when null.
+ */
+export function errorFrame(
+  id: string,
+  code: ProtocolErrorCode | null,
+  message: string,
+  details: Omit<ErrorMessage, 't' | 'id' | 'code' | 'message'> = {},
+): ErrorMessage {
+  return { t: 'error', id, ...(code ? { code } : {}), message, ...details };
+}
+
+/**
+ * The "error" frame for a request that failed validation, by the schemas in
+ * src/protocol/validation.ts or a handler's own checks.
+ */
+export function invalidRequestFrame(id: string, message: string): ErrorMessage {
+  return errorFrame(id, 'invalid_request', message);
+}
+
+/**
+ * The final frame of a reply. Empty optional fields are left out, which keeps
+ * frames for clients older than the fields unchanged.
+ */
+export function endFrame(
+  id: string,
+  fields: { finishReason?: string; stats?: CompletionStats; truncation?: ContextTruncation | null },
+): ServerMessageOf<'end'> {
+  return {
+    t: 'end',
+    id,
+    ...(fields.finishReason ? { finishReason: fields.finishReason } : {}),
+    ...(fields.stats ? { stats: fields.stats } : {}),
+    ...(fields.truncation ? { truncation: fields.truncation } : {}),
+  };
+}
@@ -0,0 +1,112 @@
+// src/protocol/dispatch.ts
+// Routing of inbound frames to their handlers.
+//
+// Every frame from a phone takes this path once it is decrypted: unknown types
+// are ignored, frames that fail their schema (src/protocol/validation.ts) are
+// answered with an "invalid_request" error, and requests from a peer that has
+// not paired or negotiated a protocol version yet are refused before any
+// handler sees them. The renderer supplies the handlers (dispatchMessage in
+// src/renderer.ts); the conformance suite in test/ supplies recording ones.
+
+import { errorFrame, invalidRequestFrame } from './builders';
+import type { ClientMessage, ClientMessageOf, ClientMessageType, ErrorMessage } from './messages';
+import { isClientMessageType, validateClientMessage } from './validation';
+import type { RawFrame } from './validation';
+
+// What a peer must have done before a frame of the type is handled:
+// - "none": allowed at any time (connection setup, cancelling)
+// - "paired": after pair_result ok
+// - "negotiated": after pairing and a compatible version_ack
+export type FrameGate = 'none' | 'paired' | 'negotiated';
+
+export const CLIENT_MESSAGE_GATES: { [T in ClientMessageType]: FrameGate } = {
+  hello: 'none',
+  enc: 'none',
+  pair_response: 'none',
+  version_negotiate: 'none',
+  cancel: 'none',
+  get_model: 'paired',
+  prompt: 'negotiated',
+  complete: 'negotiated',
+  session_close: 'negotiated',
+  resume: 'negotiated',
+  embed: 'negotiated',
+  count_tokens: 'negotiated',
+  tokenize: 'negotiated',
+  detokenize: 'negotiated',
+  list_models: 'negotiated',
+  set_model: 'negotiated',
+  download_model: 'negotiated',
+  cancel_download: 'negotiated',
+};
+
+export type DispatchState = {
+  paired: boolean;
+  negotiated: boolean;
+};
+
+// Types without a handler are ignored, e.g. "enc", which is unwrapped before
+// dispatch.
+export type ClientMessageHandlers = {
+  [T in ClientMessageType]?: (msg: ClientMessageOf<T>) => void;
+};
+
+export type DispatchResult =
+  | { outcome: 'handled'; t: ClientMessageType }
+  | { outcome: 'ignored'; t: string }
+  | { outcome: 'rejected'; t: string; reply: ErrorMessage };
+
+function requestIdOf(msg: ClientMessage): string {
+  return 'id' in msg && typeof msg.id === 'string' ? msg.id : '';
+}
+
+/**
+ * Validate a frame, check its gate and call its handler. Returns what
+ * happened; a rejected frame's reply is for the caller to send.
+ */
+export function dispatchClientFrame(
+  frame: RawFrame,
+  state: DispatchState,
+  handlers: ClientMessageHandlers,
+): DispatchResult {
+  if (!isClientMessageType(frame.t)) {
+    return { outcome: 'ignored', t: frame.t };
+  }
+  const checked = validateClientMessage(frame as RawFrame & { t: ClientMessageType });
+  if (!checked.ok) {
+    const { id, message } = checked as Extract<typeof checked, { ok: false }>;
+    return { outcome: 'rejected', t: frame.t, reply: invalidRequestFrame(id, message) };
+  }
+  const { msg } = checked;
+
+  const gate = CLIENT_MESSAGE_GATES[msg.t];
+  if (gate !== 'none' && !state.paired) {
+    return {
+      outcome: 'rejected',
+      t: msg.t,
+      reply: errorFrame(
+        requestIdOf(msg),
+        'not_paired',
+        'Enter the PIN shown on the desktop to pair before sending requests',
+      ),
+    };
+  }
+  if (gate === 'negotiated' && !state.negotiated) {
+    return {
+      outcome: 'rejected',
+      t: msg.t,
+      reply: errorFrame(
+        requestIdOf(msg),
+        'version_not_negotiated',
+        'Send version_negotiate and wait for a compatible version_ack before sending requests',
+      ),
+    };
+  }
+
+  const handler = handlers[msg.t] as ((msg: ClientMessage) => void) | undefined;
+  if (!handler) {
+    return { outcome: 'ignored', t: msg.t };
+  }
+  handler(msg);
+  return { outcome: 'handled', t: msg.t };
+}
@@ -0,0 +1,52 @@
+// src/protocol/errors.ts
+// Machine-readable "code" values of "error" frames.
+//
+// Phones branch on these (re-pair, back off, restart a session...), so a code
+// is never renamed or reused for another cause; add a new one instead. Errors
+// without a code are failures the phone can only show to the user.
+
+export type ProtocolErrorCode =
+  // Connection and pairing; the desktop disconnects after most of these.
+  | 'device_id_required'
+  | 'device_blocked'
+  | 'device_denied'
+  | 'device_revoked'
+  | 'encryption_required'
+  | 'decryption_failed'
+  | 'pairing_failed'
+  // Too many wrong PINs across all phones; carries "retryAfter".
+  | 'pairing_locked'
+  | 'pairing_timeout'
+  | 'not_paired'
+  | 'version_not_negotiated'
+  // A frame that does not match its schema, or a request field with a bad value.
+  | 'invalid_request'
+  | 'permission_denied'
+  // Limits and budgets; these carry "limit" and "retryAfter".
+  | 'rate_limited'
+  | 'quota_exceeded'
+  // Prompts
+  | 'attachment_rejected'
+  | 'attachment_missing'
+  | 'vision_unsupported'
+  | 'session_not_found'
+  | 'session_busy'
+  | 'session_full'
+  | 'session_limit'
+  | 'schema_violation'
+  | 'context_overflow'
+  | 'resume_unavailable'
+  // Embeddings
+  | 'embedding_unavailable'
+  | 'embedding_failed'
+  // Model switching and downloads
+  | 'model_not_found'
+  | 'model_busy'
+  | 'model_switch_failed'
+  | 'already_installed'
+  | 'download_in_progress'
+  | 'download_too_large'
+  | 'insufficient_disk_space'
+  | 'download_denied'
+  | 'download_failed'
+  | 'download_not_found';
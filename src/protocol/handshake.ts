@@ -0,0 +1,126 @@
+// src/protocol/handshake.ts
+// The desktop's replies while a phone sets up its connection.
+//
+// The renderer keeps each peer's session, the PIN and its lockouts, and the
+// approval prompt (src/renderer.ts). These functions decide the frames it
+// sends for a version_negotiate and around pairing, so the conformance suite
+// in test/ checks the same replies phones get.
+
+import { E2E_SCHEME } from '../e2e';
+import {
+  MIN_COMPATIBLE_PROTOCOL_VERSION,
+  isProtocolAtLeast,
+  negotiateProtocolVersion,
+} from '../protocolVersion';
+import type { VersionNegotiationResult } from '../protocolVersion';
+import { normalizeCoalesceWindow } from '../tokenCoalescer';
+import type { CoalesceWindow } from '../tokenCoalescer';
+import { errorFrame } from './builders';
+import type { ClientMessageOf, ErrorMessage, PairingMethod, ServerMessageOf } from './messages';
+
+export type VersionAnswer = {
+  result: VersionNegotiationResult;
+  // The session's token batching window; null when incompatible or not asked for.
+  coalesce: CoalesceWindow | null;
+  reply: ServerMessageOf<'version_ack'>;
+};
+
+/**
+ * Negotiate a session version for a version_negotiate and build the
+ * version_ack that answers it.
+ */
+export function answerVersionNegotiate(msg: ClientMessageOf<'version_negotiate'>): VersionAnswer {
+  const result = negotiateProtocolVersion(msg.protocolVersion, msg.minCompatibleVersion);
+  if (result.compatible) {
+    // Token coalescing was added in protocol 1.9.0.
+    const coalesce = isProtocolAtLeast(result.protocolVersion, '1.9.0')
+      ? normalizeCoalesceWindow(msg.coalesce)
+      : null;
+    return {
+      result,
+      coalesce,
+      reply: {
+        t: 'version_ack',
+        compatible: true,
+        protocolVersion: result.protocolVersion,
+        minCompatibleVersion: MIN_COMPATIBLE_PROTOCOL_VERSION,
+        ...(coalesce ? { coalesce } : {}),
+      },
+    };
+  }
+
+  const failure = result as Extract<VersionNegotiationResult, { compatible: false }>;
+  return {
+    result,
+    coalesce: null,
+    reply: {
+      t: 'version_ack',
+      compatible: false,
+      protocolVersion: failure.protocolVersion,
+      minCompatibleVersion: MIN_COMPATIBLE_PROTOCOL_VERSION,
+      reason: failure.reason,
+      message: failure.message,
+    },
+  };
+}
+
+/**
+ * A pair_challenge. `encrypt` is whether the phone offered a scheme the
+ * desktop speaks (supportsE2E in src/e2e.ts).
+ */
+export function pairChallengeFrame(
+  nonce: string,
+  method: PairingMethod,
+  key: string,
+  encrypt: boolean,
+): ServerMessageOf<'pair_challenge'> {
+  return { t: 'pair_challenge', nonce, method, key, ...(encrypt ? { encryption: E2E_SCHEME } : {}) };
+}
+
+export type PairingCheck = {
+  method: PairingMethod;
+  // Whether the proof matched; false for an answer refused unchecked.
+  ok: boolean;
+  // Wrong PIN answers the connection may still give.
+  attemptsLeft: number;
+  // How much longer PIN answers are refused; 0 when PIN pairing is not locked.
+  lockedForMs: number;
+};
+
+// The reply to a pair_response, and what the desktop does after sending it.
+export type PairingStep =
+  // A trusted device's proof matched.
+  | { next: 'paired'; reply: ServerMessageOf<'pair_result'> }
+  // The PIN matched; the desktop user is asked to allow the device.
+  | { next: 'approval'; reply: ServerMessageOf<'approval_pending'> }
+  // A wrong answer with attempts left; a new "pin" challenge follows.
+  | { next: 'challenge'; reply: ServerMessageOf<'pair_result'> }
+  | { next: 'disconnect'; reply: ErrorMessage };
+
+/**
+ * Decide the reply to a checked (or, during a lockout, refused) pair_response.
+ * A rejected device proof falls back to the PIN without using an attempt: the
+ * phone may have lost its secret.
+ */
+export function pairingStep(check: PairingCheck): PairingStep {
+  if (check.method === 'pin' && check.lockedForMs > 0) {
+    return {
+      next: 'disconnect',
+      reply: errorFrame('', 'pairing_locked', 'Too many incorrect PIN attempts; try again later', {
+        retryAfter: Math.ceil(check.lockedForMs / 1000),
+      }),
+    };
+  }
+  if (check.ok) {
+    return check.method === 'device'
+      ? { next: 'paired', reply: { t: 'pair_result', ok: true } }
+      : { next: 'approval', reply: { t: 'approval_pending' } };
+  }
+  if (check.method === 'pin' && check.attemptsLeft <= 0) {
+    return {
+      next: 'disconnect',
+      reply: errorFrame('', 'pairing_failed', 'Too many incorrect PIN attempts'),
+    };
+  }
+  return { next: 'challenge', reply: { t: 'pair_result', ok: false, attemptsLeft: check.attemptsLeft } };
+}
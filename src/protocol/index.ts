@@ -0,0 +1,30 @@
+/**
+ * The P2P protocol between phones and the desktop: frame types and their docs,
+ * runtime validation of inbound frames, builders for outbound frames and error
+ * codes. Kept free of Electron and DOM dependencies.
+ */
+
+export type {
+  ClientMessage,
+  ClientMessageOf,
+  ClientMessageType,
+  CompleteMessage,
+  CompletionStats,
+  EncryptedFrameMessage,
+  ErrorMessage,
+  HelloMessage,
+  PairingMethod,
+  PromptMessage,
+  SamplingFields,
+  ServerMessage,
+  ServerMessageOf,
+  ServerMessageType,
+} from './messages';
+export type { ProtocolErrorCode } from './errors';
+export { isClientMessageType, parseRawFrame, validateClientMessage } from './validation';
+export type { ClientMessageCheck, RawFrame } from './validation';
+export { endFrame, errorFrame, invalidRequestFrame } from './builders';
+export { CLIENT_MESSAGE_GATES, dispatchClientFrame } from './dispatch';
+export type { ClientMessageHandlers, DispatchResult, DispatchState, FrameGate } from './dispatch';
+export { answerVersionNegotiate, pairChallengeFrame, pairingStep } from './handshake';
+export type { PairingCheck, PairingStep, VersionAnswer } from './handshake';
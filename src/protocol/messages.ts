@@ -0,0 +1,545 @@
+// src/protocol/messages.ts
+// Frames of the P2P protocol between phones and the desktop.
+//
+// ClientMessage lists what phones send, ServerMessage what the desktop sends.
+// Inbound frames are checked at runtime with validateClientMessage
+// (src/protocol/validation.ts) before any handler sees them; outbound frames are
+// type-checked here, so a field renamed by mistake fails the build instead of
+// breaking the shipped app.
+//
+// Minimal binary-safe JSON protocol over P2PCF:
+// All control/messages are UTF-8 JSON strings with field "t" (type).
+//
+// Connection flow:
+// 1. Both sides exchange "hello" on connect; the client's hello carries its
+//    stable deviceId. Blocked devices are disconnected right away.
+// 2. Server -> Client: "pair_challenge". Trusted devices answer with a proof
+//    keyed by the device secret they received on approval; unknown devices
+//    answer with a proof keyed by the PIN shown on the desktop (see src/pairing.ts)
+// 3. After a correct PIN the server sends "approval_pending" and asks the
+//    desktop user to allow the device; allowing stores it as trusted
+//    (see src/deviceStore.ts) and hands it a device secret for next time
+// 4. Server -> Client: "pair_result"; until pairing succeeds, "prompt" and
+//    "get_model" are refused with an "error" (code "not_paired"), and peers
+//    that do not pair within two minutes are disconnected
+// 5. Client -> Server: "version_negotiate" to check compatibility
+// 6. Server -> Client: "version_ack" with compatibility result
+// 7. If compatible, client can send "prompt" requests; prompts from a peer
+//    that has not completed negotiation are refused with an "error"
+//    (code "version_not_negotiated"). See src/protocolVersion.ts.
+//
+// Message Types:
+//
+// - "hello": bidirectional, sent by both sides on connect
+//     { "t": "hello", "clientId": string, "impl": "mydeviceai-desktop", "version": string,
+//       "deviceId"?: string, "deviceName"?: string, "encryption"?: string[] }
+//     deviceId: required from clients; a stable identifier that survives reconnects
+//     deviceName: optional human-readable name shown in the approval prompt
+//     encryption: optional list of supported end-to-end schemes, e.g. ["aes-256-gcm"]
+//     A missing deviceId is answered with an "error" (code "device_id_required"),
+//     a blocked device with code "device_blocked", and a client without encryption
+//     support with code "encryption_required" when the desktop setting demands it;
+//     all are then disconnected.
+//
+// - "pair_challenge": Server -> Client, sent after hello and after each failed attempt
+//     { "t": "pair_challenge", "nonce": string, "method": "pin" | "device",
+//       "key": string, "encryption"?: "aes-256-gcm" }
+//     method: which secret keys the proof; "device" is only used for trusted devices
+//     key: the desktop's ephemeral ECDH P-256 public key for this challenge, base64
+//       raw point (protocol >= 1.22.0)
+//     encryption: present when the client offered a scheme the desktop supports;
+//       every frame after a successful pair_response is then encrypted
+//
+// - "enc": bidirectional envelope once encryption is on (see src/e2e.ts)
+//     { "t": "enc", "seq": number, "ct": string }
+//     Keys come from the pairing key exchange alone, never from the PIN or device
+//       secret (see derivePairingSecrets in src/pairing.ts). Plaintext frames
+//     are ignored on an encrypted session; a frame that fails to decrypt or
+//     repeats a seq ends the connection with an "error" (code "decryption_failed").
+//
+// - "pair_response": Client -> Server, proof of the secret named by method
+//     { "t": "pair_response", "nonce": string, "key": string, "proof": string }
+//     nonce: random client nonce
+//     key: the client's ephemeral ECDH P-256 public key, base64 raw point
+//     proof: hex HMAC-SHA256(key = PIN or device secret,
+//       data = "mydeviceai-pair:<binding>"), where binding is
+//       hex HMAC-SHA256(key = ECDH shared secret, data =
+//       "mydeviceai-bind:<challenge nonce>:<client nonce>:<challenge key>:<client key>")
+//     Clients older than 1.22.0 cannot answer without "key": their
+//     version_negotiate gets an incompatible version_ack ("client_too_old"), and
+//     a response without "key" is refused with an "error" (code
+//     "invalid_request"). A rejected device proof falls back to a "pin" challenge.
+//
+// - "approval_pending": Server -> Client, PIN accepted; waiting for the desktop user
+//     { "t": "approval_pending" }
+//     Denying the device ends pairing with an "error" (code "device_denied" or
+//     "device_blocked") and a disconnect.
+//
+// - "pair_result": Server -> Client
+//     { "t": "pair_result", "ok": boolean, "attemptsLeft"?: number, "deviceSecret"?: string }
+//     deviceSecret: sent once when a device is approved; the client keeps it to
+//       answer "device" challenges on later connections
+//     After too many wrong answers the server sends an "error" (code "pairing_failed")
+//     and disconnects. The PIN is single-use and rotates after a successful pairing.
+//     Wrong PINs are also counted across all phones: after 5 the PIN rotates and
+//     PIN answers are refused for a while (30 seconds, doubling with each lockout
+//     in a row up to 15 minutes) with an "error" (code "pairing_locked",
+//     "retryAfter": seconds) and a disconnect (protocol >= 1.21.0).
+//     Revoking or blocking a connected device from the Devices screen sends an
+//     "error" (code "device_revoked" or "device_blocked") and disconnects it.
+//
+// - "version_negotiate": Client -> Server, sent after hello to negotiate protocol compatibility
+//     { "t": "version_negotiate", "protocolVersion": string, "minCompatibleVersion": string,
+//       "coalesce"?: { "intervalMs": number, "maxChars"?: number } }
+//     protocolVersion: current protocol version (e.g., "1.0.0")
+//     minCompatibleVersion: oldest version this client can work with (e.g., "1.0.0")
+//     coalesce: ask for "token" / "reasoning_token" text to be batched (protocol >= 1.9.0);
+//       buffered text is sent every intervalMs (max 1000) or once it reaches maxChars
+//       (default 256, max 4096), and always before "tool_call", "end", "error" and
+//       "cancelled". Omit or send intervalMs 0 for one frame per token.
+//
+// - "version_ack": Server -> Client, response to version_negotiate
+//     { "t": "version_ack", "compatible": boolean, "protocolVersion": string,
+//       "minCompatibleVersion": string, "reason"?: string, "message"?: string,
+//       "coalesce"?: { "intervalMs": number, "maxChars": number } }
+//     compatible: true if the client and server version ranges overlap
+//     protocolVersion: the negotiated session version when compatible, otherwise
+//       the newest version the server supports
+//     minCompatibleVersion: the oldest version the server supports
+//     reason: machine-readable code when incompatible, one of
+//       "invalid_version" | "invalid_range" | "client_too_old" | "client_too_new"
+//     message: human-readable explanation when incompatible
+//     coalesce: the batching window in effect, after clamping; absent when tokens
+//       are sent one per frame
+//
+// - "prompt": Client -> Server, request to generate completion
+//     { "t": "prompt", "id": string, "messages": Array<{role: string, content: string}>, "max_tokens"?: number,
+//       "temperature"?: number, "top_p"?: number, "top_k"?: number, "stop"?: string | string[],
+//       "seed"?: number, "repeat_penalty"?: number, "min_p"?: number,
+//       "tools"?: Array<{type: "function", function: {name, description?, parameters?}}>,
+//       "tool_choice"?: "auto" | "none" | "required" | {type: "function", function: {name}} }
+//     messages: OpenAI-compatible format with roles (system, user, assistant, tool)
+//     Example: [{"role": "system", "content": "You are helpful"}, {"role": "user", "content": "Hello"}]
+//     Content may also be an array of parts (protocol >= 1.8.0, vision models only):
+//       [{"type": "text", "text": string}, {"type": "image_url", "image_url": {"url": string}}]
+//       url: "attachment:<id>" for an image sent as a binary attachment frame
+//       (see src/attachments.ts), or an inline "data:image/...;base64," URL.
+//       Attachments are used up by the prompt that references them.
+//     Tool calling (protocol >= 1.7.0): "tools" and "tool_choice" are passed
+//     through to llama-server (started with --jinja). The phone runs the tools:
+//     it replays the assistant turn as {"role": "assistant", "content": null,
+//     "tool_calls": [{id, type: "function", function: {name, arguments}}]} and
+//     answers each call with {"role": "tool", "tool_call_id": string, "content": string}.
+//     Sampling fields are optional overrides of the active model's params set in
+//     Manage Models; they are clamped to the same ranges as the desktop settings.
+//     Sessions (protocol >= 1.13.0): with "session_id": string the desktop keeps
+//     the conversation and "messages" holds only the new turn(s); the reply is
+//     appended once it ends (cancelled or failed prompts leave the history as it
+//     was). Send "session_new": true with the full history to start or restart a
+//     session. Errors carry code "session_not_found" (unknown, expired after 30
+//     idle minutes, evicted or closed: restart it), "session_busy" (one prompt per
+//     session at a time), "session_full" (size cap reached) or "session_limit".
+//     Constrained output (protocol >= 1.16.0): "response_format" is
+//     {"type": "json_object"} or {"type": "json_schema", "json_schema":
+//     {"name"?: string, "schema": object}}; "grammar" is a raw GBNF string. Both
+//     are forwarded to llama-server, one at a time and not with "tools". JSON
+//     replies are validated on the desktop before "end"; a reply that is not
+//     valid JSON or breaks the schema ends with an "error" (code
+//     "schema_violation") carrying "violations": [{"path", "message"}] (at
+//     most 16, paths like "$.tasks[0].due") plus finishReason and stats.
+//     The streamed tokens are the raw reply.
+//     Context overflow (protocol >= 1.19.0): a chat (with session history) that
+//     does not fit the context window minus max_tokens is shortened with the
+//     strategy set for the model in Manage Models: drop the oldest turns but
+//     keep the system prompt, a sliding window, or a summary of the oldest
+//     turns written by the model. The newest turn is always kept, and a
+//     session's stored history is shortened the same way. With strategy "none",
+//     or when the newest turn alone is too long, the prompt ends with an
+//     "error" (code "context_overflow").
+//
+// - "complete": Client -> Server, raw text completion (protocol >= 1.17.0)
+//     { "t": "complete", "id": string, "prompt": string, "suffix"?: string,
+//       plus the same sampling fields as "prompt" }
+//     The prompt is sent as-is, without a chat template, to llama-server's
+//     /completion; with a suffix it goes to /infill and the model fills in the
+//     text between prompt and suffix (needs a model with FIM tokens). Output
+//     streams as "queued", "start", "token" and "end" frames like a prompt and
+//     can be cancelled and resumed the same way; limits and budgets apply.
+//     finishReason is "stop" or "length".
+//
+// - "session_close": Client -> Server, forget a session (protocol >= 1.13.0)
+//     { "t": "session_close", "session_id": string }
+//     Answered with { "t": "session_closed", "session_id": string, "found": boolean }
+//
+// - "embed": Client -> Server, embedding vectors for text (protocol >= 1.15.0)
+//     { "t": "embed", "id": string, "input": string | string[] }
+//     Served by the embedding model chosen in Manage Models, on a separate
+//     llama-server. Up to 64 inputs of at most 32768 characters each. Counts
+//     against the device's rate limits and daily prompt token budget.
+//     Errors carry code "embedding_unavailable" (no embedding model chosen) or
+//     "embedding_failed".
+//
+// - "embedding": Server -> Client, response to embed
+//     { "t": "embedding", "id": string, "model": string, "dimensions": number,
+//       "embeddings": number[][], "promptTokens"?: number }
+//     embeddings: one vector per input, in input order
+//
+// - "cancel": Client -> Server, abort an in-flight prompt
+//     { "t": "cancel", "id": string }
+//     id: the id of the prompt to cancel; the server answers with a final "cancelled"
+//
+// - "get_model": Client -> Server, request to get current active model information
+//     { "t": "get_model" }
+//
+// - "model_info": Server -> Client, response with current model information
+//     { "t": "model_info", "id": string, "displayName": string, "installed": boolean,
+//       "vision": boolean, "contextWindow": number, "maxTokens": number }
+//     vision: the model accepts image content parts (protocol >= 1.8.0)
+//     contextWindow / maxTokens: the model's context size and default reply
+//       limit from Manage Models (protocol >= 1.18.0)
+//
+// - "count_tokens": Client -> Server, size of a chat in the active model's
+//     tokens (protocol >= 1.18.0)
+//     { "t": "count_tokens", "id": string, "messages": [...] }
+//     Counts the messages after the chat template is applied, as a "prompt" with
+//     them would; tool definitions and image parts are not counted (messages
+//     with images are refused). Answered with
+//     { "t": "token_count", "id": string, "tokens": number,
+//       "contextWindow": number, "maxTokens": number }
+//
+// - "tokenize" / "detokenize": Client -> Server, the active model's tokenizer
+//     (protocol >= 1.18.0)
+//     { "t": "tokenize", "id": string, "content": string, "add_special"?: boolean,
+//       "with_pieces"?: boolean }
+//       -> { "t": "tokenized", "id": string, "tokens": number[],
+//            "pieces"?: Array<string | number[]> }
+//       pieces: with with_pieces, the text of each token; bytes of a token that
+//         is not valid UTF-8 on its own come as an array of numbers
+//     { "t": "detokenize", "id": string, "tokens": number[] }
+//       -> { "t": "detokenized", "id": string, "content": string }
+//     These requests count against the device's rate limits and are refused
+//     once its daily token budget is used up, but their tokens are not charged.
+//
+// - "list_models": Client -> Server, list the desktop's models (protocol >= 1.11.0)
+//     { "t": "list_models", "id"?: string }
+//     Needs the "Allow listing and switching models" permission for the device
+//     on the Devices screen; otherwise an "error" with code "permission_denied".
+//     id: optional, echoed in the reply and in errors
+//
+// - "model_list": Server -> Client, response to list_models
+//     { "t": "model_list", "id": string, "activeModelId": string | null,
+//       "models": Array<{ "id": string, "displayName": string, "installed": boolean,
+//         "active": boolean, "vision": boolean, "sizeBytes"?: number,
+//         "quantization"?: string }> }
+//
+// - "set_model": Client -> Server, switch the active model (protocol >= 1.11.0)
+//     { "t": "set_model", "id"?: string, "modelId": string }
+//     Same permission as list_models. llama-server restarts with the new model;
+//     progress is reported with "model_loading". Errors carry code
+//     "model_not_found" (unknown or not installed), "model_busy" (prompts are
+//     running or another switch is in progress) or "model_switch_failed".
+//
+// - "model_changed": Server -> Client, sent to every paired peer whenever the
+//     active model changes, from the desktop UI or a peer (protocol >= 1.11.0)
+//     { "t": "model_changed", "id": string, "displayName": string,
+//       "installed": boolean, "vision": boolean }
+//
+// - "model_loading": Server -> Client, sent to every paired peer while
+//     llama-server restarts for a set_model (protocol >= 1.11.0)
+//     { "t": "model_loading", "modelId": string,
+//       "stage": "starting" | "loading" | "ready" | "failed",
+//       "elapsedMs"?: number, "message"?: string }
+//     "loading" repeats about once a second until "ready" or "failed".
+//     Prompts sent before "ready" may fail while the model loads.
+//
+// - "download_model": Client -> Server, ask the desktop to download a GGUF from
+//     Hugging Face (protocol >= 1.12.0)
+//     { "t": "download_model", "id"?: string, "repoId": string, "fileName": string,
+//       "mmprojFileName"?: string }
+//     The request is checked against the download limits in Settings and then
+//     shown to the desktop user, who downloads or denies it. One request per
+//     device may await approval at a time. Errors carry code "download_too_large",
+//     "insufficient_disk_space", "already_installed", "model_not_found",
+//     "download_in_progress", "download_denied" or "download_failed".
+//
+// - "download_pending": Server -> Client, waiting for the desktop user
+//     { "t": "download_pending", "id": string, "modelId": string, "sizeBytes"?: number }
+//     modelId: "repoId/fileName", used by cancel_download and later frames
+//
+// - "download_progress": Server -> Client, after approval
+//     { "t": "download_progress", "id": string, "modelId": string,
+//       "stage": "started" | "downloading" | "complete",
+//       "receivedBytes"?: number, "totalBytes"?: number }
+//     "downloading" is sent about once a second; "complete" is final and the
+//     model then appears in list_models. A vision projector is downloaded after
+//     the model, so byte counts restart once.
+//
+// - "cancel_download": Client -> Server, withdraw a request or stop its download
+//     { "t": "cancel_download", "id"?: string, "modelId": string }
+//     Answered with "download_cancelled" { "t", "id", "modelId" }, or an "error"
+//     with code "download_not_found". Downloads keep running if the phone
+//     disconnects.
+//
+// Binary frames: Client -> Server, image attachments (protocol >= 1.8.0)
+//     First byte 0xA1 (plaintext) or 0xA2 (sealed on encrypted sessions); layout
+//     in src/attachments.ts. Accepted only after pairing; a rejected attachment
+//     is reported as an "error" with id "" and code "attachment_rejected".
+//
+// Streaming response from Server -> Client:
+// - "queued": while a prompt waits for a free generation slot (protocol >= 1.5.0)
+//     { "t": "queued", "id": string, "position": number }
+//     position: prompts that will start before this one (0 = next); re-sent
+//     whenever it changes. Peers are served round-robin, so a busy peer's
+//     later prompts wait behind other peers' first prompts.
+// - "start": once per prompt before any tokens, when generation begins
+//     { "t": "start", "id": string }
+// - "token": many per prompt, content tokens
+//     { "t": "token", "id": string, "tok": string }
+// - "reasoning_token": reasoning/thinking tokens (optional)
+//     { "t": "reasoning_token", "id": string, "tok": string }
+// - "tool_call": streamed pieces of a tool call requested by the model (protocol >= 1.7.0)
+//     { "t": "tool_call", "id": string, "index": number, "callId"?: string,
+//       "name"?: string, "arguments"?: string }
+//     index: which call in the assistant turn this piece belongs to
+//     callId/name: sent with the first piece of each call
+//     arguments: JSON text fragment; concatenate all pieces for the same index
+// - "end": final success
+//     { "t": "end", "id": string, "finishReason"?: string, "stats"?: {
+//         "prompt_tokens"?: number, "completion_tokens"?: number, "prompt_ms"?: number,
+//         "predicted_per_second"?: number, "finish_reason"?: string } }
+//     finishReason: llama-server's finish_reason, e.g. "stop", "length" or
+//       "tool_calls" (protocol >= 1.7.0)
+//     stats: token counts and speed from llama-server's final usage / timings
+//       (protocol >= 1.10.0); fields are omitted when llama-server did not report
+//       them. finish_reason "length" means the reply was cut off by max_tokens.
+//     truncation: present when the chat was shortened to fit (protocol >= 1.19.0)
+//       { "strategy": "drop_oldest" | "sliding_window" | "summarize",
+//         "removedMessages": number, "originalTokens": number, "promptTokens": number }
+//       A summary that failed falls back to "drop_oldest".
+// - "error": final failure
+//     { "t": "error", "id": string, "message": string, "code"?: string }
+//     code: machine-readable cause when known, e.g. "version_not_negotiated"
+//     For "rate_limited" and "quota_exceeded" the frame also carries
+//       "limit": "requests_per_minute" | "concurrent_requests" |
+//                "daily_prompt_tokens" | "daily_completion_tokens"
+//       "retryAfter": seconds until the request may succeed (daily budgets
+//                     reset at the desktop's local midnight)
+// - "cancelled": final frame after a "cancel" from the client
+//     { "t": "cancelled", "id": string }
+//
+// In-flight prompts are also aborted when the peer disconnects, except on
+// sessions at protocol >= 1.14.0: their generation continues and output is
+// buffered for 60 seconds after the disconnect (or after the prompt ends,
+// whichever is later), so the phone can reconnect as the same device and resume.
+//
+// - "resume": Client -> Server, continue a prompt's output after reconnecting
+//     { "t": "resume", "id": string, "fromOffset": number }
+//     fromOffset: how many frames for this id the phone already has, counting
+//       every frame except "queued" ("start" is offset 0)
+//     Answered with { "t": "resumed", "id": string, "fromOffset": number }, then
+//     the missing frames and the rest of the stream; "cancel" now applies to
+//     the new connection. Otherwise an "error" with code "resume_unavailable".
+//
+// Frames of unknown types are ignored but logged, so newer phones can still
+// talk to older desktops. Frames of known types are checked against the schemas
+// in src/protocol/validation.ts first; a malformed one is answered with an
+// "error" (code "invalid_request", with the frame's id when it has one) and not
+// handled.
+
+import type { ContextTruncation } from '../contextManager';
+import type { ResponseFormat, SchemaViolation } from '../structuredOutput';
+import type { CoalesceWindow } from '../tokenCoalescer';
+import type { ChatMessage, ToolChoice, ToolDefinition } from '../toolCalling';
+import type { ProtocolErrorCode } from './errors';
+
+// "pin" for unknown devices, "device" for trusted devices holding a device secret.
+export type PairingMethod = 'pin' | 'device';
+
+export type CompletionStats = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_ms?: number;
+  predicted_per_second?: number;
+  finish_reason?: string;
+};
+
+// Per-request sampling overrides shared by "prompt" and "complete".
+export type SamplingFields = {
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop?: string | string[];
+  seed?: number;
+  repeat_penalty?: number;
+  min_p?: number;
+};
+
+export type HelloMessage = {
+  t: 'hello';
+  clientId?: string;
+  impl?: string;
+  version?: string;
+  deviceId?: string;
+  deviceName?: string;
+  encryption?: string[];
+};
+
+export type EncryptedFrameMessage = { t: 'enc'; seq: number; ct: string };
+
+export type PromptMessage = SamplingFields & {
+  t: 'prompt';
+  id: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  tool_choice?: ToolChoice;
+  session_id?: string;
+  session_new?: boolean;
+  response_format?: ResponseFormat;
+  grammar?: string;
+};
+
+export type CompleteMessage = SamplingFields & {
+  t: 'complete';
+  id: string;
+  prompt: string;
+  suffix?: string;
+};
+
+export type ClientMessage =
+  | HelloMessage
+  | EncryptedFrameMessage
+  | { t: 'pair_response'; nonce: string; key: string; proof: string }
+  | {
+      t: 'version_negotiate';
+      protocolVersion?: string;
+      minCompatibleVersion?: string;
+      coalesce?: { intervalMs: number; maxChars?: number };
+    }
+  | PromptMessage
+  | CompleteMessage
+  | { t: 'session_close'; session_id: string }
+  | { t: 'cancel'; id: string }
+  | { t: 'resume'; id: string; fromOffset: number }
+  | { t: 'embed'; id: string; input: string | string[] }
+  | { t: 'get_model' }
+  | { t: 'count_tokens'; id: string; messages: ChatMessage[] }
+  | { t: 'tokenize'; id: string; content: string; add_special?: boolean; with_pieces?: boolean }
+  | { t: 'detokenize'; id: string; tokens: number[] }
+  | { t: 'list_models'; id?: string }
+  | { t: 'set_model'; id?: string; modelId: string }
+  | { t: 'download_model'; id?: string; repoId: string; fileName: string; mmprojFileName?: string }
+  | { t: 'cancel_download'; id?: string; modelId: string };
+
+export type ClientMessageType = ClientMessage['t'];
+
+export type ClientMessageOf<T extends ClientMessageType> = Extract<ClientMessage, { t: T }>;
+
+export type ErrorMessage = {
+  t: 'error';
+  // The request's id, or "" for errors about the connection.
+  id: string;
+  message: string;
+  code?: ProtocolErrorCode;
+  // rate_limited / quota_exceeded (limit and retryAfter), pairing_locked
+  limit?: string;
+  retryAfter?: number;
+  // schema_violation
+  violations?: SchemaViolation[];
+  finishReason?: string;
+  stats?: CompletionStats;
+};
+
+export type ServerMessage =
+  | (HelloMessage & { clientId: string; impl: string; version: string })
+  | { t: 'pair_challenge'; nonce: string; method: PairingMethod; key: string; encryption?: string }
+  | { t: 'approval_pending' }
+  | { t: 'pair_result'; ok: boolean; attemptsLeft?: number; deviceSecret?: string }
+  | {
+      t: 'version_ack';
+      compatible: boolean;
+      protocolVersion: string;
+      minCompatibleVersion: string;
+      reason?: string;
+      message?: string;
+      coalesce?: CoalesceWindow;
+    }
+  | { t: 'session_closed'; session_id: string; found: boolean }
+  | {
+      t: 'embedding';
+      id: string;
+      model: string;
+      dimensions: number;
+      embeddings: number[][];
+      promptTokens?: number;
+    }
+  | { t: 'resumed'; id: string; fromOffset: number }
+  | {
+      t: 'model_info';
+      id: string;
+      displayName: string;
+      installed: boolean;
+      vision: boolean;
+      contextWindow?: number;
+      maxTokens?: number;
+    }
+  | { t: 'token_count'; id: string; tokens: number; contextWindow?: number; maxTokens?: number }
+  | { t: 'tokenized'; id: string; tokens: number[]; pieces?: Array<string | number[]> }
+  | { t: 'detokenized'; id: string; content: string }
+  | {
+      t: 'model_list';
+      id: string;
+      activeModelId: string | null;
+      models: Array<{
+        id: string;
+        displayName: string;
+        installed: boolean;
+        active: boolean;
+        vision: boolean;
+        sizeBytes?: number;
+        quantization?: string;
+      }>;
+    }
+  | { t: 'model_changed'; id: string; displayName: string; installed: boolean; vision: boolean }
+  | { t: 'download_pending'; id: string; modelId: string; sizeBytes?: number }
+  | {
+      t: 'download_progress';
+      id: string;
+      modelId: string;
+      stage: 'started' | 'downloading' | 'complete';
+      receivedBytes?: number;
+      totalBytes?: number;
+    }
+  | { t: 'download_cancelled'; id: string; modelId: string }
+  | {
+      t: 'model_loading';
+      modelId: string;
+      stage: 'starting' | 'loading' | 'ready' | 'failed';
+      elapsedMs?: number;
+      message?: string;
+    }
+  | { t: 'queued'; id: string; position: number }
+  | { t: 'start'; id: string }
+  | { t: 'token'; id: string; tok: string }
+  | { t: 'reasoning_token'; id: string; tok: string }
+  | {
+      t: 'tool_call';
+      id: string;
+      index: number;
+      callId?: string;
+      name?: string;
+      arguments?: string;
+    }
+  | {
+      t: 'end';
+      id: string;
+      finishReason?: string;
+      stats?: CompletionStats;
+      truncation?: ContextTruncation;
+    }
+  | ErrorMessage
+  | { t: 'cancelled'; id: string };
+
+export type ServerMessageType = ServerMessage['t'];
+
+export type ServerMessageOf<T extends ServerMessageType> = Extract<ServerMessage, { t: T }>;
@@ -0,0 +1,174 @@
+// src/protocol/validation.ts
+// Runtime checks for frames sent by phones.
+//
+// Every inbound type in ClientMessage has a schema of its fields. The schemas
+// check presence and JSON types only; values (ranges, chat messages, tool
+// definitions, session ids...) are still checked by the handlers with the
+// normalizers of each feature, which know the limits and give the more precise
+// messages. Extra fields are allowed so newer phones keep working, and null
+// counts as absent for optional fields.
+
+import type { ClientMessage, ClientMessageType } from './messages';
+
+export type RawFrame = { t: string; [field: string]: unknown };
+
+export type ClientMessageCheck =
+  | { ok: true; msg: ClientMessage }
+  | { ok: false; id: string; message: string };
+
+type FieldCheck = {
+  // For the error message: "<field> must be <expected>".
+  expected: string;
+  test: (value: unknown) => boolean;
+  optional: boolean;
+};
+
+function field(expected: string, test: (value: unknown) => boolean): FieldCheck {
+  return { expected, test, optional: false };
+}
+
+function optional(check: FieldCheck): FieldCheck {
+  return { ...check, optional: true };
+}
+
+function isPlainObject(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+const STRING = field('a string', (v) => typeof v === 'string');
+const REQUEST_ID = field('a non-empty string', (v) => typeof v === 'string' && v.length > 0);
+const NUMBER = field('a number', (v) => typeof v === 'number' && isFinite(v));
+const BOOLEAN = field('a boolean', (v) => typeof v === 'boolean');
+const ARRAY = field('an array', (v) => Array.isArray(v));
+const OBJECT = field('an object', isPlainObject);
+const STRING_ARRAY = field('an array of strings', isStringArray);
+const STRING_OR_ARRAY = field('a string or an array', (v) => typeof v === 'string' || Array.isArray(v));
+const STRING_OR_STRINGS = field(
+  'a string or an array of strings',
+  (v) => typeof v === 'string' || isStringArray(v),
+);
+const STRING_OR_OBJECT = field(
+  'a string or an object',
+  (v) => typeof v === 'string' || isPlainObject(v),
+);
+
+const SAMPLING_FIELDS: Record<string, FieldCheck> = {
+  max_tokens: optional(NUMBER),
+  temperature: optional(NUMBER),
+  top_p: optional(NUMBER),
+  top_k: optional(NUMBER),
+  stop: optional(STRING_OR_STRINGS),
+  seed: optional(NUMBER),
+  repeat_penalty: optional(NUMBER),
+  min_p: optional(NUMBER),
+};
+
+const CLIENT_MESSAGE_SCHEMAS: { [T in ClientMessageType]: Record<string, FieldCheck> } = {
+  hello: {
+    clientId: optional(STRING),
+    impl: optional(STRING),
+    version: optional(STRING),
+    deviceId: optional(STRING),
+    deviceName: optional(STRING),
+    encryption: optional(STRING_ARRAY),
+  },
+  enc: { seq: NUMBER, ct: STRING },
+  pair_response: { nonce: STRING, key: STRING, proof: STRING },
+  // Version strings are checked by negotiateProtocolVersion, which answers
+  // with an incompatible version_ack rather than an error.
+  version_negotiate: {
+    protocolVersion: optional(STRING),
+    minCompatibleVersion: optional(STRING),
+    coalesce: optional(OBJECT),
+  },
+  prompt: {
+    id: REQUEST_ID,
+    messages: ARRAY,
+    ...SAMPLING_FIELDS,
+    tools: optional(ARRAY),
+    tool_choice: optional(STRING_OR_OBJECT),
+    session_id: optional(STRING),
+    session_new: optional(BOOLEAN),
+    response_format: optional(OBJECT),
+    grammar: optional(STRING),
+  },
+  complete: { id: REQUEST_ID, prompt: STRING, suffix: optional(STRING), ...SAMPLING_FIELDS },
+  session_close: { session_id: STRING },
+  cancel: { id: REQUEST_ID },
+  resume: { id: REQUEST_ID, fromOffset: NUMBER },
+  embed: { id: REQUEST_ID, input: STRING_OR_ARRAY },
+  get_model: {},
+  count_tokens: { id: REQUEST_ID, messages: ARRAY },
+  tokenize: {
+    id: REQUEST_ID,
+    content: STRING,
+    add_special: optional(BOOLEAN),
+    with_pieces: optional(BOOLEAN),
+  },
+  detokenize: { id: REQUEST_ID, tokens: ARRAY },
+  list_models: { id: optional(STRING) },
+  set_model: { id: optional(STRING), modelId: STRING },
+  download_model: {
+    id: optional(STRING),
+    repoId: STRING,
+    fileName: STRING,
+    mmprojFileName: optional(STRING),
+  },
+  cancel_download: { id: optional(STRING), modelId: STRING },
+};
+
+export function isClientMessageType(t: string): t is ClientMessageType {
+  return Object.prototype.hasOwnProperty.call(CLIENT_MESSAGE_SCHEMAS, t);
+}
+
+/**
+ * Parse a text frame into a RawFrame: a JSON object with a string "t".
+ * Returns null for anything else.
+ */
+export function parseRawFrame(text: string): RawFrame | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isPlainObject(value) || typeof (value as RawFrame).t !== 'string') {
+    return null;
+  }
+  return value as RawFrame;
+}
+
+/**
+ * Check a frame of a known type (see isClientMessageType) against its schema.
+ * Failures carry the frame's id when it has a string one, so the phone can
+ * match the error to its request.
+ */
+export function validateClientMessage(raw: RawFrame & { t: ClientMessageType }): ClientMessageCheck {
+  const schema = CLIENT_MESSAGE_SCHEMAS[raw.t];
+  for (const name of Object.keys(schema)) {
+    const check = schema[name];
+    const value = raw[name];
+    if (value === undefined || value === null) {
+      if (check.optional) continue;
+      return invalid(raw, `${raw.t} requires ${name}`);
+    }
+    if (!check.test(value)) {
+      return invalid(raw, `${raw.t}.${name} must be ${check.expected}`);
+    }
+  }
+
+  // Optional fields sent as null are dropped, so handlers only see undefined.
+  const msg: RawFrame = { ...raw };
+  Object.keys(schema).forEach((name) => {
+    if (msg[name] === null) delete msg[name];
+  });
+  return { ok: true, msg: msg as ClientMessage };
+}
+
+function invalid(raw: RawFrame, message: string): ClientMessageCheck {
+  return { ok: false, id: typeof raw.id === 'string' ? raw.id : '', message };
+}
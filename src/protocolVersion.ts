@@ -0,0 +1,162 @@
+// src/protocolVersion.ts
+// P2P protocol version negotiation (renderer side).
+//
+// The desktop supports every protocol version in
+// [MIN_COMPATIBLE_PROTOCOL_VERSION, PROTOCOL_VERSION]. A client advertises the
+// same kind of range in "version_negotiate" (protocolVersion is its newest
+// version, minCompatibleVersion its oldest). The two sides are compatible when
+// the ranges overlap, and the session then runs at the highest common version.
+//
+// Version history:
+// - 1.0.0: hello, version_negotiate, prompt, get_model, streaming frames
+// - 1.1.0: cancel / cancelled, per-request sampling overrides on prompt
+// - 1.2.0: PIN pairing (pair_challenge / pair_response / pair_result), required
+//          before prompt and get_model, so older clients are no longer compatible
+// - 1.3.0: deviceId / deviceName in hello (required), trusted-device challenges
+//          (pair_challenge.method), approval_pending, pair_result.deviceSecret
+// - 1.4.0: optional end-to-end encryption ("encryption" in hello and
+//          pair_challenge, "enc" envelopes)
+// - 1.5.0: "queued" frames with the prompt's place in the desktop scheduler
+// - 1.6.0: per-device rate limits and daily token budgets; "error" frames with
+//          code "rate_limited" / "quota_exceeded" carry limit and retryAfter
+// - 1.7.0: tool calling: "tools" / "tool_choice" and tool-role messages on
+//          prompt, "tool_call" frames, end.finishReason
+// - 1.8.0: image attachments (binary frames) and image_url content parts,
+//          model_info.vision
+// - 1.9.0: token coalescing window ("coalesce") in version_negotiate / version_ack
+// - 1.10.0: end.stats (token counts, prompt time, generation speed, finish reason)
+// - 1.11.0: list_models / set_model (per-device permission), model_changed and
+//           model_loading broadcasts
+// - 1.12.0: download_model / cancel_download with desktop approval,
+//           download_pending, download_progress, download_cancelled
+// - 1.13.0: server-side sessions (prompt.session_id / session_new, session_close)
+// - 1.14.0: prompts survive disconnects for a grace period; resume / resumed
+// - 1.15.0: embed / embedding from a dedicated embedding model
+// - 1.16.0: prompt.response_format / grammar, "schema_violation" errors
+// - 1.17.0: complete (raw text completion, fill-in-the-middle with suffix)
+// - 1.18.0: count_tokens / tokenize / detokenize, model_info.contextWindow / maxTokens
+// - 1.19.0: context overflow strategies, end.truncation, context_overflow errors
+// - 1.20.0: inbound frames validated by type; "invalid_request" errors for
+//           malformed frames and bad request fields
+// - 1.21.0: "pairing_locked" errors after too many wrong PINs from any phone
+// - 1.22.0: ECDH key exchange in pair_challenge / pair_response ("key",
+//           required); the pairing proof and encryption keys are bound to it,
+//           so older clients can no longer pair and are no longer compatible
+
+export const PROTOCOL_VERSION = '1.22.0';
+export const MIN_COMPATIBLE_PROTOCOL_VERSION = '1.22.0';
+
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+};
+
+export type VersionIncompatibility =
+  | 'invalid_version'
+  | 'invalid_range'
+  | 'client_too_old'
+  | 'client_too_new';
+
+export type VersionNegotiationResult =
+  | { compatible: true; protocolVersion: string }
+  | {
+      compatible: false;
+      protocolVersion: string;
+      reason: VersionIncompatibility;
+      message: string;
+    };
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:[-+][0-9A-Za-z.+-]*)?$/;
+
+/**
+ * Parse "MAJOR.MINOR.PATCH". Pre-release and build suffixes are accepted but
+ * ignored, so "1.2.0-beta" negotiates like "1.2.0".
+ */
+export function parseSemver(value: unknown): SemVer | null {
+  if (typeof value !== 'string') return null;
+  const match = SEMVER_PATTERN.exec(value.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+  };
+}
+
+export function formatSemver(v: SemVer): string {
+  return `${v.major}.${v.minor}.${v.patch}`;
+}
+
+export function compareSemver(a: SemVer, b: SemVer): number {
+  if (a.major !== b.major) return a.major - b.major;
+  if (a.minor !== b.minor) return a.minor - b.minor;
+  return a.patch - b.patch;
+}
+
+/**
+ * True when a negotiated session version includes a feature introduced in
+ * `minVersion`. Used to avoid sending frames an older client cannot parse.
+ */
+export function isProtocolAtLeast(version: string | null, minVersion: string): boolean {
+  const a = parseSemver(version);
+  const b = parseSemver(minVersion);
+  if (!a || !b) return false;
+  return compareSemver(a, b) >= 0;
+}
+
+/**
+ * Compare a client's supported range against the desktop's.
+ * A missing minCompatibleVersion is treated as "only protocolVersion".
+ */
+export function negotiateProtocolVersion(
+  clientVersion: unknown,
+  clientMinVersion: unknown,
+): VersionNegotiationResult {
+  const desktopMax = parseSemver(PROTOCOL_VERSION) as SemVer;
+  const desktopMin = parseSemver(MIN_COMPATIBLE_PROTOCOL_VERSION) as SemVer;
+
+  const clientMax = parseSemver(clientVersion);
+  const clientMin =
+    clientMinVersion === undefined ? clientMax : parseSemver(clientMinVersion);
+
+  if (!clientMax || !clientMin) {
+    return {
+      compatible: false,
+      protocolVersion: PROTOCOL_VERSION,
+      reason: 'invalid_version',
+      message: 'protocolVersion and minCompatibleVersion must be MAJOR.MINOR.PATCH strings',
+    };
+  }
+
+  if (compareSemver(clientMin, clientMax) > 0) {
+    return {
+      compatible: false,
+      protocolVersion: PROTOCOL_VERSION,
+      reason: 'invalid_range',
+      message: `minCompatibleVersion ${formatSemver(clientMin)} is newer than protocolVersion ${formatSemver(clientMax)}`,
+    };
+  }
+
+  if (compareSemver(clientMax, desktopMin) < 0) {
+    return {
+      compatible: false,
+      protocolVersion: PROTOCOL_VERSION,
+      reason: 'client_too_old',
+      message: `Client protocol ${formatSemver(clientMax)} is older than the oldest supported version ${MIN_COMPATIBLE_PROTOCOL_VERSION}; please update the app`,
+    };
+  }
+
+  if (compareSemver(clientMin, desktopMax) > 0) {
+    return {
+      compatible: false,
+      protocolVersion: PROTOCOL_VERSION,
+      reason: 'client_too_new',
+      message: `Client requires protocol ${formatSemver(clientMin)} or newer, but this desktop supports up to ${PROTOCOL_VERSION}; please update MyDeviceAI Desktop`,
+    };
+  }
+
+  const negotiated =
+    compareSemver(clientMax, desktopMax) < 0 ? clientMax : desktopMax;
+  return { compatible: true, protocolVersion: formatSemver(negotiated) };
+}
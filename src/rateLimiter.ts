@@ -0,0 +1,78 @@
+// src/rateLimiter.ts
+// Per-device request rate and concurrency limits (renderer side).
+//
+// Keys are deviceIds, so reconnecting does not reset a device's window. Daily
+// token budgets are persisted in the main process instead (src/usageStore.ts).
+
+const RATE_WINDOW_MS = 60 * 1000;
+// Suggested wait when a device is at its concurrency limit; the exact time
+// depends on when its running prompts finish.
+const CONCURRENCY_RETRY_AFTER_S = 5;
+
+export type RateLimits = {
+  // 0 means unlimited.
+  requestsPerMinute: number;
+  maxConcurrentPerPeer: number;
+};
+
+export type RateLimitResult =
+  | { ok: true; release: () => void }
+  | {
+      ok: false;
+      limit: 'requests_per_minute' | 'concurrent_requests';
+      // Seconds until a retry may succeed.
+      retryAfter: number;
+    };
+
+export class RateLimiter {
+  private readonly recent = new Map<string, number[]>();
+  private readonly active = new Map<string, number>();
+
+  /**
+   * Count a new request against `key`. On success the caller must call
+   * `release` when the request finishes.
+   */
+  tryAcquire(key: string, limits: RateLimits, now = Date.now()): RateLimitResult {
+    const windowStart = now - RATE_WINDOW_MS;
+    const timestamps = (this.recent.get(key) || []).filter((t) => t > windowStart);
+
+    if (limits.requestsPerMinute > 0 && timestamps.length >= limits.requestsPerMinute) {
+      this.recent.set(key, timestamps);
+      const oldest = timestamps[0] as number;
+      return {
+        ok: false,
+        limit: 'requests_per_minute',
+        retryAfter: Math.max(1, Math.ceil((oldest + RATE_WINDOW_MS - now) / 1000)),
+      };
+    }
+
+    const running = this.active.get(key) || 0;
+    if (limits.maxConcurrentPerPeer > 0 && running >= limits.maxConcurrentPerPeer) {
+      this.recent.set(key, timestamps);
+      return {
+        ok: false,
+        limit: 'concurrent_requests',
+        retryAfter: CONCURRENCY_RETRY_AFTER_S,
+      };
+    }
+
+    timestamps.push(now);
+    this.recent.set(key, timestamps);
+    this.active.set(key, running + 1);
+
+    let released = false;
+    return {
+      ok: true,
+      release: () => {
+        if (released) return;
+        released = true;
+        const count = (this.active.get(key) || 1) - 1;
+        if (count > 0) {
+          this.active.set(key, count);
+        } else {
+          this.active.delete(key);
+        }
+      },
+    };
+  }
+}
@@ -30,7 +30,114 @@ import './index.css';
 
 import { P2PCF } from './p2pcf/P2PCF';
 import type { Peer } from './p2pcf/types';
+import { generateUUID } from './p2pcf/utils';
 import { ENV } from './Env';
+import { isProtocolAtLeast } from './protocolVersion';
+import type { VersionNegotiationResult } from './protocolVersion';
+import {
+  MAX_PAIRING_ATTEMPTS,
+  checkPairResponse,
+  generatePairingKeyPair,
+  generatePairingNonce,
+  generatePairingPin,
+  verifyPairingProof,
+} from './pairing';
+import type { PairingKeyPair } from './pairing';
+import {
+  deriveDesktopKeys,
+  openBinaryFrame,
+  openFrame,
+  sealFrame,
+  supportsE2E,
+} from './e2e';
+import type { E2EKeys } from './e2e';
+import {
+  AttachmentStore,
+  ENCRYPTED_ATTACHMENT_FRAME_MAGIC,
+  MAX_IMAGES_PER_PROMPT,
+  countImageParts,
+  isBinaryFrame,
+  parseAttachmentFrame,
+  resolveImageParts,
+} from './attachments';
+import { PromptScheduler } from './promptScheduler';
+import { TokenCoalescer } from './tokenCoalescer';
+import type { CoalesceWindow, TokenFrameType } from './tokenCoalescer';
+import { RateLimiter } from './rateLimiter';
+import {
+  ConversationStore,
+  assistantMessage,
+  normalizeSessionId,
+} from './conversationSessions';
+import type { ConversationSession } from './conversationSessions';
+import { RESUME_GRACE_MS, ResumableStream } from './resumableStreams';
+import { normalizeEmbedInput, parseEmbeddingResponse } from './embeddings';
+import { checkStructuredOutput, normalizeGrammar, normalizeResponseFormat } from './structuredOutput';
+import type { ResponseFormat, StructuredOutputCheck } from './structuredOutput';
+import {
+  completionChunkStats,
+  completionEndpoint,
+  completionRequestBody,
+  normalizeCompletionRequest,
+} from './textCompletion';
+import type { CompletionRequest } from './textCompletion';
+import {
+  normalizeTokenIds,
+  normalizeTokenizeRequest,
+  parseTokenizeResponse,
+} from './tokenization';
+import {
+  CONTEXT_STRATEGIES,
+  SUMMARY_MAX_TOKENS,
+  estimateChatTokens,
+  estimateTokens,
+  fitToContext,
+  maxPossibleTokens,
+  normalizeContextStrategy,
+  summaryRequestMessages,
+  withoutImages,
+} from './contextManager';
+import type { ContextFitResult, ContextStrategy, ContextTruncation } from './contextManager';
+import type { RateLimitResult } from './rateLimiter';
+import {
+  answerVersionNegotiate,
+  dispatchClientFrame,
+  endFrame,
+  errorFrame,
+  invalidRequestFrame,
+  pairChallengeFrame,
+  pairingStep,
+  parseRawFrame,
+} from './protocol';
+import type {
+  ClientMessage,
+  ClientMessageHandlers,
+  ClientMessageOf,
+  CompleteMessage,
+  CompletionStats,
+  DispatchResult,
+  PairingMethod,
+  PairingStep,
+  PromptMessage,
+  ProtocolErrorCode,
+  RawFrame,
+  ServerMessage,
+} from './protocol';
+import {
+  extractToolCallDeltas,
+  normalizeChatMessages,
+  normalizeToolChoice,
+  normalizeTools,
+} from './toolCalling';
+import type { ChatMessage, ToolCall, ToolChoice, ToolDefinition } from './toolCalling';
+import {
+  buildReplayPlan,
+  buildRequestTimelines,
+  captureEntry,
+  capturedConnections,
+  parseCapture,
+} from './trafficInspector';
+import type { CaptureEntry, RequestTimeline } from './trafficInspector';
 
 const ROOM_ID_STORAGE_KEY = 'p2pcf_room_id';
 
@@ -121,6 +228,113 @@ function updateRoomIdDisplay(roomId: string): void {
   }
 }
 
+// Unpaired peers are disconnected after this long.
+const PAIRING_TIMEOUT_MS = 2 * 60 * 1000;
+// Wrong PIN answers allowed across all peers before the PIN is replaced and PIN
+// pairing is locked. The lockout doubles with each one in a row, up to the max.
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_BASE_MS = 30 * 1000;
+const PIN_LOCKOUT_MAX_MS = 15 * 60 * 1000;
+// Used until the saved maxConcurrentPrompts setting has loaded.
+const DEFAULT_MAX_CONCURRENT_PROMPTS = 4;
+// Limits on the device identity a peer presents in hello (see src/deviceStore.ts).
+const MAX_DEVICE_ID_LENGTH = 128;
+const MAX_DEVICE_NAME_LENGTH = 64;
+// Remote model switches (set_model) give up if the new model is not loaded by then.
+const MODEL_LOAD_TIMEOUT_MS = 5 * 60 * 1000;
+const MODEL_HEALTH_POLL_MS = 500;
+// Minimum gap between "model_loading" progress frames.
+const MODEL_LOADING_UPDATE_MS = 1000;
+// Minimum gap between "download_progress" frames for a phone-requested download.
+const DOWNLOAD_PROGRESS_UPDATE_MS = 1000;
+// Captured frames are handed to the main process in batches.
+const CAPTURE_FLUSH_MS = 500;
+const CAPTURE_BATCH_SIZE = 200;
+// How long a replay waits for its prompts to finish after the last frame.
+const REPLAY_SETTLE_TIMEOUT_MS = 5 * 60 * 1000;
+const REPLAY_POLL_MS = 250;
+// Device id of replayed connections; usage and conversations are kept apart
+// from the captured phone's.
+const REPLAY_DEVICE_ID = 'replay';
+
+type ApprovalDecision = 'allow' | 'deny' | 'block';
+
+// Listener removers registered by createP2PCFClient, run before the client is replaced.
+const p2pcfDisposers: Array<() => void> = [];
+
+function disposeP2PCFListeners(): void {
+  while (p2pcfDisposers.length) {
+    const dispose = p2pcfDisposers.pop();
+    try {
+      dispose?.();
+    } catch (err) {
+      logRendererError('Error disposing P2PCF listener', err as Error);
+    }
+  }
+}
+
+type ReplayResult = {
+  replayed: number;
+  skipped: Record<string, number>;
+};
+
+// Replays one captured connection through the running client's handlers (see
+// replayCapturedConnection); set by createP2PCFClient for the Traffic
+// Inspector screen.
+let replayCapture:
+  | ((
+      entries: CaptureEntry[],
+      peer: string,
+      onFrame: (entry: CaptureEntry) => void,
+      signal: AbortSignal,
+    ) => Promise<ReplayResult>)
+  | null = null;
+
+// One-time pairing PIN shown in the main UI; rotated after every successful pairing.
+let pairingPin = generatePairingPin();
+// Wrong answers for the current PIN from any peer, and the PIN lockouts since
+// the last successful PIN pairing.
+let pinFailures = 0;
+let pinLockouts = 0;
+let pinLockedUntil = 0;
+
+function rotatePairingPin(): void {
+  pairingPin = generatePairingPin();
+  pinFailures = 0;
+  updatePairingPinDisplay();
+  logRenderer('Rotated pairing PIN');
+}
+
+/**
+ * Count a wrong PIN answer. Returns true when it locked PIN pairing: the PIN
+ * is replaced so guesses so far are wasted, and no answer is checked until the
+ * lockout ends.
+ */
+function recordPinFailure(): boolean {
+  pinFailures += 1;
+  if (pinFailures < MAX_PIN_FAILURES) return false;
+  pinLockouts += 1;
+  const lockoutMs = Math.min(
+    PIN_LOCKOUT_MAX_MS,
+    PIN_LOCKOUT_BASE_MS * Math.pow(2, pinLockouts - 1),
+  );
+  pinLockedUntil = Date.now() + lockoutMs;
+  rotatePairingPin();
+  logRendererError('Too many wrong PIN answers; PIN pairing locked', undefined, {
+    lockoutMs,
+    lockouts: pinLockouts,
+  });
+  return true;
+}
+
+function pinLockoutRemainingMs(): number {
+  return Math.max(0, pinLockedUntil - Date.now());
+}
+
+function updatePairingPinDisplay(): void {
+  setText('pairing-pin', pairingPin);
+}
+
 function createP2PCFClient(roomId: string): P2PCF {
   const clientId = 'desktop';
   uiLog.info('Creating P2PCF client', { clientId, roomId });
@@ -134,13 +348,134 @@ function createP2PCFClient(roomId: string): P2PCF {
     ],
   });
 
+  // Per-connection protocol state, keyed by peer session id.
+  // protocolVersion stays null until version_negotiate succeeds.
+  // paired stays false until the peer answers a pair_challenge, either with the
+  // PIN (followed by user approval) or with the secret of a trusted device.
+  // e2eKeys is set once pairing succeeds with a peer that offered encryption;
+  // from then on every frame in both directions is an "enc" envelope.
+  type PeerSession = {
+    peer: Peer;
+    protocolVersion: string | null;
+    paired: boolean;
+    deviceId: string | null;
+    deviceName: string | null;
+    pairingMethod: PairingMethod | null;
+    pairingNonce: string | null;
+    // Ephemeral key pair of the open challenge.
+    pairingKeys: PairingKeyPair | null;
+    pairingAttempts: number;
+    pairingTimer: ReturnType<typeof setTimeout> | null;
+    awaitingApproval: boolean;
+    e2eOffered: boolean;
+    e2eKeys: E2EKeys | null;
+    sendSeq: number;
+    recvSeq: number;
+    // Serialize async encryption/decryption so frames keep their seq order.
+    sendChain: Promise<void>;
+    recvChain: Promise<void>;
+    // Images received ahead of the prompts that reference them.
+    attachments: AttachmentStore;
+    // Token batching window agreed in version_negotiate, or null for none.
+    coalesce: CoalesceWindow | null;
+  };
+  const peerSessions = new Map<string, PeerSession>();
+  // Replies to replayed connections go to the Traffic Inspector, not P2PCF.
+  const replayPeers = new Map<string, (msg: ServerMessage) => void>();
+
+  function createPeerSession(peer: Peer): PeerSession {
+    return {
+      peer,
+      protocolVersion: null,
+      paired: false,
+      deviceId: null,
+      deviceName: null,
+      pairingMethod: null,
+      pairingNonce: null,
+      pairingKeys: null,
+      pairingAttempts: 0,
+      pairingTimer: null,
+      awaitingApproval: false,
+      e2eOffered: false,
+      e2eKeys: null,
+      sendSeq: 0,
+      recvSeq: 0,
+      sendChain: Promise.resolve(),
+      recvChain: Promise.resolve(),
+      attachments: new AttachmentStore(),
+      coalesce: null,
+    };
+  }
+
+  function getPeerSession(peer: Peer): PeerSession {
+    let session = peerSessions.get(peer.id);
+    if (!session) {
+      session = createPeerSession(peer);
+      peerSessions.set(peer.id, session);
+    }
+    return session;
+  }
+
+  // Conversation histories for prompts with a session_id, per device.
+  const conversations = new ConversationStore();
+
+  // Close live connections of devices that were revoked or blocked from the
+  // Devices screen, and keep peer labels in sync with renames.
+  const unsubscribeDevices = window.devices?.onChanged((change) => {
+    const deviceId = change.type === 'removed' ? change.id : change.device.id;
+    if (change.type === 'removed' || change.device.status === 'blocked') {
+      conversations.closeDevice(deviceId);
+    }
+    for (const session of peerSessions.values()) {
+      if (session.deviceId !== deviceId || !session.paired) continue;
+
+      if (change.type === 'updated' && change.device.status === 'trusted') {
+        session.deviceName = change.device.name;
+        updatePeerLabel(session.peer, change.device.name);
+        continue;
+      }
+
+      uiLog.info('Disconnecting peer for revoked device', {
+        id: session.peer.id,
+        deviceId,
+      });
+      const peer = session.peer;
+      void sendJsonSafe(peer, {
+        t: 'error',
+        id: '',
+        code: change.type === 'removed' ? 'device_revoked' : 'device_blocked',
+        message: 'This device is no longer allowed to connect',
+      }).then(() => p2pcf.disconnect(peer));
+    }
+  });
+  if (unsubscribeDevices) {
+    p2pcfDisposers.push(unsubscribeDevices);
+  }
+
   p2pcf.on('peerconnect', (peer: Peer) => {
     uiLog.info('Peer connected', {
       id: peer.id,
       client_id: peer.clientId,
     });
 
+    const session = createPeerSession(peer);
+    session.pairingTimer = setTimeout(() => {
+      if (session.paired) return;
+      uiLog.info('Disconnecting peer that did not pair in time', {
+        id: peer.id,
+        client_id: peer.clientId,
+      });
+      void sendJsonSafe(peer, {
+        t: 'error',
+        id: '',
+        code: 'pairing_timeout',
+        message: 'Pairing was not completed in time',
+      }).then(() => p2pcf.disconnect(peer));
+    }, PAIRING_TIMEOUT_MS);
+    peerSessions.set(peer.id, session);
+
     addPeerToList(peer);
+    updatePeerBadge(peer, 'pairing', 'warn');
 
     updateP2PStatus('P2P: connected', 'ok');
   });
@@ -151,6 +486,13 @@ function createP2PCFClient(roomId: string): P2PCF {
       client_id: peer.clientId,
     });
     removePeerFromList(peer);
+    cancelPromptsForPeer(peer);
+    dropDownloadRequestsForPeer(peer);
+    const session = peerSessions.get(peer.id);
+    if (session?.pairingTimer) {
+      clearTimeout(session.pairingTimer);
+    }
+    peerSessions.delete(peer.id);
   });
 
   p2pcf.on('error', (error: Error) => {
@@ -162,82 +504,291 @@ function createP2PCFClient(roomId: string): P2PCF {
     });
   });
 
-  // Minimal binary-safe JSON protocol over P2PCF:
-  // All control/messages are UTF-8 JSON strings with field "t" (type).
-  //
-  // Connection flow:
-  // 1. Both sides exchange "hello" on connect
-  // 2. Client -> Server: "version_negotiate" to check compatibility
-  // 3. Server -> Client: "version_ack" with compatibility result
-  // 4. If compatible, client can send "prompt" requests
-  //
-  // Message Types:
-  //
-  // - "hello": bidirectional, sent by both sides on connect
-  //     { "t": "hello", "clientId": string, "impl": "mydeviceai-desktop", "version": string }
-  //
-  // - "version_negotiate": Client -> Server, sent after hello to negotiate protocol compatibility
-  //     { "t": "version_negotiate", "protocolVersion": string, "minCompatibleVersion": string }
-  //     protocolVersion: current protocol version (e.g., "1.0.0")
-  //     minCompatibleVersion: oldest version this client can work with (e.g., "1.0.0")
-  //
-  // - "version_ack": Server -> Client, response to version_negotiate
-  //     { "t": "version_ack", "compatible": boolean, "protocolVersion": string, "reason"?: string }
-  //     compatible: true if versions are compatible, false otherwise
-  //     protocolVersion: the protocol version the server is using
-  //     reason: optional explanation if incompatible
-  //
-  // - "prompt": Client -> Server, request to generate completion
-  //     { "t": "prompt", "id": string, "messages": Array<{role: string, content: string}>, "max_tokens"?: number }
-  //     messages: OpenAI-compatible format with roles (system, user, assistant)
-  //     Example: [{"role": "system", "content": "You are helpful"}, {"role": "user", "content": "Hello"}]
-  //
-  // - "get_model": Client -> Server, request to get current active model information
-  //     { "t": "get_model" }
-  //
-  // - "model_info": Server -> Client, response with current model information
-  //     { "t": "model_info", "id": string, "displayName": string, "installed": boolean }
-  //
-  // Streaming response from Server -> Client:
-  // - "start": once per prompt before any tokens
-  //     { "t": "start", "id": string }
-  // - "token": many per prompt, content tokens
-  //     { "t": "token", "id": string, "tok": string }
-  // - "reasoning_token": reasoning/thinking tokens (optional)
-  //     { "t": "reasoning_token", "id": string, "tok": string }
-  // - "end": final success
-  //     { "t": "end", "id": string }
-  // - "error": final failure
-  //     { "t": "error", "id": string, "message": string }
-  //
-  // Unknown or malformed messages are ignored but logged.
+  // The protocol spoken with phones (frames, docs, validation and error codes)
+  // lives in src/protocol/.
   //
   // NOTE: Actual llama integration is delegated to window.llama.ensureServer()
   // and HTTP calls; if unavailable, we respond with an error.
 
-  type P2PMessage =
-    | { t: 'hello'; clientId: string; impl: string; version: string }
-    | { t: 'version_negotiate'; protocolVersion: string; minCompatibleVersion: string }
-    | { t: 'version_ack'; compatible: boolean; protocolVersion: string; reason?: string }
-    | { t: 'prompt'; id: string; messages: Array<{ role: string; content: string }>; max_tokens?: number }
-    | { t: 'get_model' }
-    | { t: 'model_info'; id: string; displayName: string; installed: boolean }
-    | { t: 'start'; id: string }
-    | { t: 'token'; id: string; tok: string }
-    | { t: 'reasoning_token'; id: string; tok: string }
-    | { t: 'end'; id: string }
-    | { t: 'error'; id: string; message: string }
-    | { t: string; [k: string]: any };
-
-  async function sendJsonSafe(peer: Peer, msg: P2PMessage): Promise<void> {
-    try {
-      const raw = JSON.stringify(msg);
-      p2pcf.send(peer, raw);
-    } catch (err) {
-      logRendererError('Failed to send P2PCF JSON message', err as Error, {
-        msg,
+  // Subset of llama-server's per-request "timings" object.
+  type LlamaTimings = {
+    prompt_n?: number;
+    prompt_ms?: number;
+    predicted_n?: number;
+    predicted_ms?: number;
+    predicted_per_second?: number;
+  };
+
+  // Limits concurrent generations (Settings > maxConcurrentPrompts) and serves
+  // peers round-robin; see src/promptScheduler.ts.
+  const scheduler = new PromptScheduler(DEFAULT_MAX_CONCURRENT_PROMPTS);
+  void window.settings?.get().then((res) => {
+    if (!res.ok) return;
+    scheduler.setConcurrency(res.settings.maxConcurrentPrompts);
+    captureTraffic = res.settings.captureTraffic;
+  });
+  const unsubscribeSettings = window.settings?.onChanged((settings) => {
+    scheduler.setConcurrency(settings.maxConcurrentPrompts);
+    captureTraffic = settings.captureTraffic;
+    if (!captureTraffic) flushCapture();
+  });
+  if (unsubscribeSettings) {
+    p2pcfDisposers.push(unsubscribeSettings);
+  }
+
+  // Traffic capture (Settings > Record protocol traffic): every frame
+  // dispatched or sent is recorded for the Traffic Inspector; see
+  // src/trafficInspector.ts and src/trafficCapture.ts.
+  let captureTraffic = false;
+  let captureBuffer: CaptureEntry[] = [];
+  let captureTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function flushCapture(): void {
+    if (captureTimer) {
+      clearTimeout(captureTimer);
+      captureTimer = null;
+    }
+    if (!captureBuffer.length) return;
+    const entries = captureBuffer;
+    captureBuffer = [];
+    window.captures?.append(entries);
+  }
+  p2pcfDisposers.push(flushCapture);
+
+  function recordFrame(dir: 'in' | 'out', peer: Peer, frame: RawFrame | ServerMessage, encrypted: boolean): void {
+    if (!captureTraffic || replayPeers.has(peer.id)) return;
+    const deviceId = peerSessions.get(peer.id)?.deviceId || null;
+    captureBuffer.push(captureEntry(dir, peer, deviceId, encrypted, frame as RawFrame));
+    if (captureBuffer.length >= CAPTURE_BATCH_SIZE) {
+      flushCapture();
+    } else if (!captureTimer) {
+      captureTimer = setTimeout(flushCapture, CAPTURE_FLUSH_MS);
+    }
+  }
+
+  // Tell paired peers when the active model changes, whoever switched it.
+  const unsubscribeActiveModel = window.modelManager?.onActiveChanged?.((change) => {
+    if (!change.model) return;
+    broadcastToPeers(
+      {
+        t: 'model_changed',
+        id: change.model.id,
+        displayName: change.model.displayName,
+        installed: change.model.installed,
+        vision: change.vision,
+      },
+      '1.11.0',
+    );
+  });
+  if (unsubscribeActiveModel) {
+    p2pcfDisposers.push(unsubscribeActiveModel);
+  }
+
+  // At most one remote model switch at a time; llama-server restarts for each.
+  let modelSwitchInFlight = false;
+
+  // Downloads requested by phones, keyed by model id ("repoId/fileName"), from
+  // the approval prompt until the download finishes.
+  type RemoteDownload = {
+    peer: Peer;
+    requestId: string;
+    modelId: string;
+    repoId: string;
+    fileName: string;
+    mmprojFileName?: string;
+    approved: boolean;
+    cancelled: boolean;
+    lastProgressAt: number;
+  };
+  const remoteDownloads = new Map<string, RemoteDownload>();
+
+  // Relay main-process download progress to the phone that asked for it.
+  const unsubscribeDownloadProgress = window.modelManager?.onDownloadProgress?.((p) => {
+    const download = remoteDownloads.get(p.id);
+    if (!download?.approved || !peerSessions.has(download.peer.id)) return;
+    if (p.type !== 'download-start' && p.type !== 'download-progress') return;
+
+    const now = Date.now();
+    if (p.type === 'download-progress' && now - download.lastProgressAt < DOWNLOAD_PROGRESS_UPDATE_MS) {
+      return;
+    }
+    download.lastProgressAt = now;
+    void sendJsonSafe(download.peer, {
+      t: 'download_progress',
+      id: download.requestId,
+      modelId: download.modelId,
+      stage: p.type === 'download-start' ? 'started' : 'downloading',
+      receivedBytes: p.receivedBytes,
+      totalBytes: p.totalBytes,
+    });
+  });
+  if (unsubscribeDownloadProgress) {
+    p2pcfDisposers.push(unsubscribeDownloadProgress);
+  }
+
+  // Requests-per-minute and concurrency limits per device; daily token budgets
+  // are checked in the main process (src/usageStore.ts).
+  const rateLimiter = new RateLimiter();
+
+  // In-flight prompts (queued or streaming) keyed by peer session id + request id,
+  // so that a "cancel" frame or a closed peer can abort them. `peer` changes
+  // when a reconnected phone resumes the prompt.
+  type InFlightPrompt = {
+    controller: AbortController;
+    notifyPeer: boolean;
+    peer: Peer;
+    stream: ResumableStream<ServerMessage>;
+    // Set when the phone may resume the output after reconnecting.
+    resumeKey: string | null;
+  };
+  const inFlightPrompts = new Map<string, InFlightPrompt>();
+
+  // A validated "prompt" (chat) or "complete" (raw text / fill-in-the-middle)
+  // request; both stream through runGeneration.
+  type ChatGeneration = {
+    kind: 'chat';
+    messages: ChatMessage[];
+    sessionId: string | null;
+    sessionNew: boolean;
+    tools: ToolDefinition[] | null;
+    toolChoice: ToolChoice | undefined;
+    responseFormat: ResponseFormat | null;
+    grammar: string | null;
+    imageCount: number;
+  };
+  type GenerationRequest = ChatGeneration | ({ kind: 'complete' } & CompletionRequest);
+
+  // Output of prompts a reconnecting phone may still resume (protocol >= 1.14.0),
+  // keyed by device id + request id; see src/resumableStreams.ts.
+  const resumableStreams = new Map<string, ResumableStream<ServerMessage>>();
+
+  function promptKey(peer: Peer, id: string): string {
+    return `${peer.id}:${id}`;
+  }
+
+  function streamKey(deviceId: string, id: string): string {
+    return `${deviceId}\n${id}`;
+  }
+
+  /**
+   * Abort a closed peer's prompts, except resumable ones: those keep running
+   * for RESUME_GRACE_MS in case the phone reconnects and sends "resume".
+   */
+  function cancelPromptsForPeer(peer: Peer): void {
+    const prefix = `${peer.id}:`;
+    for (const [key, entry] of inFlightPrompts) {
+      if (!key.startsWith(prefix)) continue;
+      if (entry.resumeKey) {
+        entry.stream.detach();
+        entry.stream.expireAfter(RESUME_GRACE_MS, () => {
+          entry.notifyPeer = false;
+          entry.controller.abort();
+        });
+        continue;
+      }
+      entry.notifyPeer = false;
+      entry.controller.abort();
+    }
+  }
+
+  /**
+   * Mark a prompt's output complete and keep it for RESUME_GRACE_MS, in case
+   * the phone lost the last frames, then forget it.
+   */
+  function retireStream(resumeKey: string | null, stream: ResumableStream<ServerMessage>): void {
+    stream.finish();
+    if (!resumeKey) return;
+    stream.expireAfter(RESUME_GRACE_MS, () => {
+      if (resumableStreams.get(resumeKey) === stream) {
+        resumableStreams.delete(resumeKey);
+      }
+    });
+  }
+
+  /**
+   * Replay a prompt's output from `fromOffset` to a reconnected phone and
+   * stream the rest to it.
+   */
+  function handleResumeRequest(peer: Peer, msg: ClientMessageOf<'resume'>): void {
+    const { id, fromOffset } = msg;
+    const deviceId = getPeerSession(peer).deviceId || peer.id;
+    const resumeKey = streamKey(deviceId, id);
+    const stream = resumableStreams.get(resumeKey);
+    const current = inFlightPrompts.get(promptKey(peer, id));
+    if (
+      !stream ||
+      !Number.isInteger(fromOffset) ||
+      !stream.canResumeFrom(fromOffset) ||
+      (current && current.stream !== stream)
+    ) {
+      logRenderer('Nothing to resume for peer', { peerId: peer.id, id, fromOffset });
+      void sendJsonSafe(peer, {
+        t: 'error',
+        id,
+        code: 'resume_unavailable',
+        message: 'The output for this id has expired or is not available from that offset',
       });
+      return;
+    }
+
+    // A prompt that is still running now belongs to this connection, so that
+    // "cancel" and a later disconnect find it.
+    for (const [key, entry] of inFlightPrompts) {
+      if (entry.stream !== stream) continue;
+      inFlightPrompts.delete(key);
+      entry.peer = peer;
+      inFlightPrompts.set(promptKey(peer, id), entry);
+    }
+
+    logRenderer('Resuming prompt output for reconnected peer', {
+      peerId: peer.id,
+      id,
+      fromOffset,
+      finished: stream.finished,
+    });
+    void sendJsonSafe(peer, { t: 'resumed', id, fromOffset });
+    stream.attach((frame) => sendJsonSafe(peer, frame), fromOffset);
+    if (stream.finished) {
+      resumableStreams.delete(resumeKey);
+    }
+  }
+
+  async function sendJsonSafe(peer: Peer, msg: ServerMessage): Promise<void> {
+    const session = peerSessions.get(peer.id);
+    const keys = session?.e2eKeys;
+    recordFrame('out', peer, msg, !!keys);
+    const replaySink = replayPeers.get(peer.id);
+    if (replaySink) {
+      replaySink(msg);
+      return;
+    }
+    if (!session || !keys) {
+      try {
+        const raw = JSON.stringify(msg);
+        p2pcf.send(peer, raw);
+      } catch (err) {
+        logRendererError('Failed to send P2PCF JSON message', err as Error, {
+          msg,
+        });
+      }
+      return;
     }
+
+    // Take the seq now so frames go out in the order they were sent.
+    const seq = ++session.sendSeq;
+    const send = session.sendChain.then(async () => {
+      try {
+        const frame = await sealFrame(keys.sendKey, seq, JSON.stringify(msg));
+        p2pcf.send(peer, JSON.stringify(frame));
+      } catch (err) {
+        logRendererError('Failed to send encrypted P2PCF message', err as Error, {
+          t: msg.t,
+          seq,
+        });
+      }
+    });
+    session.sendChain = send;
+    return send;
   }
 
   async function handleGetModelRequest(peer: Peer): Promise<void> {
@@ -247,7 +798,7 @@ function createP2PCFClient(roomId: string): P2PCF {
         return;
       }
 
-      const { model } = await window.modelManager.getActive();
+      const { model, vision } = await window.modelManager.getActive();
 
       if (model) {
         await sendJsonSafe(peer, {
@@ -255,6 +806,9 @@ function createP2PCFClient(roomId: string): P2PCF {
           id: model.id,
           displayName: model.displayName,
           installed: model.installed,
+          vision: !!vision,
+          contextWindow: model.currentParams.contextWindow,
+          maxTokens: model.currentParams.maxTokens,
         });
         logRenderer('Sent model_info to peer', {
           peerId: peer.id,
@@ -271,878 +825,2210 @@ function createP2PCFClient(roomId: string): P2PCF {
     }
   }
 
-  async function handlePromptRequest(peer: Peer, msg: any): Promise<void> {
-    const id = typeof msg.id === 'string' ? msg.id : '';
-    const maxTokens =
-      typeof msg.max_tokens === 'number' && msg.max_tokens > 0
-        ? msg.max_tokens
-        : 4096;
+  /**
+   * POST to the active model's llama-server, starting it and waiting for the
+   * model to load when needed. Throws with llama-server's error text.
+   */
+  async function postToLlamaServer(path: string, body: unknown): Promise<any> {
+    if (!window.llama?.ensureServer) {
+      throw new Error('Llama server control API not available in preload bridge');
+    }
+    const ensure = await window.llama.ensureServer();
+    if (!ensure.ok || !ensure.endpoint) {
+      throw new Error(ensure.error || 'Failed to start or discover llama-server endpoint');
+    }
+    if (!(await waitForModelLoaded(ensure.endpoint, () => undefined))) {
+      throw new Error('The model did not finish loading');
+    }
+    return postJson(ensure.endpoint, path, body);
+  }
 
-    // Validate messages array
-    if (!Array.isArray(msg.messages)) {
-      logRendererError('Invalid prompt message; messages must be an array', undefined, {
-        msg,
-      });
-      if (id) {
-        await sendJsonSafe(peer, {
-          t: 'error',
-          id,
-          message: 'Invalid prompt: messages must be an array',
-        });
-      }
-      return;
+  async function postJson(
+    endpoint: string,
+    path: string,
+    body: unknown,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    const res = await fetch(`${endpoint}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      throw new Error(`llama-server ${path} failed (${res.status}): ${text || res.statusText}`);
     }
+    return res.json();
+  }
 
-    const messages: Array<{ role: string; content: string }> = msg.messages.filter(
-      (m: any) =>
-        m &&
-        typeof m.role === 'string' &&
-        typeof m.content === 'string'
+  /**
+   * Size of a chat in the model's tokens: the chat template applied (with any
+   * tools), then tokenized. Image parts are left out.
+   */
+  async function countChatTokens(
+    endpoint: string,
+    messages: ChatMessage[],
+    tools: ToolDefinition[] | null,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    const templated = await postJson(
+      endpoint,
+      '/apply-template',
+      { messages: withoutImages(messages), ...(tools ? { tools } : {}) },
+      signal,
+    );
+    if (typeof templated?.prompt !== 'string') {
+      throw new Error('Chat template returned no prompt');
+    }
+    const { tokens } = parseTokenizeResponse(
+      await postJson(endpoint, '/tokenize', { content: templated.prompt, add_special: true }, signal),
     );
+    return tokens.length;
+  }
+
+  // Context one prompt can use. llama-server splits its --ctx-size between
+  // parallel slots, so this can be less than the model's contextWindow; /props
+  // reports the per-slot size.
+  async function slotContextSize(endpoint: string, contextWindow: number): Promise<number> {
+    try {
+      const res = await fetch(`${endpoint}/props`);
+      const nCtx = res.ok ? (await res.json())?.default_generation_settings?.n_ctx : undefined;
+      if (typeof nCtx === 'number' && nCtx > 0) return nCtx;
+    } catch {
+      // Older servers without /props: assume the whole window.
+    }
+    return contextWindow;
+  }
+
+  /**
+   * Shorten a chat prompt that would overflow the context, using the active
+   * model's strategy (see src/contextManager.ts). Chats that certainly fit are
+   * not tokenized at all.
+   */
+  async function fitPromptToContext(
+    endpoint: string,
+    messages: ChatMessage[],
+    keepLast: number,
+    tools: ToolDefinition[] | null,
+    maxTokens: number,
+    signal: AbortSignal,
+  ): Promise<ContextFitResult> {
+    const active = await window.modelManager?.getActive();
+    const contextWindow = active?.model?.currentParams.contextWindow || 8192;
+    const budget = (await slotContextSize(endpoint, contextWindow)) - maxTokens;
+    const toolBytes = tools ? new TextEncoder().encode(JSON.stringify(tools)).length : 0;
+    if (maxPossibleTokens(messages, toolBytes) <= budget) {
+      return { ok: true, messages, truncation: null };
+    }
+    if (!(await waitForModelLoaded(endpoint, () => undefined))) {
+      throw new Error('The model did not finish loading');
+    }
+
+    return fitToContext(messages, {
+      strategy: normalizeContextStrategy(active?.model?.contextStrategy),
+      budget,
+      keepLast,
+      countTokens: (candidate) => countChatTokens(endpoint, candidate, tools, signal),
+      summarize: async (dropped) => {
+        const reply = await postJson(
+          endpoint,
+          '/v1/chat/completions',
+          {
+            messages: summaryRequestMessages(dropped, Math.max(0, budget - SUMMARY_MAX_TOKENS) * 2),
+            max_tokens: SUMMARY_MAX_TOKENS,
+            temperature: 0.2,
+            stream: false,
+          },
+          signal,
+        );
+        const content = reply?.choices?.[0]?.message?.content;
+        return typeof content === 'string' ? content : '';
+      },
+    });
+  }
 
+  async function handleCountTokensRequest(peer: Peer, msg: ClientMessageOf<'count_tokens'>): Promise<void> {
+    const { id } = msg;
+    const messages = normalizeChatMessages(msg.messages);
     if (!messages.length) {
-      logRendererError('Invalid prompt message; messages array is empty or malformed', undefined, {
-        msg,
-      });
-      if (id) {
-        await sendJsonSafe(peer, {
-          t: 'error',
-          id,
-          message: 'Invalid prompt: messages array is empty or malformed',
-        });
-      }
+      await sendJsonSafe(
+        peer,
+        invalidRequestFrame(id, 'Invalid count_tokens: messages array is empty or malformed'),
+      );
       return;
     }
-
-    if (!id) {
-      logRendererError('Invalid prompt message; missing id', undefined, {
-        msg,
-      });
+    if (countImageParts(messages)) {
+      await sendJsonSafe(
+        peer,
+        invalidRequestFrame(id, 'Invalid count_tokens: image content parts cannot be counted'),
+      );
       return;
     }
 
-    if (!window.llama?.ensureServer) {
+    const releaseRate = await admitRequest(peer, id, getPeerSession(peer).deviceId || peer.id);
+    if (!releaseRate) return;
+
+    try {
+      // Count what a prompt would send: the chat template applied to the
+      // messages, including the assistant header it ends with.
+      const templated = await postToLlamaServer('/apply-template', { messages });
+      if (typeof templated?.prompt !== 'string') {
+        throw new Error('Chat template returned no prompt');
+      }
+      const { tokens } = parseTokenizeResponse(
+        await postToLlamaServer('/tokenize', { content: templated.prompt, add_special: true }),
+      );
+      const active = await window.modelManager?.getActive();
+      await sendJsonSafe(peer, {
+        t: 'token_count',
+        id,
+        tokens: tokens.length,
+        ...(active?.model
+          ? {
+              contextWindow: active.model.currentParams.contextWindow,
+              maxTokens: active.model.currentParams.maxTokens,
+            }
+          : {}),
+      });
+    } catch (err) {
+      logRendererError('count_tokens failed', err, { peerId: peer.id, id });
       await sendJsonSafe(peer, {
         t: 'error',
         id,
-        message: 'Llama server control API not available in preload bridge',
+        message: (err as Error)?.message || 'Token counting failed',
       });
-      return;
+    } finally {
+      releaseRate();
+    }
+  }
+
+  async function handleTokenizeRequest(peer: Peer, msg: ClientMessageOf<'tokenize' | 'detokenize'>): Promise<void> {
+    const { id } = msg;
+
+    let path: string;
+    let body: Record<string, unknown>;
+    if (msg.t === 'tokenize') {
+      const request = normalizeTokenizeRequest(msg);
+      if ('error' in request) {
+        await sendJsonSafe(peer, invalidRequestFrame(id, `Invalid tokenize: ${request.error}`));
+        return;
+      }
+      path = '/tokenize';
+      body = {
+        content: request.content,
+        add_special: request.addSpecial,
+        with_pieces: request.withPieces,
+      };
+    } else {
+      const request = normalizeTokenIds(msg.tokens);
+      if ('error' in request) {
+        await sendJsonSafe(peer, invalidRequestFrame(id, `Invalid detokenize: ${request.error}`));
+        return;
+      }
+      path = '/detokenize';
+      body = { tokens: request.tokens };
     }
 
-    await sendJsonSafe(peer, { t: 'start', id });
+    const releaseRate = await admitRequest(peer, id, getPeerSession(peer).deviceId || peer.id);
+    if (!releaseRate) return;
 
     try {
-      logRenderer('Ensuring llama-server before HTTP streaming', {
+      const result = await postToLlamaServer(path, body);
+      if (msg.t === 'tokenize') {
+        await sendJsonSafe(peer, { t: 'tokenized', id, ...parseTokenizeResponse(result) });
+      } else {
+        if (typeof result?.content !== 'string') {
+          throw new Error('Detokenizer returned no content');
+        }
+        await sendJsonSafe(peer, { t: 'detokenized', id, content: result.content });
+      }
+    } catch (err) {
+      logRendererError(`${msg.t} failed`, err, { peerId: peer.id, id });
+      await sendJsonSafe(peer, {
+        t: 'error',
         id,
-        maxTokens,
-        messageCount: messages.length,
+        message: (err as Error)?.message || `${msg.t} failed`,
       });
+    } finally {
+      releaseRate();
+    }
+  }
 
-      const ensure = await window.llama.ensureServer();
-      if (!ensure.ok || !ensure.endpoint) {
-        throw new Error(
-          ensure.error || 'Failed to start or discover llama-server endpoint',
-        );
+  /**
+   * Send a frame to every paired peer whose session is at least `minVersion`.
+   */
+  function broadcastToPeers(msg: ServerMessage, minVersion: string): void {
+    peerSessions.forEach((session) => {
+      if (!session.paired || !isProtocolAtLeast(session.protocolVersion, minVersion)) {
+        return;
       }
+      void sendJsonSafe(session.peer, msg);
+    });
+  }
 
-      const endpoint = `${ensure.endpoint}/v1/chat/completions`;
-      logRenderer('Resolved llama-server HTTP endpoint for streaming', {
-        endpoint,
-      });
+  /**
+   * Check a permission granted to the peer's device on the Devices screen,
+   * answering with a "permission_denied" error when it is missing.
+   */
+  async function requirePermission(
+    peer: Peer,
+    id: string,
+    permission: keyof DevicePermissions,
+  ): Promise<boolean> {
+    const { deviceId } = getPeerSession(peer);
+    const res = deviceId && window.devices?.get ? await window.devices.get(deviceId) : null;
+    if (res?.ok && res.device?.permissions?.[permission] === true) {
+      return true;
+    }
+    logRendererError('Refusing request without device permission', undefined, {
+      peerId: peer.id,
+      deviceId,
+      permission,
+    });
+    void sendJsonSafe(peer, {
+      t: 'error',
+      id,
+      code: 'permission_denied',
+      message: 'This device is not allowed to do that; grant it on the Devices screen of the desktop',
+    });
+    return false;
+  }
 
-      const body: any = {
-        model: 'local-model',
-        temperature: 0.7,
-        max_tokens: maxTokens,
-        messages,
-        stream: true,
-      };
+  async function handleListModelsRequest(peer: Peer, msg: ClientMessageOf<'list_models'>): Promise<void> {
+    const requestId = msg.id || '';
+    try {
+      if (!(await requirePermission(peer, requestId, 'manageModels'))) return;
+      if (!window.modelManager?.list) {
+        throw new Error('Model manager API not available in preload bridge');
+      }
 
-      const res = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+      const { models, activeModelId } = await window.modelManager.list();
+      await sendJsonSafe(peer, {
+        t: 'model_list',
+        id: requestId,
+        activeModelId,
+        models: models.map((m) => ({
+          id: m.id,
+          displayName: m.displayName,
+          installed: m.installed,
+          active: m.id === activeModelId,
+          vision: !!m.mmprojPath,
+          sizeBytes: m.sizeBytes,
+          quantization: m.quantization,
+        })),
+      });
+      logRenderer('Sent model_list to peer', { peerId: peer.id, count: models.length });
+    } catch (err) {
+      logRendererError('Error handling list_models request', err as Error, {
+        peerId: peer.id,
+      });
+      void sendJsonSafe(peer, {
+        t: 'error',
+        id: requestId,
+        message: (err as Error)?.message || String(err),
       });
+    }
+  }
 
-      if (!res.body || !res.ok) {
-        const text = await res.text().catch(() => '');
-        logRendererError('llama HTTP stream error', undefined, {
-          endpoint,
-          status: res.status,
-          statusText: res.statusText,
-          bodySnippet: text.slice(0, 512),
-        });
-        throw new Error(
-          `Llama stream failed (${res.status} ${res.statusText}): ${text}`,
-        );
+  /**
+   * Poll llama-server's /health until the model is loaded (it answers 503
+   * while loading). Calls onWaiting about once per MODEL_LOADING_UPDATE_MS.
+   */
+  async function waitForModelLoaded(
+    endpoint: string,
+    onWaiting: (elapsedMs: number) => void,
+  ): Promise<boolean> {
+    const startedAt = Date.now();
+    let lastUpdate = startedAt;
+    while (Date.now() - startedAt < MODEL_LOAD_TIMEOUT_MS) {
+      try {
+        const res = await fetch(`${endpoint}/health`);
+        if (res.ok) return true;
+      } catch {
+        // Not listening yet.
       }
+      await new Promise((resolve) => setTimeout(resolve, MODEL_HEALTH_POLL_MS));
+      if (Date.now() - lastUpdate >= MODEL_LOADING_UPDATE_MS) {
+        lastUpdate = Date.now();
+        onWaiting(lastUpdate - startedAt);
+      }
+    }
+    return false;
+  }
 
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder('utf-8');
-      let buffer = '';
+  async function handleSetModelRequest(peer: Peer, msg: ClientMessageOf<'set_model'>): Promise<void> {
+    const requestId = msg.id || '';
+    const modelId = msg.modelId.trim();
+    const fail = (message: string, code: ProtocolErrorCode | null = null) =>
+      sendJsonSafe(peer, errorFrame(requestId, code, message));
 
-      while (true) {
-        const { value, done: doneReading } = await reader.read();
-        if (doneReading) {
-          if (buffer.trim().length > 0) {
-            const line = buffer.trim();
-            let contentTok: string | undefined;
-            let reasoningTok: string | undefined;
-            try {
-              const json = JSON.parse(line);
-              contentTok =
-                json.choices?.[0]?.delta?.content ??
-                json.choices?.[0]?.message?.content ??
-                undefined;
-              reasoningTok =
-                json.choices?.[0]?.delta?.reasoning_content ?? undefined;
-            } catch {
-              contentTok = line;
-            }
-            if (reasoningTok) {
-              await sendJsonSafe(peer, {
-                t: 'reasoning_token',
-                id,
-                tok: String(reasoningTok),
-              });
-            }
-            if (contentTok) {
-              await sendJsonSafe(peer, {
-                t: 'token',
-                id,
-                tok: String(contentTok),
-              });
-            }
-          }
-          break;
-        }
-
-        buffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
-          const line = buffer.slice(0, newlineIndex).trim();
-          buffer = buffer.slice(newlineIndex + 1);
+    if (!(await requirePermission(peer, requestId, 'manageModels'))) return;
+    if (!modelId) {
+      await fail('set_model requires a modelId', 'invalid_request');
+      return;
+    }
+    if (!window.modelManager?.list || !window.modelManager?.setActive || !window.llama?.ensureServer) {
+      logRendererError('Model manager or llama bridge not available in preload');
+      await fail('Model switching is not available on this desktop', 'model_switch_failed');
+      return;
+    }
+    // Restarting llama-server would cut off every prompt being generated.
+    const busy = () => fail('The desktop is busy; try again when no prompts are running', 'model_busy');
+    if (modelSwitchInFlight || inFlightPrompts.size > 0) {
+      await busy();
+      return;
+    }
 
-          if (!line) {
-            continue;
-          }
+    // Claimed before the first await, so a second set_model cannot get past
+    // the check above while this one looks the model up.
+    modelSwitchInFlight = true;
+    try {
+      const { models } = await window.modelManager.list();
+      const model = models.find((m) => m.id === modelId);
+      if (!model || !model.installed) {
+        await fail(`Model not installed: ${modelId}`, 'model_not_found');
+        return;
+      }
+      // A prompt may have been admitted while the models were listed.
+      if (inFlightPrompts.size > 0) {
+        await busy();
+        return;
+      }
 
-          // Handle SSE format: lines start with "data: "
-          if (line.startsWith('data: ')) {
-            const jsonStr = line.slice(6); // Remove "data: " prefix
-            
-            // SSE streams often end with "data: [DONE]"
-            if (jsonStr === '[DONE]') {
-              await sendJsonSafe(peer, { t: 'end', id });
-              return;
-            }
+      try {
+        uiLog.info('Switching model for peer', { id: peer.id, modelId });
+        const res = await window.modelManager.setActive(modelId);
+        if (!res.ok) {
+          throw new Error(res.error || 'Failed to set active model');
+        }
 
-            let contentTok: string | undefined;
-            let reasoningTok: string | undefined;
+        broadcastToPeers({ t: 'model_loading', modelId, stage: 'starting' }, '1.11.0');
+        const ensure = await window.llama.ensureServer();
+        if (!ensure.ok || !ensure.endpoint) {
+          throw new Error(ensure.error || 'llama-server failed to start');
+        }
 
-            try {
-              const json = JSON.parse(jsonStr);
-              contentTok =
-                json.choices?.[0]?.delta?.content ??
-                json.choices?.[0]?.message?.content ??
-                undefined;
-              reasoningTok =
-                json.choices?.[0]?.delta?.reasoning_content ?? undefined;
+        const loaded = await waitForModelLoaded(ensure.endpoint, (elapsedMs) => {
+          broadcastToPeers({ t: 'model_loading', modelId, stage: 'loading', elapsedMs }, '1.11.0');
+        });
+        if (!loaded) {
+          throw new Error(`Model did not finish loading within ${MODEL_LOAD_TIMEOUT_MS / 1000}s`);
+        }
 
-              const done =
-                json.done === true || !!json.choices?.[0]?.finish_reason;
+        broadcastToPeers({ t: 'model_loading', modelId, stage: 'ready' }, '1.11.0');
+        uiLog.info('Model switch finished', { id: peer.id, modelId });
+      } catch (err) {
+        const message = (err as Error)?.message || String(err);
+        logRendererError('Error handling set_model request', err as Error, {
+          peerId: peer.id,
+          modelId,
+        });
+        broadcastToPeers({ t: 'model_loading', modelId, stage: 'failed', message }, '1.11.0');
+        await fail(message, 'model_switch_failed');
+      }
+    } finally {
+      modelSwitchInFlight = false;
+    }
+  }
 
-              if (reasoningTok) {
-                await sendJsonSafe(peer, {
-                  t: 'reasoning_token',
-                  id,
-                  tok: String(reasoningTok),
-                });
-              }
+  /**
+   * Check a phone's download_model request against the desktop's download
+   * limits, then ask the desktop user to approve it.
+   */
+  async function handleDownloadModelRequest(peer: Peer, msg: ClientMessageOf<'download_model'>): Promise<void> {
+    const requestId = msg.id || '';
+    const repoId = msg.repoId.trim();
+    const fileName = msg.fileName.trim();
+    const mmprojFileName = msg.mmprojFileName?.trim() || undefined;
+    const fail = (message: string, code: ProtocolErrorCode | null = null) =>
+      sendJsonSafe(peer, errorFrame(requestId, code, message));
+
+    // Files land under the models folder, so never accept a relative path out of it.
+    const isGgufPath = (name: string) =>
+      /\.gguf$/i.test(name) && name.split(/[\\/]/).indexOf('..') === -1;
+    if (!/^[\w.-]+\/[\w.-]+$/.test(repoId) || !isGgufPath(fileName)) {
+      await fail(
+        'download_model requires a Hugging Face repoId ("owner/repo") and a .gguf fileName',
+        'invalid_request',
+      );
+      return;
+    }
+    if (mmprojFileName && !isGgufPath(mmprojFileName)) {
+      await fail('mmprojFileName must be a .gguf file', 'invalid_request');
+      return;
+    }
+    if (
+      !window.modelManager?.listHfFiles ||
+      !window.modelManager?.downloadHf ||
+      !window.modelManager?.getFreeDiskSpace ||
+      !window.settings?.get
+    ) {
+      logRendererError('Model manager or settings bridge not available in preload');
+      await fail('Downloads are not available on this desktop', 'download_failed');
+      return;
+    }
 
-              if (contentTok) {
-                await sendJsonSafe(peer, {
-                  t: 'token',
-                  id,
-                  tok: String(contentTok),
-                });
-              }
+    const modelId = `${repoId}/${fileName}`;
+    const pendingForPeer = Array.from(remoteDownloads.values()).some(
+      (d) => d.peer.id === peer.id && !d.approved,
+    );
+    if (remoteDownloads.has(modelId) || pendingForPeer) {
+      await fail(
+        'A download of this model, or another request from this device, is already in progress',
+        'download_in_progress',
+      );
+      return;
+    }
 
-              if (done) {
-                await sendJsonSafe(peer, { t: 'end', id });
-                return;
-              }
-            } catch (parseErr) {
-              // If JSON parsing fails, treat the data as raw text
-              logRendererError('Failed to parse SSE data as JSON', parseErr as Error, {
-                line: jsonStr.slice(0, 256),
-              });
-            }
-          } else if (line.startsWith(':')) {
-            // SSE comment, ignore
-            continue;
-          } else if (line) {
-            // Try parsing non-SSE format as fallback
-            let contentTok: string | undefined;
-            let reasoningTok: string | undefined;
-            try {
-              const json = JSON.parse(line);
-              contentTok =
-                json.choices?.[0]?.delta?.content ??
-                json.choices?.[0]?.message?.content ??
-                undefined;
-              reasoningTok =
-                json.choices?.[0]?.delta?.reasoning_content ?? undefined;
+    try {
+      const { models } = await window.modelManager.list();
+      if (models.some((m) => m.id === modelId && m.installed)) {
+        await fail(`Model already installed: ${modelId}`, 'already_installed');
+        return;
+      }
 
-              const done =
-                json.done === true || !!json.choices?.[0]?.finish_reason;
+      const files = await window.modelManager.listHfFiles(repoId);
+      if (!files.ok) {
+        throw new Error((files as { ok: false; error: string }).error);
+      }
+      const file = files.files.find((f) => f.name === fileName);
+      const mmproj = mmprojFileName
+        ? files.files.find((f) => f.name === mmprojFileName)
+        : undefined;
+      if (!file || (mmprojFileName && !mmproj)) {
+        await fail(`File not found in ${repoId}: ${file ? mmprojFileName : fileName}`, 'model_not_found');
+        return;
+      }
 
-              if (reasoningTok) {
-                await sendJsonSafe(peer, {
-                  t: 'reasoning_token',
-                  id,
-                  tok: String(reasoningTok),
-                });
-              }
+      const sizeKnown =
+        typeof file.size === 'number' && (!mmproj || typeof mmproj.size === 'number');
+      const sizeBytes = sizeKnown ? file.size + (mmproj ? mmproj.size : 0) : undefined;
+
+      const settings = await window.settings.get();
+      const limits = settings.ok ? settings.settings.downloads : null;
+      const maxBytes = (limits?.maxModelMb || 0) * 1024 * 1024;
+      if (maxBytes > 0 && (sizeBytes === undefined || sizeBytes > maxBytes)) {
+        await fail(
+          sizeBytes === undefined
+            ? 'The download size is unknown and this desktop limits download size'
+            : `The download is larger than this desktop allows (${limits.maxModelMb} MB)`,
+          'download_too_large',
+        );
+        return;
+      }
 
-              if (contentTok) {
-                await sendJsonSafe(peer, {
-                  t: 'token',
-                  id,
-                  tok: String(contentTok),
-                });
-              }
+      const disk = await window.modelManager.getFreeDiskSpace();
+      const reserveBytes = (limits?.minFreeDiskMb || 0) * 1024 * 1024;
+      if (
+        disk.ok &&
+        typeof disk.freeBytes === 'number' &&
+        disk.freeBytes - (sizeBytes || 0) < reserveBytes
+      ) {
+        await fail('Not enough free disk space on the desktop for this model', 'insufficient_disk_space');
+        return;
+      }
 
-              if (done) {
-                await sendJsonSafe(peer, { t: 'end', id });
-                return;
-              }
-            } catch {
-              // Not JSON, skip
-            }
-          }
-        }
+      const download: RemoteDownload = {
+        peer,
+        requestId,
+        modelId,
+        repoId,
+        fileName,
+        mmprojFileName,
+        approved: false,
+        cancelled: false,
+        lastProgressAt: 0,
+      };
+      const session = getPeerSession(peer);
+      const sizeText =
+        sizeBytes === undefined
+          ? 'unknown size'
+          : sizeBytes >= 1024 * 1024 * 1024
+            ? `${(sizeBytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+            : `${(sizeBytes / (1024 * 1024)).toFixed(2)} MB`;
+      const shown = showPeerDownloadRequest(
+        peer,
+        `"${session.deviceName || session.deviceId}" wants to download ${fileName} from ${repoId} (${sizeText}).`,
+        (allow) => void handleDownloadDecision(modelId, allow),
+      );
+      if (!shown) {
+        await fail('The desktop cannot show the download request right now', 'download_denied');
+        return;
       }
 
-      await sendJsonSafe(peer, { t: 'end', id });
+      remoteDownloads.set(modelId, download);
+      uiLog.info('Download requested by peer', { id: peer.id, modelId, sizeBytes });
+      await sendJsonSafe(peer, { t: 'download_pending', id: requestId, modelId, sizeBytes });
     } catch (err) {
-      logRendererError(
-        'Error while streaming llama completion via HTTP in renderer',
-        err as Error,
-        {
-          id,
-        },
-      );
+      logRendererError('Error handling download_model request', err as Error, {
+        peerId: peer.id,
+        modelId,
+      });
+      await fail((err as Error)?.message || String(err), 'download_failed');
+    }
+  }
+
+  async function handleDownloadDecision(modelId: string, allow: boolean): Promise<void> {
+    const download = remoteDownloads.get(modelId);
+    if (!download || download.approved) return;
+    const { peer, requestId } = download;
+    clearPeerDownloadRequest(peer);
+    uiLog.info('Download request decision', { id: peer.id, modelId, allow });
+
+    if (!allow) {
+      remoteDownloads.delete(modelId);
       await sendJsonSafe(peer, {
         t: 'error',
-        id,
-        message:
-          (err as Error)?.message ||
-          'Unknown error during completion via llama HTTP',
+        id: requestId,
+        code: 'download_denied',
+        message: 'The desktop user declined the download',
       });
       return;
     }
 
-    return;
+    download.approved = true;
+    const res = await window.modelManager.downloadHf({
+      repoId: download.repoId,
+      fileName: download.fileName,
+      mmprojFileName: download.mmprojFileName,
+    });
+    remoteDownloads.delete(modelId);
+
+    // The download belongs to the desktop now; it finishes even if the phone left.
+    if (!peerSessions.has(peer.id)) return;
+    if (download.cancelled) {
+      await sendJsonSafe(peer, { t: 'download_cancelled', id: requestId, modelId });
+    } else if (res.ok) {
+      await sendJsonSafe(peer, { t: 'download_progress', id: requestId, modelId, stage: 'complete' });
+    } else {
+      await sendJsonSafe(peer, {
+        t: 'error',
+        id: requestId,
+        code: 'download_failed',
+        message: res.error || 'Download failed',
+      });
+    }
   }
 
-  p2pcf.on('msg', (peer: Peer, data: ArrayBuffer) => {
-    const meta = {
-      id: peer.id,
-      client_id: peer.clientId,
-    };
+  async function handleCancelDownloadRequest(peer: Peer, msg: ClientMessageOf<'cancel_download'>): Promise<void> {
+    const requestId = msg.id || '';
+    const { modelId } = msg;
+    const download = remoteDownloads.get(modelId);
+    if (!download || download.peer.id !== peer.id) {
+      await sendJsonSafe(peer, {
+        t: 'error',
+        id: requestId,
+        code: 'download_not_found',
+        message: `No download of ${modelId || '(missing modelId)'} requested by this device`,
+      });
+      return;
+    }
 
-    try {
-      const asString = new TextDecoder().decode(data);
+    download.cancelled = true;
+    if (!download.approved) {
+      remoteDownloads.delete(modelId);
+      clearPeerDownloadRequest(peer);
+      await sendJsonSafe(peer, { t: 'download_cancelled', id: download.requestId, modelId });
+      return;
+    }
+    // handleDownloadDecision sends "download_cancelled" once downloadHf returns.
+    const res = await window.modelManager?.cancelDownload(modelId);
+    if (!res?.ok) {
+      logRendererError('Failed to cancel download for peer', undefined, {
+        peerId: peer.id,
+        modelId,
+        error: res?.error,
+      });
+    }
+  }
 
-      let msg: P2PMessage;
-      try {
-        msg = JSON.parse(asString);
-      } catch (parseErr) {
-        logRendererError('Failed to parse P2PCF msg as JSON', parseErr as Error, {
-          ...meta,
-          raw: asString.slice(0, 256),
-        });
-        return;
+  /**
+   * Forget requests still awaiting approval from a peer that disconnected.
+   * Approved downloads keep running.
+   */
+  function dropDownloadRequestsForPeer(peer: Peer): void {
+    for (const [modelId, download] of remoteDownloads) {
+      if (download.peer.id === peer.id && !download.approved) {
+        remoteDownloads.delete(modelId);
       }
+    }
+  }
+  /**
+   * Combine llama-server's final "usage" and "timings" into the end frame's
+   * stats. Token counts fall back to timings when usage is missing.
+   */
+  function completionStats(
+    usage: { prompt_tokens?: number; completion_tokens?: number } | null,
+    timings: LlamaTimings | null,
+    finishReason: string | undefined,
+  ): CompletionStats {
+    const num = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    const stats: CompletionStats = {};
+    const promptTokens = num(usage?.prompt_tokens) ?? num(timings?.prompt_n);
+    const completionTokens = num(usage?.completion_tokens) ?? num(timings?.predicted_n);
+    const promptMs = num(timings?.prompt_ms);
+    const predictedPerSecond = num(timings?.predicted_per_second);
+    if (promptTokens !== undefined) stats.prompt_tokens = promptTokens;
+    if (completionTokens !== undefined) stats.completion_tokens = completionTokens;
+    if (promptMs !== undefined) stats.prompt_ms = Math.round(promptMs * 10) / 10;
+    if (predictedPerSecond !== undefined) {
+      stats.predicted_per_second = Math.round(predictedPerSecond * 100) / 100;
+    }
+    if (finishReason) stats.finish_reason = finishReason;
+    return stats;
+  }
 
-      if (!msg || typeof msg.t !== 'string') {
-        logRendererError('Received JSON without type field "t"', undefined, {
-          ...meta,
-          msg,
-        });
-        return;
+  /**
+   * Swap attachment references in `messages` for data URLs, in place. Returns
+   * the error to send back when the prompt cannot be served.
+   */
+  async function resolvePromptImages(
+    peer: Peer,
+    id: string,
+    imageCount: number,
+    messages: ChatMessage[],
+  ): Promise<{ code: ProtocolErrorCode; message: string } | null> {
+    if (imageCount > MAX_IMAGES_PER_PROMPT) {
+      return {
+        code: 'invalid_request',
+        message: `Invalid prompt: at most ${MAX_IMAGES_PER_PROMPT} images are allowed`,
+      };
+    }
+    const active = await window.modelManager?.getActive();
+    if (!active?.vision) {
+      logRenderer('Prompt refused: active model has no vision support', {
+        peerId: peer.id,
+        id,
+        modelId: active?.model?.id,
+      });
+      return {
+        code: 'vision_unsupported',
+        message: 'The active model on the desktop cannot read images',
+      };
+    }
+    const resolved = resolveImageParts(messages, getPeerSession(peer).attachments);
+    if ('error' in resolved) {
+      logRendererError('Prompt refused: bad image reference', undefined, {
+        peerId: peer.id,
+        id,
+        error: resolved.error,
+      });
+      return { code: 'attachment_missing', message: resolved.error };
+    }
+    messages.splice(0, messages.length, ...resolved.messages);
+    return null;
+  }
+
+  /**
+   * Find or (with session_new) start the session a prompt continues, checking
+   * that it is free and has room for the new turns. `restart` is set when
+   * session_new names an existing session: its history is only replaced once
+   * the prompt succeeds.
+   */
+  function openConversation(
+    deviceId: string,
+    sessionId: string,
+    sessionNew: boolean,
+    messages: ChatMessage[],
+  ): { session: ConversationSession; restart: boolean } | { error: string; code: ProtocolErrorCode } {
+    const existing = conversations.get(deviceId, sessionId);
+    if (existing?.busy) {
+      return { code: 'session_busy', error: 'This session is already generating a reply' };
+    }
+    if (!sessionNew && !existing) {
+      return {
+        code: 'session_not_found',
+        error: 'Unknown or expired session; resend the full history with session_new: true',
+      };
+    }
+    let session = existing;
+    if (sessionNew) {
+      const started = conversations.start(deviceId, sessionId);
+      if (!started.ok) {
+        const refused = started as Extract<typeof started, { ok: false }>;
+        return { code: refused.code, error: refused.message };
       }
+      session = started.session;
+    }
+    const restart = sessionNew && !!existing;
+    if (!conversations.hasRoom(session, messages, sessionNew)) {
+      return {
+        code: 'session_full',
+        error: 'This session has reached its size limit; close it and start a new one',
+      };
+    }
+    return { session, restart };
+  }
 
-      switch (msg.t) {
-        case 'hello':
-          logRenderer('Received hello from peer', {
-            ...meta,
-            clientId: msg.clientId,
-            impl: msg.impl,
-            version: msg.version,
-          });
-          break;
+  function handleSessionClose(peer: Peer, msg: ClientMessageOf<'session_close'>): void {
+    const sessionId = normalizeSessionId(msg.session_id);
+    if (!sessionId) {
+      void sendJsonSafe(peer, invalidRequestFrame('', 'session_close requires a session_id'));
+      return;
+    }
+    const deviceId = getPeerSession(peer).deviceId || peer.id;
+    const found = conversations.close(deviceId, sessionId);
+    logRenderer('Closed conversation session', { peerId: peer.id, sessionId, found });
+    void sendJsonSafe(peer, { t: 'session_closed', session_id: sessionId, found });
+  }
 
-        case 'version_negotiate':
-          logRenderer('Received version_negotiate from peer', {
-            ...meta,
-            protocolVersion: msg.protocolVersion,
-            minCompatibleVersion: msg.minCompatibleVersion,
-          });
-          // Send version_ack response - for now, accept all versions
-          void sendJsonSafe(peer, {
-            t: 'version_ack',
-            compatible: true,
-            protocolVersion: '1.0.0',
-          });
-          break;
+  async function handleEmbedRequest(peer: Peer, msg: ClientMessageOf<'embed'>): Promise<void> {
+    const { id } = msg;
+    const fail = (message: string, code: ProtocolErrorCode | null = null) =>
+      sendJsonSafe(peer, errorFrame(id, code, message));
 
-        case 'prompt':
-          logRenderer('Received prompt over P2PCF', {
-            ...meta,
-            id: msg.id,
-            messageCount: Array.isArray(msg.messages) ? msg.messages.length : 0,
-          });
-          void handlePromptRequest(peer, msg);
-          break;
+    const input = normalizeEmbedInput(msg.input);
+    if ('error' in input) {
+      await fail(`Invalid embed: ${input.error}`, 'invalid_request');
+      return;
+    }
+    if (!window.llama?.ensureEmbeddingServer) {
+      await fail('Embeddings are not available on this desktop', 'embedding_unavailable');
+      return;
+    }
 
-        case 'get_model':
-          logRenderer('Received get_model request from peer', meta);
-          void handleGetModelRequest(peer);
-          break;
+    const deviceId = getPeerSession(peer).deviceId || peer.id;
+    const releaseRate = await admitRequest(peer, id, deviceId);
+    if (!releaseRate) return;
 
-        default:
-          logRenderer('Ignoring unknown P2PCF msg type', {
-            ...meta,
-            t: msg.t,
-          });
+    try {
+      const server = await window.llama.ensureEmbeddingServer();
+      if (!server.ok || !server.endpoint) {
+        await fail(server.error || 'No embedding model is available', 'embedding_unavailable');
+        return;
+      }
+      // A freshly started server answers 503 until the model has loaded.
+      if (!(await waitForModelLoaded(server.endpoint, () => undefined))) {
+        await fail('The embedding model did not finish loading', 'embedding_failed');
+        return;
       }
-    } catch (err) {
-      logRendererError('Unhandled error in P2PCF msg handler', err as Error, meta);
-    }
-  });
 
-  // Start polling after listeners are attached
-  uiLog.info('Starting P2PCF client');
-  p2pcf.start();
+      const res = await fetch(`${server.endpoint}/v1/embeddings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input: input.inputs, model: server.modelId, encoding_format: 'float' }),
+      });
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Embedding server error ${res.status}: ${text || res.statusText}`);
+      }
+      const result = parseEmbeddingResponse(await res.json(), input.inputs.length);
 
-  return p2pcf;
-}
+      if (result.promptTokens !== undefined && window.usage?.record) {
+        void window.usage.record(deviceId, { promptTokens: result.promptTokens, completionTokens: 0 });
+      }
+      logRenderer('Embed request completed', {
+        peerId: peer.id,
+        id,
+        inputs: input.inputs.length,
+        dimensions: result.dimensions,
+      });
+      await sendJsonSafe(peer, {
+        t: 'embedding',
+        id,
+        model: server.modelId,
+        dimensions: result.dimensions,
+        embeddings: result.embeddings,
+        ...(result.promptTokens !== undefined ? { promptTokens: result.promptTokens } : {}),
+      });
+    } catch (err) {
+      logRendererError('Embed request failed', err, { peerId: peer.id, id });
+      await fail((err as Error)?.message || 'Embedding failed', 'embedding_failed');
+    } finally {
+      releaseRate();
+    }
+  }
 
-declare global {
-  interface Window {
-    logger?: {
-      log: (message: string, extra?: Record<string, unknown>) => void;
-      error: (message: string, extra?: Record<string, unknown>) => void;
-    };
+  /**
+   * Apply the device's daily token budget and rate limits to a prompt, embed
+   * or token counting request. Returns the function that frees its
+   * concurrency slot, or null after sending the "quota_exceeded" /
+   * "rate_limited" error.
+   */
+  async function admitRequest(peer: Peer, id: string, deviceId: string): Promise<(() => void) | null> {
+    const quota = await window.usage?.checkQuota(deviceId);
+    if (quota?.ok && !quota.allowed) {
+      const exceeded = quota as Extract<QuotaCheckResult, { allowed: false }>;
+      logRenderer('Request refused: daily token budget used up', {
+        peerId: peer.id,
+        deviceId,
+        limit: exceeded.limit,
+      });
+      await sendJsonSafe(peer, {
+        t: 'error',
+        id,
+        code: 'quota_exceeded',
+        limit: exceeded.limit,
+        retryAfter: exceeded.retryAfter,
+        message: 'Daily token budget for this device is used up',
+      });
+      return null;
+    }
 
-    llama?: {
-      // Setup / IPC helpers still bridged via preload
-      getStatus?: () => Promise<{
-        ok: boolean;
-        endpoint: string;
-        error?: string;
-      }>;
+    const rate = rateLimiter.tryAcquire(
+      deviceId,
+      quota?.ok ? quota.limits : { requestsPerMinute: 0, maxConcurrentPerPeer: 0 },
+    );
+    if (!rate.ok) {
+      const limited = rate as Extract<RateLimitResult, { ok: false }>;
+      logRenderer('Request refused: rate limited', {
+        peerId: peer.id,
+        deviceId,
+        limit: limited.limit,
+      });
+      await sendJsonSafe(peer, {
+        t: 'error',
+        id,
+        code: 'rate_limited',
+        limit: limited.limit,
+        retryAfter: limited.retryAfter,
+        message:
+          limited.limit === 'requests_per_minute'
+            ? 'Too many requests from this device; try again later'
+            : 'Too many prompts from this device are already running',
+      });
+      return null;
+    }
+    return (rate as Extract<RateLimitResult, { ok: true }>).release;
+  }
 
-      getInstallStatus?: () => Promise<{
-        installed: boolean;
-        version?: string;
-        binaryPath?: string;
-        error?: string;
-      }>;
+  /**
+   * Validate a "prompt" message. Sends the error itself and returns null when
+   * the prompt cannot be served.
+   */
+  async function parseChatPrompt(peer: Peer, msg: PromptMessage): Promise<ChatGeneration | null> {
+    const { id } = msg;
+    const messages = normalizeChatMessages(msg.messages);
 
-      installLatest?: (
-        onProgress?: (p: {
-          type:
-            | 'status'
-            | 'download-start'
-            | 'download-progress'
-            | 'download-complete'
-            | 'install-complete'
-            | 'error';
-          message?: string;
-          url?: string;
-          totalBytes?: number;
-          receivedBytes?: number;
-          filePath?: string;
-          version?: string;
-          binaryPath?: string;
-        }) => void,
-      ) => Promise<{
-        installed: boolean;
-        version?: string;
-        binaryPath?: string;
-        error?: string;
-      }>;
+    if (!messages.length) {
+      logRendererError('Invalid prompt message; messages array is empty or malformed', undefined, {
+        msg,
+      });
+      await sendJsonSafe(
+        peer,
+        invalidRequestFrame(id, 'Invalid prompt: messages array is empty or malformed'),
+      );
+      return null;
+    }
 
-      ensureServer?: () => Promise<{
-        ok: boolean;
-        endpoint?: string;
-        error?: string;
-      }>;
+    // Server-side history (protocol >= 1.13.0): messages are only the new turns.
+    const useSession =
+      msg.session_id !== undefined &&
+      isProtocolAtLeast(getPeerSession(peer).protocolVersion, '1.13.0');
+    const sessionId = useSession ? normalizeSessionId(msg.session_id) : null;
+    if (useSession && !sessionId) {
+      await sendJsonSafe(
+        peer,
+        invalidRequestFrame(
+          id,
+          'Invalid prompt: session_id must be a non-empty string of at most 128 characters',
+        ),
+      );
+      return null;
+    }
 
-      onAppBeforeQuit?: (handler: (notifyComplete: () => void) => void) => () => void;
+    const toolsResult = normalizeTools(msg.tools);
+    const toolChoiceResult =
+      'error' in toolsResult ? toolsResult : normalizeToolChoice(msg.tool_choice, toolsResult.tools);
+    if ('error' in toolChoiceResult) {
+      logRendererError('Invalid prompt message; bad tools', undefined, {
+        id,
+        error: toolChoiceResult.error,
+      });
+      await sendJsonSafe(peer, invalidRequestFrame(id, `Invalid prompt: ${toolChoiceResult.error}`));
+      return null;
+    }
+    const tools = (toolsResult as { tools: ToolDefinition[] | null }).tools;
+    const toolChoice = toolChoiceResult.toolChoice;
+
+    const formatResult = normalizeResponseFormat(msg.response_format);
+    const grammarResult = normalizeGrammar(msg.grammar);
+    let constraintError = 'error' in formatResult ? formatResult.error : null;
+    if (!constraintError && 'error' in grammarResult) constraintError = grammarResult.error;
+    const responseFormat = 'error' in formatResult ? null : formatResult.responseFormat;
+    const grammar = 'error' in grammarResult ? null : grammarResult.grammar;
+    if (!constraintError && responseFormat && grammar) {
+      constraintError = 'response_format and grammar cannot be used together';
+    }
+    // llama-server builds its own grammar for tool calls.
+    if (!constraintError && tools && (responseFormat || grammar)) {
+      constraintError = 'response_format and grammar cannot be combined with tools';
+    }
+    if (constraintError) {
+      logRendererError('Invalid prompt message; bad output constraint', undefined, {
+        id,
+        error: constraintError,
+      });
+      await sendJsonSafe(peer, invalidRequestFrame(id, `Invalid prompt: ${constraintError}`));
+      return null;
+    }
 
-      getServerStatus?: () => Promise<{
-        running: boolean;
-        port: number | null;
-        modelPath: string | null;
-        modelName: string | null;
-        uptime: number | null;
-      }>;
-    };
+    const imageCount = countImageParts(messages);
+    if (imageCount) {
+      const imageError = await resolvePromptImages(peer, id, imageCount, messages);
+      if (imageError) {
+        await sendJsonSafe(peer, errorFrame(id, imageError.code, imageError.message));
+        return null;
+      }
+    }
 
-    llamaLogs?: {
-      getHistory: () => Promise<Array<{
-        timestamp: number;
-        level: 'info' | 'error';
-        message: string;
-      }>>;
-      onLogEntry: (handler: (entry: {
-        timestamp: number;
-        level: 'info' | 'error';
-        message: string;
-      }) => void) => () => void;
+    return {
+      kind: 'chat',
+      messages,
+      sessionId,
+      sessionNew: msg.session_new === true,
+      tools,
+      toolChoice,
+      responseFormat,
+      grammar,
+      imageCount,
     };
   }
-}
 
-let p2pcf: P2PCF | null = null;
+  async function handlePromptRequest(peer: Peer, msg: PromptMessage): Promise<void> {
+    const request = await parseChatPrompt(peer, msg);
+    if (request) await runGeneration(peer, msg.id, msg, request);
+  }
 
-/**
- * DOM helpers and UI wiring
- */
+  async function handleCompleteRequest(peer: Peer, msg: CompleteMessage): Promise<void> {
+    const { id } = msg;
+    const request = normalizeCompletionRequest(msg);
+    if ('error' in request) {
+      await sendJsonSafe(peer, invalidRequestFrame(id, `Invalid complete: ${request.error}`));
+      return;
+    }
+    await runGeneration(peer, id, msg, { kind: 'complete', ...request });
+  }
 
-function q(id: string): HTMLElement | null {
-  return document.getElementById(id);
-}
+  /**
+   * Serve a validated prompt or complete request: limits, scheduling, the
+   * llama-server stream and the final frame. `msg` supplies sampling overrides.
+   */
+  async function runGeneration(
+    peer: Peer,
+    id: string,
+    msg: PromptMessage | CompleteMessage,
+    request: GenerationRequest,
+  ): Promise<void> {
+    const chat = request.kind === 'chat' ? request : null;
+    const completion = request.kind === 'complete' ? request : null;
+    const messages = chat ? chat.messages : [];
+    const sessionId = chat ? chat.sessionId : null;
+    const tools = chat ? chat.tools : null;
+    const toolChoice = chat ? chat.toolChoice : undefined;
+    const responseFormat = chat ? chat.responseFormat : null;
+    const grammar = chat ? chat.grammar : null;
+    const imageCount = chat ? chat.imageCount : 0;
+
+    if (!window.llama?.ensureServer || !window.modelManager?.resolveSampling) {
+      await sendJsonSafe(peer, {
+        t: 'error',
+        id,
+        message: 'Llama server control API not available in preload bridge',
+      });
+      return;
+    }
 
-function setText(id: string, text: string): void {
-  const node = q(id);
-  if (node) node.textContent = text;
-}
+    // Limits are tracked per device so that reconnecting does not reset them.
+    const deviceId = getPeerSession(peer).deviceId || peer.id;
+    const releaseRate = await admitRequest(peer, id, deviceId);
+    if (!releaseRate) return;
 
-// Logger helpers for console output only (activity log UI removed)
-const uiLog = {
-  info(message: string, extra?: Record<string, unknown>) {
-    logRenderer(message, extra);
-  },
-  error(message: string, error?: unknown, extra?: Record<string, unknown>) {
-    logRendererError(message, error, extra);
-  },
-};
+    const key = promptKey(peer, id);
+    if (inFlightPrompts.has(key)) {
+      releaseRate();
+      logRendererError('Duplicate prompt id from peer; ignoring', undefined, {
+        peerId: peer.id,
+        id,
+      });
+      await sendJsonSafe(peer, {
+        t: 'error',
+        id,
+        message: 'A prompt with this id is already in progress',
+      });
+      return;
+    }
 
-function updateLlamaStatus(_text: string, _variant: 'muted' | 'ok' | 'warn') {
-  // Llama status indicator removed from UI; this is a no-op to keep callers safe.
-}
+    let conversation: ConversationSession | null = null;
+    // session_new on an existing session: its old history is not sent to the
+    // model and is replaced only when the reply succeeds.
+    let restartConversation = false;
+    if (sessionId) {
+      const opened = openConversation(deviceId, sessionId, chat.sessionNew, messages);
+      if ('error' in opened) {
+        releaseRate();
+        logRenderer('Prompt refused: session unavailable', {
+          peerId: peer.id,
+          id,
+          sessionId,
+          code: opened.code,
+        });
+        await sendJsonSafe(peer, errorFrame(id, opened.code, opened.error));
+        return;
+      }
+      conversation = opened.session;
+      restartConversation = opened.restart;
+      conversation.busy = true;
+    }
 
-function updateP2PStatus(_text: string, _variant: 'muted' | 'ok' | 'warn') {
-  // P2P status indicator removed from UI; this is a no-op to keep callers safe.
-}
+    // Every frame for this prompt goes through its stream, which follows the
+    // phone to a new connection after "resume".
+    const stream = new ResumableStream<ServerMessage>((frame) => sendJsonSafe(peer, frame));
+    // Resuming after a reconnect was added in protocol 1.14.0.
+    const resumeKey = isProtocolAtLeast(getPeerSession(peer).protocolVersion, '1.14.0')
+      ? streamKey(deviceId, id)
+      : null;
+    const entry: InFlightPrompt = {
+      controller: new AbortController(),
+      notifyPeer: true,
+      peer,
+      stream,
+      resumeKey,
+    };
+    inFlightPrompts.set(key, entry);
+    if (resumeKey) {
+      resumableStreams.get(resumeKey)?.cancelExpiry();
+      resumableStreams.set(resumeKey, stream);
+    }
 
-function addPeerToList(peer: Peer) {
-  const list = q('peer-list');
-  if (!list) return;
-  if (list.dataset.empty === '1') {
-    list.textContent = '';
-    delete list.dataset.empty;
-  }
+    // "queued" frames were added in protocol 1.5.0.
+    const sendQueued = isProtocolAtLeast(getPeerSession(peer).protocolVersion, '1.5.0');
+    const release = await scheduler.acquire(peer.id, {
+      signal: entry.controller.signal,
+      onPosition: sendQueued
+        ? (position) => void stream.sendTransient({ t: 'queued', id, position })
+        : undefined,
+    });
+    if (!release) {
+      inFlightPrompts.delete(promptKey(entry.peer, id));
+      releaseRate();
+      if (conversation) conversation.busy = false;
+      logRenderer('Prompt cancelled while queued', {
+        peerId: entry.peer.id,
+        id,
+        notifyPeer: entry.notifyPeer,
+      });
+      if (entry.notifyPeer) {
+        await stream.emit({ t: 'cancelled', id });
+      }
+      retireStream(resumeKey, stream);
+      return;
+    }
 
-  const id = peer.clientId || peer.id || 'peer-' + Math.random().toString(36).slice(2);
-  const safeId = String(id);
+    // Batch token output when the client negotiated a window (protocol >= 1.9.0).
+    const coalesceWindow = getPeerSession(peer).coalesce;
+    const coalescer = coalesceWindow
+      ? new TokenCoalescer(coalesceWindow, (t, tok) => stream.emit({ t, id, tok }))
+      : null;
+    // The reply is kept for the session history.
+    let replyText = '';
+    const replyToolCalls: ToolCall[] = [];
+    // llama-server streams one token per chunk.
+    let streamedTokens = 0;
+    const sendToken = (t: TokenFrameType, tok: string): Promise<void> => {
+      if (t === 'token') replyText += tok;
+      streamedTokens += 1;
+      return coalescer ? coalescer.push(t, tok) : stream.emit({ t, id, tok });
+    };
 
-  let row = list.querySelector<HTMLElement>(
-    `[data-peer-id="${CSS.escape(safeId)}"]`,
-  );
-  if (!row) {
-    row = document.createElement('div');
-    row.className = 'md-peer-item';
-    row.dataset.peerId = safeId;
+    // Token counts from llama-server's final chunks. A prompt that is
+    // cancelled, times out or fails never gets them, so its usage is estimated
+    // from the prompt sent and the tokens streamed so far.
+    let usage: { prompt_tokens?: number; completion_tokens?: number } | null = null;
+    let timings: LlamaTimings | null = null;
+    let promptTokenEstimate = 0;
+    let usageRecorded = false;
+    const recordUsage = (): void => {
+      if (usageRecorded || !promptTokenEstimate) return;
+      usageRecorded = true;
+      const stats = completionStats(usage, timings, undefined);
+      const promptTokens = stats.prompt_tokens ?? promptTokenEstimate;
+      const completionTokens = stats.completion_tokens ?? streamedTokens;
+      void window.usage?.record(deviceId, { promptTokens, completionTokens });
+    };
 
-    const label = document.createElement('div');
-    label.textContent = safeId;
-    label.className = 'md-peer-id';
+    await stream.emit({ t: 'start', id });
 
-    const badge = document.createElement('div');
-    badge.className = 'md-pill md-pill-ok';
-    badge.textContent = 'connected';
+    try {
+      // Resolve the active model's params plus any per-request overrides.
+      // Clamping happens in the main process (modelManager.resolveSamplingParams).
+      const resolved = await window.modelManager.resolveSampling({
+        temperature: msg.temperature,
+        top_p: msg.top_p,
+        top_k: msg.top_k,
+        max_tokens: msg.max_tokens,
+        stop: msg.stop,
+        seed: msg.seed,
+        repeat_penalty: msg.repeat_penalty,
+        min_p: msg.min_p,
+      });
+      if (!resolved.ok) {
+        throw new Error(
+          (resolved as { ok: false; error: string }).error ||
+            'Failed to resolve sampling params',
+        );
+      }
+      const { sampling } = resolved;
 
-    row.appendChild(label);
-    row.appendChild(badge);
-    list.appendChild(row);
-  } else {
-    const badge =
-      row.querySelector<HTMLElement>('.md-pill') ||
-      (() => {
-        const b = document.createElement('div');
-        b.className = 'md-pill';
-        row!.appendChild(b);
-        return b;
-      })();
-    badge.className = 'md-pill md-pill-ok';
-    badge.textContent = 'connected';
-  }
-}
+      logRenderer('Ensuring llama-server before HTTP streaming', {
+        id,
+        sampling,
+        sessionId,
+        messageCount: messages.length,
+        toolCount: tools ? tools.length : 0,
+        imageCount,
+      });
 
-function removePeerFromList(peer: Peer) {
-  const list = q('peer-list');
-  if (!list) return;
-  const safeId = String(peer.clientId || peer.id || '');
-  if (!safeId) return;
+      const ensure = await window.llama.ensureServer();
+      if (!ensure.ok || !ensure.endpoint) {
+        throw new Error(
+          ensure.error || 'Failed to start or discover llama-server endpoint',
+        );
+      }
 
-  const row = list.querySelector<HTMLElement>(
-    `[data-peer-id="${CSS.escape(safeId)}"]`,
-  );
-  if (row) {
-    row.remove();
-  }
+      const endpoint = `${ensure.endpoint}${
+        completion ? completionEndpoint(completion) : '/v1/chat/completions'
+      }`;
+      logRenderer('Resolved llama-server HTTP endpoint for streaming', {
+        endpoint,
+      });
 
-  if (!list.children.length) {
-    list.textContent = '';
-    list.classList.remove('md-text-muted');
-    (list as any).dataset.empty = '1';
-  }
-}
+      // Chats that would overflow the context are shortened with the model's
+      // strategy; a session's stored history is replaced once the reply is in.
+      let promptMessages =
+        conversation && !restartConversation ? [...conversation.messages, ...messages] : messages;
+      let truncation: ContextTruncation | null = null;
+      if (chat) {
+        const lastUser = messages.map((m) => m.role).lastIndexOf('user');
+        const fitted = await fitPromptToContext(
+          ensure.endpoint,
+          promptMessages,
+          conversation ? messages.length : messages.length - Math.max(0, lastUser),
+          tools,
+          sampling.max_tokens,
+          entry.controller.signal,
+        );
+        if (!fitted.ok) {
+          const { message } = fitted as Extract<ContextFitResult, { ok: false }>;
+          logRenderer('Prompt refused: context overflow', { peerId: peer.id, id, message });
+          await stream.emit({ t: 'error', id, code: 'context_overflow', message });
+          return;
+        }
+        promptMessages = fitted.messages;
+        truncation = fitted.truncation;
+        if (truncation) {
+          logRenderer('Prompt shortened to fit the context window', { id, ...truncation });
+        }
+      }
 
-async function initP2PCFWithCurrentRoom(): Promise<void> {
-  const roomId = await getOrCreateRoomId();
-  updateRoomIdDisplay(roomId);
+      const body: any = completion ? completionRequestBody(completion, sampling) : {
+        model: 'local-model',
+        ...sampling,
+        messages: promptMessages,
+        // Keep the session on one slot so its KV cache prefix is reused.
+        ...(conversation
+          ? { id_slot: conversations.assignSlot(conversation, ensure.slots || 1), cache_prompt: true }
+          : {}),
+        ...(tools ? { tools } : {}),
+        ...(toolChoice ? { tool_choice: toolChoice } : {}),
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+        ...(grammar ? { grammar } : {}),
+        stream: true,
+        // Ask for token counts in the final chunk; they feed the daily budgets.
+        stream_options: { include_usage: true },
+      };
 
-  if (p2pcf) {
-    try {
-      uiLog.info('Destroying previous P2PCF instance before re-init');
-      p2pcf.destroy();
-    } catch (e) {
-      uiLog.error('Error destroying previous P2PCF instance', e as Error);
-    }
-    p2pcf = null;
-  }
+      // From here on llama-server does work the device is charged for.
+      promptTokenEstimate = completion
+        ? estimateTokens(completion.prompt + (completion.suffix || ''))
+        : estimateChatTokens(
+            promptMessages,
+            tools ? new TextEncoder().encode(JSON.stringify(tools)).length : 0,
+          );
 
-  p2pcf = createP2PCFClient(roomId);
-}
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: entry.controller.signal,
+      });
 
-function setupRoomControls(): void {
-  const newRoomButton = q('new-room-btn');
-  const copyRoomButton = q('copy-room-btn');
+      if (!res.body || !res.ok) {
+        const text = await res.text().catch(() => '');
+        logRendererError('llama HTTP stream error', undefined, {
+          endpoint,
+          status: res.status,
+          statusText: res.statusText,
+          bodySnippet: text.slice(0, 512),
+        });
+        throw new Error(
+          `Llama stream failed (${res.status} ${res.statusText}): ${text}`,
+        );
+      }
 
-  if (!newRoomButton) {
-    uiLog.error('new-room-btn element not found; room controls disabled');
-  } else {
-    newRoomButton.addEventListener('click', async () => {
-      const newRoomId = await generateRandomRoomId();
-      uiLog.info('User requested new room id', { newRoomId });
-      setRoomId(newRoomId);
-      updateRoomIdDisplay(newRoomId);
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder('utf-8');
+      let buffer = '';
+      let finishReason: string | undefined;
+      const captureStats = (json: any) => {
+        if (json?.usage && typeof json.usage === 'object') {
+          usage = json.usage;
+        }
+        if (json?.timings && typeof json.timings === 'object') {
+          timings = json.timings;
+        }
+        const reason = json?.choices?.[0]?.finish_reason;
+        if (typeof reason === 'string' && reason) {
+          finishReason = reason;
+        }
+        if (completion) {
+          const native = completionChunkStats(json);
+          if (native.usage) usage = native.usage;
+          if (native.finishReason) finishReason = native.finishReason;
+        }
+      };
+      const sendToolCalls = async (json: any) => {
+        const calls = extractToolCallDeltas(json);
+        if (calls.length) {
+          // Keep buffered text ahead of the call, in model order.
+          await coalescer?.flush();
+        }
+        for (const call of calls) {
+          const stored = replyToolCalls[call.index] || {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' },
+          };
+          if (call.callId) stored.id = call.callId;
+          if (call.name) stored.function.name = call.name;
+          if (call.arguments) stored.function.arguments += call.arguments;
+          replyToolCalls[call.index] = stored;
+          streamedTokens += 1;
+          await stream.emit({ t: 'tool_call', id, ...call });
+        }
+      };
 
-      // Re-init P2PCF with new room id
-      await initP2PCFWithCurrentRoom();
-    });
-  }
+      read: while (true) {
+        const { value, done: doneReading } = await reader.read();
+        if (doneReading) {
+          if (buffer.trim().length > 0) {
+            const line = buffer.trim();
+            let contentTok: string | undefined;
+            let reasoningTok: string | undefined;
+            try {
+              const json = JSON.parse(line);
+              captureStats(json);
+              contentTok =
+                json.choices?.[0]?.delta?.content ??
+                json.choices?.[0]?.message?.content ??
+                (completion && typeof json.content === 'string' ? json.content : undefined);
+              reasoningTok =
+                json.choices?.[0]?.delta?.reasoning_content ?? undefined;
+              await sendToolCalls(json);
+            } catch {
+              contentTok = line;
+            }
+            if (reasoningTok) {
+              await sendToken('reasoning_token', String(reasoningTok));
+            }
+            if (contentTok) {
+              await sendToken('token', String(contentTok));
+            }
+          }
+          break;
+        }
 
-  if (copyRoomButton) {
-    copyRoomButton.addEventListener('click', async () => {
-      const roomIdEl = q('room-id');
-      const value = roomIdEl?.textContent || '';
-      if (!value) return;
-      try {
-        await navigator.clipboard.writeText(value);
-        uiLog.info('Room ID copied to clipboard');
-      } catch (err) {
-        uiLog.error('Failed to copy Room ID to clipboard', err as Error);
-      }
-    });
-  }
-}
+        buffer += decoder.decode(value, { stream: true });
 
-function parseStartupParams(): URLSearchParams {
-  try {
-    const url = new URL(window.location.href);
-    const params = url.searchParams;
-    logRenderer('Parsed startup params from URL', {
-      llamaInstalled: params.get('llamaInstalled'),
-      llamaVersion: params.get('llamaVersion'),
-    });
-    return params;
-  } catch (error) {
-    logRendererError('Failed to parse startup params; using empty params', error);
-    return new URLSearchParams();
-  }
-}
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newlineIndex).trim();
+          buffer = buffer.slice(newlineIndex + 1);
 
-function renderSetupScreen() {
-  logRenderer('Rendering llama setup screen');
-  const root = document.body;
-  root.innerHTML = '';
+          if (!line) {
+            continue;
+          }
 
-  const container = document.createElement('div');
-  container.id = 'llama-setup';
-  container.style.padding = '24px';
-  container.style.fontFamily = 'system-ui, -apple-system, BlinkMacSystemFont, sans-serif';
+          // Handle SSE format: lines start with "data: "
+          if (line.startsWith('data: ')) {
+            const jsonStr = line.slice(6); // Remove "data: " prefix
+            
+            // SSE streams often end with "data: [DONE]"
+            if (jsonStr === '[DONE]') {
+              break read;
+            }
 
-  const title = document.createElement('h1');
-  title.textContent = 'Welcome to MyDeviceAI Desktop';
-  title.style.marginBottom = '8px';
+            let contentTok: string | undefined;
+            let reasoningTok: string | undefined;
 
-  const subtitle = document.createElement('p');
-  subtitle.textContent =
-    'The button below will download the right llama.cpp runtime for your platform, a LLM Qwnen3-4b to get you started. This will take about 2.5 gb of space';
+            try {
+              const json = JSON.parse(jsonStr);
+              captureStats(json);
+              contentTok =
+                json.choices?.[0]?.delta?.content ??
+                json.choices?.[0]?.message?.content ??
+                (completion && typeof json.content === 'string' ? json.content : undefined);
+              reasoningTok =
+                json.choices?.[0]?.delta?.reasoning_content ?? undefined;
+              await sendToolCalls(json);
 
-  const statusLine = document.createElement('div');
-  statusLine.id = 'llama-setup-status';
-  statusLine.style.margin = '12px 0';
-  statusLine.textContent = 'Ready to download.';
+              const done =
+                json.done === true || json.stop === true || !!json.choices?.[0]?.finish_reason;
 
-  const progressBarWrapper = document.createElement('div');
-  progressBarWrapper.style.width = '100%';
-  progressBarWrapper.style.height = '8px';
-  progressBarWrapper.style.background = '#eee';
-  progressBarWrapper.style.borderRadius = '4px';
-  progressBarWrapper.style.overflow = 'hidden';
-  progressBarWrapper.style.margin = '8px 0 4px 0';
+              if (reasoningTok) {
+                await sendToken('reasoning_token', String(reasoningTok));
+              }
 
-  const progressBar = document.createElement('div');
-  progressBar.id = 'llama-setup-progress';
-  progressBar.style.width = '0%';
-  progressBar.style.height = '100%';
-  progressBar.style.background = '#2563eb';
-  progressBar.style.transition = 'width 0.15s linear';
+              if (contentTok) {
+                await sendToken('token', String(contentTok));
+              }
 
-  progressBarWrapper.appendChild(progressBar);
+              // The usage chunk may follow the finish_reason chunk; keep
+              // reading until [DONE] unless it has already arrived.
+              if (done && usage) {
+                break read;
+              }
+            } catch (parseErr) {
+              // If JSON parsing fails, treat the data as raw text
+              logRendererError('Failed to parse SSE data as JSON', parseErr as Error, {
+                line: jsonStr.slice(0, 256),
+              });
+            }
+          } else if (line.startsWith(':')) {
+            // SSE comment, ignore
+            continue;
+          } else if (line) {
+            // Try parsing non-SSE format as fallback
+            let contentTok: string | undefined;
+            let reasoningTok: string | undefined;
+            try {
+              const json = JSON.parse(line);
+              captureStats(json);
+              contentTok =
+                json.choices?.[0]?.delta?.content ??
+                json.choices?.[0]?.message?.content ??
+                (completion && typeof json.content === 'string' ? json.content : undefined);
+              reasoningTok =
+                json.choices?.[0]?.delta?.reasoning_content ?? undefined;
+              await sendToolCalls(json);
 
-  const progressDetail = document.createElement('div');
-  progressDetail.id = 'llama-setup-progress-detail';
-  progressDetail.style.fontSize = '11px';
-  progressDetail.style.color = '#666';
+              const done =
+                json.done === true || json.stop === true || !!json.choices?.[0]?.finish_reason;
 
-  const errorLine = document.createElement('div');
-  errorLine.id = 'llama-setup-error';
-  errorLine.style.color = '#b91c1c';
-  errorLine.style.marginTop = '6px';
-  errorLine.style.fontSize = '12px';
+              if (reasoningTok) {
+                await sendToken('reasoning_token', String(reasoningTok));
+              }
 
-  const buttonRow = document.createElement('div');
-  buttonRow.style.marginTop = '16px';
-  buttonRow.style.display = 'flex';
-  buttonRow.style.gap = '8px';
+              if (contentTok) {
+                await sendToken('token', String(contentTok));
+              }
 
-  const installButton = document.createElement('button');
-  installButton.textContent = 'Download & Install llama.cpp';
-  installButton.style.padding = '8px 14px';
-  installButton.style.border = 'none';
-  installButton.style.borderRadius = '4px';
-  installButton.style.background = '#2563eb';
-  installButton.style.color = '#fff';
-  installButton.style.cursor = 'pointer';
+              // The usage chunk may follow the finish_reason chunk; keep
+              // reading until [DONE] unless it has already arrived.
+              if (done && usage) {
+                break read;
+              }
+            } catch {
+              // Not JSON, skip
+            }
+          }
+        }
+      }
 
-  const retryButton = document.createElement('button');
-  retryButton.textContent = 'Retry';
-  retryButton.style.padding = '8px 12px';
-  retryButton.style.borderRadius = '4px';
-  retryButton.style.border = '1px solid #d1d5db';
-  retryButton.style.background = '#fff';
-  retryButton.style.cursor = 'pointer';
-  retryButton.style.display = 'none';
+      const stats = completionStats(
+        usage as { prompt_tokens?: number; completion_tokens?: number } | null,
+        timings as LlamaTimings | null,
+        finishReason,
+      );
+      recordUsage();
+
+      // The grammar constrains sampling, but a reply cut off by max_tokens (or a
+      // schema keyword llama-server does not enforce) can still break it.
+      const structured = responseFormat
+        ? checkStructuredOutput(replyText, responseFormat, finishReason === 'length')
+        : null;
+      if (structured && !structured.ok) {
+        const { violations } = structured as Extract<StructuredOutputCheck, { ok: false }>;
+        logRenderer('Prompt output failed response_format validation', {
+          peerId: peer.id,
+          id,
+          violations: violations.length,
+        });
+        await coalescer?.flush();
+        await stream.emit({
+          t: 'error',
+          id,
+          code: 'schema_violation',
+          message: `Output does not match response_format: ${violations[0].path}: ${violations[0].message}`,
+          violations,
+          ...(finishReason ? { finishReason } : {}),
+          stats,
+        });
+        return;
+      }
 
-  buttonRow.appendChild(installButton);
-  buttonRow.appendChild(retryButton);
+      // Cancelled or failed prompts leave the history as it was, so the phone
+      // can simply resend the turn.
+      if (conversation) {
+        if (truncation || restartConversation) {
+          conversations.replaceHistory(
+            conversation,
+            promptMessages.slice(0, promptMessages.length - messages.length),
+          );
+        }
+        conversations.append(conversation, [
+          ...messages,
+          assistantMessage(replyText, replyToolCalls.filter(Boolean)),
+        ]);
+      }
 
-  container.appendChild(title);
-  container.appendChild(subtitle);
-  container.appendChild(statusLine);
-  container.appendChild(progressBarWrapper);
-  container.appendChild(progressDetail);
-  container.appendChild(errorLine);
-  container.appendChild(buttonRow);
+      await coalescer?.flush();
+      await stream.emit(endFrame(id, { finishReason, stats, truncation }));
+    } catch (err) {
+      if (entry.controller.signal.aborted) {
+        logRenderer('Prompt cancelled', {
+          peerId: peer.id,
+          id,
+          notifyPeer: entry.notifyPeer,
+        });
+        if (entry.notifyPeer) {
+          await coalescer?.flush();
+          await stream.emit({ t: 'cancelled', id });
+        }
+        return;
+      }
+      logRendererError(
+        'Error while streaming llama completion via HTTP in renderer',
+        err as Error,
+        {
+          id,
+        },
+      );
+      await coalescer?.flush();
+      await stream.emit({
+        t: 'error',
+        id,
+        message:
+          (err as Error)?.message ||
+          'Unknown error during completion via llama HTTP',
+      });
+      return;
+    } finally {
+      recordUsage();
+      coalescer?.discard();
+      if (conversation) conversation.busy = false;
+      inFlightPrompts.delete(promptKey(entry.peer, id));
+      retireStream(resumeKey, stream);
+      release();
+      releaseRate();
+    }
+  }
 
-  root.appendChild(container);
+  function disconnectWithError(peer: Peer, code: ProtocolErrorCode, message: string): void {
+    void sendJsonSafe(peer, errorFrame('', code, message)).then(() =>
+      p2pcf.disconnect(peer),
+    );
+  }
 
-  const runInstall = async () => {
-    if (!window.llama?.installLatest) {
-      errorLine.textContent =
-        'Setup API not available. Ensure preload and main are configured correctly.';
+  async function handleHello(peer: Peer, msg: ClientMessageOf<'hello'>): Promise<void> {
+    const session = getPeerSession(peer);
+    if (session.deviceId) {
+      logRenderer('Ignoring repeated hello from peer', { peerId: peer.id });
       return;
     }
 
-    installButton.disabled = true;
-    retryButton.style.display = 'none';
-    errorLine.textContent = '';
-    statusLine.textContent = 'Starting download...';
-    progressBar.style.width = '0%';
-    progressDetail.textContent = '';
+    const deviceId = (msg.deviceId || '').trim();
+    if (!deviceId || deviceId.length > MAX_DEVICE_ID_LENGTH) {
+      logRendererError('Peer hello without a valid deviceId', undefined, {
+        peerId: peer.id,
+      });
+      disconnectWithError(
+        peer,
+        'device_id_required',
+        'hello must include a stable deviceId; please update the app',
+      );
+      return;
+    }
+    session.deviceId = deviceId;
+    session.deviceName =
+      msg.deviceName?.trim().slice(0, MAX_DEVICE_NAME_LENGTH) || null;
 
-    const updateFromProgress = (p: any) => {
-      switch (p.type) {
-        case 'status':
-          statusLine.textContent = p.message || '';
-          break;
-        case 'download-start':
-          statusLine.textContent = 'Downloading llama.cpp...';
-          if (p.totalBytes) {
-            progressDetail.textContent = `Total size: ${(
-              p.totalBytes /
-              (1024 * 1024)
-            ).toFixed(2)} MB`;
-          }
-          break;
-        case 'download-progress':
-          if (p.totalBytes) {
-            const pct = Math.max(
-              1,
-              Math.min(99, (p.receivedBytes / p.totalBytes) * 100),
-            );
-            progressBar.style.width = `${pct.toFixed(1)}%`;
-            progressDetail.textContent = `Downloaded ${(
-              p.receivedBytes /
-              (1024 * 1024)
-            ).toFixed(2)} MB of ${(p.totalBytes / (1024 * 1024)).toFixed(
-              2,
-            )} MB`;
-          } else {
-            statusLine.textContent = 'Downloading llama.cpp...';
+    if (!window.devices?.get) {
+      logRendererError('devices bridge unavailable; cannot pair peer', undefined, {
+        peerId: peer.id,
+      });
+      disconnectWithError(peer, 'pairing_failed', 'Device store unavailable');
+      return;
+    }
+
+    const res = await window.devices.get(deviceId);
+    const device = res.ok ? res.device : null;
+    if (device?.status === 'blocked') {
+      uiLog.info('Refusing blocked device', { id: peer.id, deviceId });
+      disconnectWithError(peer, 'device_blocked', 'This device has been blocked');
+      return;
+    }
+
+    session.e2eOffered = supportsE2E(msg.encryption);
+    if (!session.e2eOffered) {
+      const settings = await window.settings?.get();
+      if (settings?.ok && settings.settings.requireEncryption) {
+        uiLog.info('Refusing peer without end-to-end encryption support', {
+          id: peer.id,
+          deviceId,
+        });
+        disconnectWithError(
+          peer,
+          'encryption_required',
+          'This desktop requires end-to-end encryption; please update the app',
+        );
+        return;
+      }
+    }
+
+    if (device) {
+      updatePeerLabel(peer, device.name);
+    } else if (session.deviceName) {
+      updatePeerLabel(peer, session.deviceName);
+    }
+    await sendPairingChallenge(peer, device ? 'device' : 'pin');
+  }
+
+  async function sendPairingChallenge(peer: Peer, method: PairingMethod): Promise<void> {
+    const session = getPeerSession(peer);
+    if (session.paired || session.awaitingApproval) return;
+    const keys = await generatePairingKeyPair();
+    session.pairingMethod = method;
+    session.pairingNonce = generatePairingNonce();
+    session.pairingKeys = keys;
+    await sendJsonSafe(
+      peer,
+      pairChallengeFrame(session.pairingNonce, method, keys.publicKey, session.e2eOffered),
+    );
+  }
+
+  /**
+   * Check a pair_response against the challenge it answers. On success
+   * returns the session secret from the key exchange, which keys end-to-end
+   * encryption, otherwise null.
+   */
+  async function verifyPairResponse(
+    session: PeerSession,
+    challenge: string,
+    keys: PairingKeyPair,
+    msg: ClientMessageOf<'pair_response'>,
+  ): Promise<string | null> {
+    const verifyProof =
+      session.pairingMethod === 'device'
+        ? async (binding: string, proof: string) => {
+            if (!session.deviceId || !window.devices?.verifyProof) return false;
+            const res = await window.devices.verifyProof(session.deviceId, binding, proof);
+            return res.ok;
           }
-          break;
-        case 'download-complete':
-          statusLine.textContent = 'Download complete. Finalizing installation...';
-          progressBar.style.width = '100%';
-          break;
-        case 'install-complete':
-          statusLine.textContent = `Installed llama.cpp ${p.version || ''}`;
-          progressDetail.textContent = p.binaryPath
-            ? `Binary: ${p.binaryPath}`
-            : '';
-          break;
-        case 'error':
-          errorLine.textContent = p.message || 'Unknown error during setup.';
-          retryButton.style.display = 'inline-block';
-          installButton.disabled = false;
-          break;
+        : (binding: string, proof: string) => verifyPairingProof(pairingPin, binding, proof);
+    try {
+      return await checkPairResponse({ nonce: challenge, keys }, msg, verifyProof);
+    } catch (err) {
+      logRendererError('Pairing key exchange failed', err as Error, { deviceId: session.deviceId });
+      return null;
+    }
+  }
+
+  function completePairing(peer: Peer): void {
+    const session = getPeerSession(peer);
+    session.paired = true;
+    if (session.pairingTimer) {
+      clearTimeout(session.pairingTimer);
+      session.pairingTimer = null;
+    }
+    uiLog.info('Peer paired', {
+      id: peer.id,
+      client_id: peer.clientId,
+      deviceId: session.deviceId,
+    });
+    updatePeerBadge(peer, 'connected', 'ok');
+  }
+
+  async function handlePairResponse(peer: Peer, msg: ClientMessageOf<'pair_response'>): Promise<void> {
+    const session = getPeerSession(peer);
+    if (session.paired || session.awaitingApproval) {
+      logRenderer('Ignoring pair_response from already paired peer', {
+        peerId: peer.id,
+      });
+      return;
+    }
+
+    const challenge = session.pairingNonce;
+    const keys = session.pairingKeys;
+    if (!challenge || !keys || !session.deviceId) {
+      if (session.deviceId) {
+        await sendPairingChallenge(peer, session.pairingMethod || 'pin');
       }
-    };
+      return;
+    }
+    // Each challenge may be answered once.
+    session.pairingNonce = null;
+    session.pairingKeys = null;
+
+    const method = session.pairingMethod;
+    if (method === 'pin' && pinLockoutRemainingMs() > 0) {
+      await sendPairingStep(
+        peer,
+        pairingStep({
+          method,
+          ok: false,
+          attemptsLeft: MAX_PAIRING_ATTEMPTS - session.pairingAttempts,
+          lockedForMs: pinLockoutRemainingMs(),
+        }),
+      );
+      return;
+    }
+    const sessionSecret = await verifyPairResponse(session, challenge, keys, msg);
+    const ok = sessionSecret !== null;
+    if (ok && session.e2eOffered) {
+      session.e2eKeys = await deriveDesktopKeys(sessionSecret as string);
+      logRenderer('End-to-end encryption enabled for peer', { peerId: peer.id });
+    }
 
-    const result = (await window.llama
-      .installLatest(updateFromProgress)
-      .catch((err: any) => {
-        updateFromProgress({
-          type: 'error',
-          message: err?.message || String(err),
+    let lockedForMs = 0;
+    if (ok && method === 'device') {
+      completePairing(peer);
+    } else if (ok) {
+      // The PIN is single-use whether or not the device is then allowed.
+      rotatePairingPin();
+      pinLockouts = 0;
+      session.awaitingApproval = true;
+      updatePeerBadge(peer, 'awaiting approval', 'warn');
+      showPeerApproval(
+        peer,
+        session.deviceName || session.deviceId,
+        (decision) => void handleApprovalDecision(peer, decision),
+      );
+    } else if (method === 'device') {
+      logRendererError('Device proof rejected; falling back to PIN', undefined, {
+        peerId: peer.id,
+        deviceId: session.deviceId,
+      });
+    } else {
+      session.pairingAttempts += 1;
+      logRendererError('Pairing proof rejected', undefined, {
+        peerId: peer.id,
+        attemptsLeft: MAX_PAIRING_ATTEMPTS - session.pairingAttempts,
+      });
+      if (recordPinFailure()) {
+        lockedForMs = pinLockoutRemainingMs();
+      }
+    }
+    await sendPairingStep(
+      peer,
+      pairingStep({
+        method,
+        ok,
+        attemptsLeft: MAX_PAIRING_ATTEMPTS - session.pairingAttempts,
+        lockedForMs,
+      }),
+    );
+  }
+
+  /**
+   * Send the reply to a pair_response and follow it up: a new "pin" challenge,
+   * or a disconnect (the phone may retry a lockout after "retryAfter" seconds
+   * with the new PIN).
+   */
+  async function sendPairingStep(peer: Peer, step: PairingStep): Promise<void> {
+    await sendJsonSafe(peer, step.reply);
+    if (step.next === 'challenge') {
+      await sendPairingChallenge(peer, 'pin');
+    } else if (step.next === 'disconnect') {
+      p2pcf.disconnect(peer);
+    }
+  }
+
+  async function handleApprovalDecision(
+    peer: Peer,
+    decision: ApprovalDecision,
+  ): Promise<void> {
+    const session = peerSessions.get(peer.id);
+    if (!session?.awaitingApproval || !session.deviceId) return;
+    session.awaitingApproval = false;
+    clearPeerApproval(peer);
+    uiLog.info('Device approval decision', {
+      id: peer.id,
+      deviceId: session.deviceId,
+      decision,
+    });
+
+    if (decision === 'deny') {
+      disconnectWithError(peer, 'device_denied', 'The desktop user declined this device');
+      return;
+    }
+
+    if (decision === 'block') {
+      const res = await window.devices?.block(
+        session.deviceId,
+        session.deviceName || undefined,
+      );
+      if (!res?.ok) {
+        uiLog.error('Failed to block device', undefined, { error: res?.error });
+      }
+      disconnectWithError(peer, 'device_blocked', 'This device has been blocked');
+      return;
+    }
+
+    const res = await window.devices?.approve(
+      session.deviceId,
+      session.deviceName || undefined,
+    );
+    if (!res?.ok || !res.secret) {
+      uiLog.error('Failed to approve device', undefined, { error: res?.error });
+      disconnectWithError(peer, 'pairing_failed', 'Could not save the approved device');
+      return;
+    }
+    if (res.device) {
+      updatePeerLabel(peer, res.device.name);
+    }
+    completePairing(peer);
+    await sendJsonSafe(peer, { t: 'pair_result', ok: true, deviceSecret: res.secret });
+  }
+
+  function handleVersionNegotiate(peer: Peer, msg: ClientMessageOf<'version_negotiate'>): void {
+    const session = getPeerSession(peer);
+    const { result, coalesce, reply } = answerVersionNegotiate(msg);
+
+    if (result.compatible) {
+      session.protocolVersion = result.protocolVersion;
+      session.coalesce = coalesce;
+      logRenderer('Protocol version negotiated', {
+        peerId: peer.id,
+        protocolVersion: result.protocolVersion,
+        coalesce: session.coalesce,
+      });
+    } else {
+      const failure = result as Extract<VersionNegotiationResult, { compatible: false }>;
+      session.protocolVersion = null;
+      session.coalesce = null;
+      logRendererError('Protocol version negotiation failed', undefined, {
+        peerId: peer.id,
+        clientVersion: msg.protocolVersion,
+        clientMinVersion: msg.minCompatibleVersion,
+        reason: failure.reason,
+      });
+    }
+    void sendJsonSafe(peer, reply);
+  }
+
+  function handleCancelRequest(peer: Peer, msg: ClientMessageOf<'cancel'>): void {
+    const { id } = msg;
+    const entry = inFlightPrompts.get(promptKey(peer, id));
+    if (!entry) {
+      // The prompt may already have finished; nothing left to abort.
+      logRenderer('Ignoring cancel for unknown or finished prompt', {
+        peerId: peer.id,
+        id,
+      });
+      return;
+    }
+    entry.controller.abort();
+  }
+
+  function parseFrame(peer: Peer, raw: string): RawFrame | null {
+    const frame = parseRawFrame(raw);
+    if (!frame) {
+      logRendererError('Received a frame that is not a JSON object with a type field "t"', undefined, {
+        id: peer.id,
+        client_id: peer.clientId,
+        raw: raw.slice(0, 256),
+      });
+    }
+    return frame;
+  }
+
+  function handleEncryptedFrame(peer: Peer, session: PeerSession, frame: any): void {
+    const keys = session.e2eKeys as E2EKeys;
+    session.recvChain = session.recvChain.then(async () => {
+      let inner: RawFrame | null;
+      try {
+        const plaintext = await openFrame(keys.recvKey, session.recvSeq, frame);
+        session.recvSeq = frame.seq;
+        inner = parseFrame(peer, plaintext);
+      } catch (err) {
+        logRendererError('Rejected encrypted frame', err as Error, {
+          peerId: peer.id,
+          seq: frame?.seq,
         });
-        const fallback: {
-          installed: boolean;
-          version?: string;
-          binaryPath?: string;
-          error?: string;
-        } = { installed: false, error: err?.message || String(err) };
-        return fallback;
-      })) as {
-      installed: boolean;
-      version?: string;
-      binaryPath?: string;
-      error?: string;
-    };
+        disconnectWithError(peer, 'decryption_failed', 'Could not decrypt or verify a frame');
+        return;
+      }
+      if (inner && inner.t !== 'enc') {
+        dispatchMessage(peer, inner);
+      }
+    });
+  }
 
-    if (result.installed) {
-      statusLine.textContent = `Setup complete. llama.cpp ${
-        result.version || ''
-      } is ready. Launching app...`;
-      progressBar.style.width = '100%';
-      setTimeout(() => {
-        renderMainUI();
-      }, 800);
+  function storeAttachment(peer: Peer, session: PeerSession, frame: Uint8Array): void {
+    try {
+      const attachment = parseAttachmentFrame(frame);
+      session.attachments.put(attachment);
+      logRenderer('Received attachment from peer', {
+        peerId: peer.id,
+        attachmentId: attachment.id,
+        mime: attachment.mime,
+        bytes: attachment.data.length,
+      });
+    } catch (err) {
+      logRendererError('Rejected attachment from peer', err as Error, {
+        peerId: peer.id,
+      });
+      void sendJsonSafe(peer, {
+        t: 'error',
+        id: '',
+        code: 'attachment_rejected',
+        message: (err as Error).message,
+      });
     }
-  };
+  }
 
-  installButton.onclick = () => {
-    logRenderer('Install button clicked');
-    runInstall();
-  };
-  retryButton.onclick = () => {
-    logRenderer('Retry button clicked');
-    runInstall();
-  };
-}
+  function handleBinaryFrame(peer: Peer, session: PeerSession, bytes: Uint8Array): void {
+    if (!session.paired) {
+      logRendererError('Ignoring attachment from unpaired peer', undefined, {
+        peerId: peer.id,
+      });
+      return;
+    }
 
-function renderMainUI() {
-  // Keep existing HTML-driven structure: assume index.html has the room controls.
-  // We only ensure that on successful setup we restore original DOM-based UI.
-  const target = document.location.origin + document.location.pathname;
-  logRenderer('Navigating to main UI', { target });
-  document.location.href = target;
-}
+    const keys = session.e2eKeys;
+    if (bytes[0] !== ENCRYPTED_ATTACHMENT_FRAME_MAGIC) {
+      if (keys) {
+        logRendererError('Ignoring plaintext attachment on encrypted session', undefined, {
+          peerId: peer.id,
+        });
+        return;
+      }
+      storeAttachment(peer, session, bytes);
+      return;
+    }
 
-declare global {
-  interface Window {
-    modelManager?: {
-      list: () => Promise<{
-        models: {
-          id: string;
-          displayName: string;
-          filePath: string;
-          installed: boolean;
-          currentParams: {
-            temperature: number;
-            topP: number;
-            topK: number;
-            maxTokens: number;
-            contextWindow: number;
-            gpuLayers: number;
-          };
-        }[];
-        activeModelId: string | null;
-      }>;
-      getActive: () => Promise<{
-        model: {
-          id: string;
-          displayName: string;
-          filePath: string;
-          installed: boolean;
-          currentParams: {
-            temperature: number;
-            topP: number;
-            topK: number;
-            maxTokens: number;
-            contextWindow: number;
-            gpuLayers: number;
-          };
-        } | null;
+    if (!keys) {
+      logRendererError('Ignoring encrypted attachment before keys were agreed', undefined, {
+        peerId: peer.id,
+      });
+      return;
+    }
+    // Same chain as "enc" frames: they share the seq counter.
+    session.recvChain = session.recvChain.then(async () => {
+      let plaintext: Uint8Array;
+      try {
+        const opened = await openBinaryFrame(keys.recvKey, session.recvSeq, bytes);
+        session.recvSeq = opened.seq;
+        plaintext = opened.plaintext;
+      } catch (err) {
+        logRendererError('Rejected encrypted attachment', err as Error, {
+          peerId: peer.id,
+        });
+        disconnectWithError(peer, 'decryption_failed', 'Could not decrypt or verify a frame');
+        return;
+      }
+      storeAttachment(peer, session, plaintext);
+    });
+  }
+
+  p2pcf.on('msg', (peer: Peer, data: ArrayBuffer) => {
+    try {
+      const bytes = new Uint8Array(data);
+      if (isBinaryFrame(bytes)) {
+        handleBinaryFrame(peer, getPeerSession(peer), bytes);
+        return;
+      }
+
+      const msg = parseFrame(peer, new TextDecoder().decode(bytes));
+      if (!msg) return;
+
+      const session = getPeerSession(peer);
+      if (msg.t === 'enc') {
+        if (!session.e2eKeys) {
+          logRendererError('Ignoring encrypted frame before keys were agreed', undefined, {
+            peerId: peer.id,
+          });
+          return;
+        }
+        handleEncryptedFrame(peer, session, msg);
+        return;
+      }
+      if (session.e2eKeys) {
+        logRendererError('Ignoring plaintext frame on encrypted session', undefined, {
+          peerId: peer.id,
+          t: msg.t,
+        });
+        return;
+      }
+      dispatchMessage(peer, msg);
+    } catch (err) {
+      logRendererError('Unhandled error in P2PCF msg handler', err as Error, {
+        id: peer.id,
+        client_id: peer.clientId,
+      });
+    }
+  });
+
+  function dispatchMessage(peer: Peer, frame: RawFrame): void {
+    const meta = {
+      id: peer.id,
+      client_id: peer.clientId,
+    };
+    // Frames are unwrapped before dispatch, so with keys agreed this one
+    // arrived encrypted.
+    recordFrame('in', peer, frame, !!peerSessions.get(peer.id)?.e2eKeys);
+
+    const session = getPeerSession(peer);
+    try {
+      const result = dispatchClientFrame(
+        frame,
+        { paired: session.paired, negotiated: !!session.protocolVersion },
+        clientMessageHandlers(peer),
+      );
+      if (result.outcome === 'rejected') {
+        const { reply } = result as Extract<DispatchResult, { outcome: 'rejected' }>;
+        logRendererError('Refused P2PCF msg', undefined, {
+          ...meta,
+          t: result.t,
+          code: reply.code,
+          message: reply.message,
+        });
+        void sendJsonSafe(peer, reply);
+      } else if (result.outcome === 'ignored') {
+        // "enc" frames are unwrapped before dispatch; replies from the server
+        // side of the protocol are not expected here.
+        logRenderer('Ignoring unexpected P2PCF msg type', {
+          ...meta,
+          t: result.t,
+        });
+      }
+    } catch (err) {
+      logRendererError('Unhandled error in P2PCF msg handler', err as Error, meta);
+    }
+  }
+
+  /**
+   * Handlers for a peer's frames; dispatchClientFrame has already validated
+   * them and checked that the peer paired and negotiated where required.
+   */
+  function clientMessageHandlers(peer: Peer): ClientMessageHandlers {
+    const meta = {
+      id: peer.id,
+      client_id: peer.clientId,
+    };
+    const received = (msg: ClientMessage) =>
+      logRenderer(`Received ${msg.t} from peer`, {
+        ...meta,
+        ...('id' in msg ? { id: msg.id } : {}),
+      });
+
+    return {
+      hello: (msg) => {
+        logRenderer('Received hello from peer', {
+          ...meta,
+          clientId: msg.clientId,
+          impl: msg.impl,
+          version: msg.version,
+          deviceId: msg.deviceId,
+        });
+        void handleHello(peer, msg);
+      },
+      pair_response: (msg) => {
+        received(msg);
+        void handlePairResponse(peer, msg);
+      },
+      version_negotiate: (msg) => {
+        logRenderer('Received version_negotiate from peer', {
+          ...meta,
+          protocolVersion: msg.protocolVersion,
+          minCompatibleVersion: msg.minCompatibleVersion,
+        });
+        handleVersionNegotiate(peer, msg);
+      },
+      prompt: (msg) => {
+        logRenderer('Received prompt over P2PCF', {
+          ...meta,
+          id: msg.id,
+          messageCount: msg.messages.length,
+        });
+        void handlePromptRequest(peer, msg);
+      },
+      complete: (msg) => {
+        logRenderer('Received complete over P2PCF', {
+          ...meta,
+          id: msg.id,
+          infill: typeof msg.suffix === 'string',
+        });
+        void handleCompleteRequest(peer, msg);
+      },
+      session_close: (msg) => {
+        logRenderer('Received session_close from peer', {
+          ...meta,
+          sessionId: msg.session_id,
+        });
+        handleSessionClose(peer, msg);
+      },
+      resume: (msg) => {
+        logRenderer('Received resume from peer', {
+          ...meta,
+          id: msg.id,
+          fromOffset: msg.fromOffset,
+        });
+        handleResumeRequest(peer, msg);
+      },
+      embed: (msg) => {
+        received(msg);
+        void handleEmbedRequest(peer, msg);
+      },
+      cancel: (msg) => {
+        received(msg);
+        handleCancelRequest(peer, msg);
+      },
+      get_model: (msg) => {
+        received(msg);
+        void handleGetModelRequest(peer);
+      },
+      count_tokens: (msg) => {
+        received(msg);
+        void handleCountTokensRequest(peer, msg);
+      },
+      tokenize: (msg) => {
+        received(msg);
+        void handleTokenizeRequest(peer, msg);
+      },
+      detokenize: (msg) => {
+        received(msg);
+        void handleTokenizeRequest(peer, msg);
+      },
+      download_model: (msg) => {
+        received(msg);
+        void handleDownloadModelRequest(peer, msg);
+      },
+      cancel_download: (msg) => {
+        received(msg);
+        void handleCancelDownloadRequest(peer, msg);
+      },
+      list_models: (msg) => {
+        received(msg);
+        void handleListModelsRequest(peer, msg);
+      },
+      set_model: (msg) => {
+        received(msg);
+        void handleSetModelRequest(peer, msg);
+      },
+    };
+  }
+
+  /**
+   * Feed one captured connection's inbound frames (see buildReplayPlan) to
+   * dispatchMessage as a new, already paired peer, against the local
+   * llama-server. Replies go to onFrame instead of P2PCF. Resolves once the
+   * replayed prompts finish, or right away when `signal` aborts.
+   */
+  async function replayCapturedConnection(
+    entries: CaptureEntry[],
+    capturedPeer: string,
+    onFrame: (entry: CaptureEntry) => void,
+    signal: AbortSignal,
+  ): Promise<ReplayResult> {
+    const plan = buildReplayPlan(entries, capturedPeer);
+    const peer: Peer = { id: `replay-${generateUUID()}`, clientId: 'replay', isDesktop: false };
+    const session = createPeerSession(peer);
+    session.paired = true;
+    session.deviceId = REPLAY_DEVICE_ID;
+    session.deviceName = 'Replay';
+    peerSessions.set(peer.id, session);
+    replayPeers.set(peer.id, (msg) => {
+      onFrame(captureEntry('out', peer, REPLAY_DEVICE_ID, false, msg as RawFrame));
+    });
+    uiLog.info('Replaying captured connection', {
+      capturedPeer,
+      replayPeer: peer.id,
+      frames: plan.frames.length,
+      skipped: plan.skipped,
+    });
+
+    const wait = (ms: number) =>
+      new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timer);
+          signal.removeEventListener('abort', done);
+          resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal.addEventListener('abort', done);
+      });
+    const hasPendingPrompts = () =>
+      Array.from(inFlightPrompts.values()).some((entry) => entry.peer.id === peer.id);
+
+    let replayed = 0;
+    try {
+      for (const { delayMs, frame } of plan.frames) {
+        if (delayMs) await wait(delayMs);
+        if (signal.aborted) break;
+        onFrame(captureEntry('in', peer, REPLAY_DEVICE_ID, false, frame));
+        dispatchMessage(peer, frame);
+        replayed += 1;
+      }
+
+      // Requests start asynchronously; wait for two quiet polls in a row.
+      const deadline = Date.now() + REPLAY_SETTLE_TIMEOUT_MS;
+      let quietPolls = 0;
+      while (!signal.aborted && quietPolls < 2 && Date.now() < deadline) {
+        await wait(REPLAY_POLL_MS);
+        quietPolls = hasPendingPrompts() ? 0 : quietPolls + 1;
+      }
+    } finally {
+      // Unlike a dropped phone, a replay is never resumed.
+      inFlightPrompts.forEach((entry) => {
+        if (entry.peer.id !== peer.id) return;
+        entry.notifyPeer = false;
+        entry.controller.abort();
+      });
+      peerSessions.delete(peer.id);
+      replayPeers.delete(peer.id);
+    }
+    return { replayed, skipped: plan.skipped };
+  }
+  replayCapture = replayCapturedConnection;
+  p2pcfDisposers.push(() => {
+    replayCapture = null;
+  });
+
+  // Start polling after listeners are attached
+  uiLog.info('Starting P2PCF client');
+  p2pcf.start();
+
+  return p2pcf;
+}
+
+declare global {
+  interface Window {
+    logger?: {
+      log: (message: string, extra?: Record<string, unknown>) => void;
+      error: (message: string, extra?: Record<string, unknown>) => void;
+    };
+
+    llama?: {
+      // Setup / IPC helpers still bridged via preload
+      getStatus?: () => Promise<{
+        ok: boolean;
+        endpoint: string;
+        error?: string;
       }>;
-      setActive: (
-        id: string,
-      ) => Promise<{ ok: boolean; activeModelId?: string; error?: string }>;
-      updateParams: (
-        id: string,
-        params: {
-          temperature?: number;
-          topP?: number;
-          topK?: number;
-          maxTokens?: number;
-          contextWindow?: number;
-          gpuLayers?: number;
-        },
-      ) => Promise<{ ok: boolean; error?: string }>;
-      searchHfGguf: (
-        query: string,
-      ) => Promise<{ ok: true; results: any[] } | { ok: false; error: string }>;
-      listHfFiles: (
-        repoId: string,
-      ) => Promise<
-        | { ok: true; files: { name: string; size?: number }[] }
-        | { ok: false; error: string }
-      >;
-      downloadHf: (options: {
-        repoId: string;
-        fileName: string;
-        displayName?: string;
-        quantization?: string;
-        contextWindow?: number;
-      }) => Promise<{ ok: boolean; error?: string }>;
-      cancelDownload: (id: string) => Promise<{ ok: boolean; error?: string }>;
-      deleteModel: (id: string) => Promise<{ ok: boolean; error?: string }>;
-      onDownloadProgress: (
-        handler: (p: {
-          id: string;
+
+      getInstallStatus?: () => Promise<{
+        installed: boolean;
+        version?: string;
+        binaryPath?: string;
+        error?: string;
+      }>;
+
+      installLatest?: (
+        onProgress?: (p: {
           type:
             | 'status'
             | 'download-start'
@@ -1155,29 +3041,1797 @@ declare global {
           totalBytes?: number;
           receivedBytes?: number;
           filePath?: string;
+          version?: string;
+          binaryPath?: string;
         }) => void,
-      ) => () => void;
+      ) => Promise<{
+        installed: boolean;
+        version?: string;
+        binaryPath?: string;
+        error?: string;
+      }>;
+
+      ensureServer?: () => Promise<{
+        ok: boolean;
+        endpoint?: string;
+        // llama-server's --parallel slot count.
+        slots?: number;
+        error?: string;
+      }>;
+
+      ensureEmbeddingServer?: () => Promise<{
+        ok: boolean;
+        endpoint?: string;
+        modelId?: string;
+        contextWindow?: number;
+        error?: string;
+      }>;
+
+      onAppBeforeQuit?: (handler: (notifyComplete: () => void) => void) => () => void;
+
+      getServerStatus?: () => Promise<{
+        running: boolean;
+        port: number | null;
+        modelPath: string | null;
+        modelName: string | null;
+        uptime: number | null;
+      }>;
+    };
+
+    llamaLogs?: {
+      getHistory: () => Promise<Array<{
+        timestamp: number;
+        level: 'info' | 'error';
+        message: string;
+      }>>;
+      onLogEntry: (handler: (entry: {
+        timestamp: number;
+        level: 'info' | 'error';
+        message: string;
+      }) => void) => () => void;
+    };
+  }
+}
+
+let p2pcf: P2PCF | null = null;
+
+/**
+ * DOM helpers and UI wiring
+ */
+
+function q(id: string): HTMLElement | null {
+  return document.getElementById(id);
+}
+
+function setText(id: string, text: string): void {
+  const node = q(id);
+  if (node) node.textContent = text;
+}
+
+// Logger helpers for console output only (activity log UI removed)
+const uiLog = {
+  info(message: string, extra?: Record<string, unknown>) {
+    logRenderer(message, extra);
+  },
+  error(message: string, error?: unknown, extra?: Record<string, unknown>) {
+    logRendererError(message, error, extra);
+  },
+};
+
+function updateLlamaStatus(_text: string, _variant: 'muted' | 'ok' | 'warn') {
+  // Llama status indicator removed from UI; this is a no-op to keep callers safe.
+}
+
+function updateP2PStatus(_text: string, _variant: 'muted' | 'ok' | 'warn') {
+  // P2P status indicator removed from UI; this is a no-op to keep callers safe.
+}
+
+function addPeerToList(peer: Peer) {
+  const list = q('peer-list');
+  if (!list) return;
+  if (list.dataset.empty === '1') {
+    list.textContent = '';
+    delete list.dataset.empty;
+  }
+
+  const id = peer.clientId || peer.id || 'peer-' + Math.random().toString(36).slice(2);
+  const safeId = String(id);
+
+  let row = list.querySelector<HTMLElement>(
+    `[data-peer-id="${CSS.escape(safeId)}"]`,
+  );
+  if (!row) {
+    row = document.createElement('div');
+    row.className = 'md-peer-item';
+    row.dataset.peerId = safeId;
+
+    const label = document.createElement('div');
+    label.textContent = safeId;
+    label.className = 'md-peer-id';
+
+    const badge = document.createElement('div');
+    badge.className = 'md-pill md-pill-ok';
+    badge.textContent = 'connected';
+
+    row.appendChild(label);
+    row.appendChild(badge);
+    list.appendChild(row);
+  } else {
+    const badge =
+      row.querySelector<HTMLElement>('.md-pill') ||
+      (() => {
+        const b = document.createElement('div');
+        b.className = 'md-pill';
+        row!.appendChild(b);
+        return b;
+      })();
+    badge.className = 'md-pill md-pill-ok';
+    badge.textContent = 'connected';
+  }
+}
+
+function updatePeerBadge(peer: Peer, text: string, variant: 'muted' | 'ok' | 'warn') {
+  const list = q('peer-list');
+  if (!list) return;
+  const safeId = String(peer.clientId || peer.id || '');
+  const badge = list.querySelector<HTMLElement>(
+    `[data-peer-id="${CSS.escape(safeId)}"] .md-pill`,
+  );
+  if (!badge) return;
+  badge.className = `md-pill md-pill-${variant}`;
+  badge.textContent = text;
+}
+
+function findPeerRow(peer: Peer): HTMLElement | null {
+  const list = q('peer-list');
+  if (!list) return null;
+  const safeId = String(peer.clientId || peer.id || '');
+  return list.querySelector<HTMLElement>(`[data-peer-id="${CSS.escape(safeId)}"]`);
+}
+
+function updatePeerLabel(peer: Peer, name: string) {
+  const label = findPeerRow(peer)?.querySelector<HTMLElement>('.md-peer-id');
+  if (label) label.textContent = name;
+}
+
+/**
+ * Inline "Allow this device?" prompt under a peer row, shown after a correct PIN
+ * from a device that is not yet trusted.
+ */
+function showPeerApproval(
+  peer: Peer,
+  name: string,
+  onDecision: (decision: ApprovalDecision) => void,
+) {
+  const row = findPeerRow(peer);
+  if (!row) return;
+  clearPeerApproval(peer);
+
+  const prompt = document.createElement('div');
+  prompt.className = 'md-peer-approval';
+
+  const text = document.createElement('div');
+  text.className = 'md-peer-approval-text';
+  text.textContent = `Allow "${name}" to use this desktop?`;
+  prompt.appendChild(text);
+
+  const actions = document.createElement('div');
+  actions.className = 'md-peer-approval-actions';
+  const buttons: Array<[string, ApprovalDecision, string]> = [
+    ['Allow', 'allow', 'md-btn'],
+    ['Deny', 'deny', 'md-btn md-btn-ghost'],
+    ['Block', 'block', 'md-btn md-btn-ghost'],
+  ];
+  buttons.forEach(([label, decision, className]) => {
+    const btn = document.createElement('button');
+    btn.textContent = label;
+    btn.className = className;
+    btn.onclick = () => onDecision(decision);
+    actions.appendChild(btn);
+  });
+  prompt.appendChild(actions);
+
+  row.classList.add('md-peer-item-pending');
+  row.appendChild(prompt);
+}
+
+/**
+ * Inline "Download this model?" prompt under a peer row, shown for a phone's
+ * download_model request. Returns false when the peer row is not on screen.
+ */
+function showPeerDownloadRequest(
+  peer: Peer,
+  message: string,
+  onDecision: (allow: boolean) => void,
+): boolean {
+  const row = findPeerRow(peer);
+  if (!row) return false;
+  clearPeerDownloadRequest(peer);
+
+  const prompt = document.createElement('div');
+  prompt.className = 'md-peer-approval md-peer-download-request';
+
+  const text = document.createElement('div');
+  text.className = 'md-peer-approval-text';
+  text.textContent = message;
+  prompt.appendChild(text);
+
+  const actions = document.createElement('div');
+  actions.className = 'md-peer-approval-actions';
+  const buttons: Array<[string, boolean, string]> = [
+    ['Download', true, 'md-btn'],
+    ['Deny', false, 'md-btn md-btn-ghost'],
+  ];
+  buttons.forEach(([label, allow, className]) => {
+    const btn = document.createElement('button');
+    btn.textContent = label;
+    btn.className = className;
+    btn.onclick = () => onDecision(allow);
+    actions.appendChild(btn);
+  });
+  prompt.appendChild(actions);
+
+  row.classList.add('md-peer-item-pending');
+  row.appendChild(prompt);
+  return true;
+}
+
+function clearPeerDownloadRequest(peer: Peer) {
+  const row = findPeerRow(peer);
+  if (!row) return;
+  row.classList.remove('md-peer-item-pending');
+  row.querySelector('.md-peer-download-request')?.remove();
+}
+
+function clearPeerApproval(peer: Peer) {
+  const row = findPeerRow(peer);
+  if (!row) return;
+  row.classList.remove('md-peer-item-pending');
+  row.querySelector('.md-peer-approval')?.remove();
+}
+
+function removePeerFromList(peer: Peer) {
+  const list = q('peer-list');
+  if (!list) return;
+  const safeId = String(peer.clientId || peer.id || '');
+  if (!safeId) return;
+
+  const row = list.querySelector<HTMLElement>(
+    `[data-peer-id="${CSS.escape(safeId)}"]`,
+  );
+  if (row) {
+    row.remove();
+  }
+
+  if (!list.children.length) {
+    list.textContent = '';
+    list.classList.remove('md-text-muted');
+    (list as any).dataset.empty = '1';
+  }
+}
+
+async function initP2PCFWithCurrentRoom(): Promise<void> {
+  const roomId = await getOrCreateRoomId();
+  updateRoomIdDisplay(roomId);
+  updatePairingPinDisplay();
+  disposeP2PCFListeners();
+
+  if (p2pcf) {
+    try {
+      uiLog.info('Destroying previous P2PCF instance before re-init');
+      p2pcf.destroy();
+    } catch (e) {
+      uiLog.error('Error destroying previous P2PCF instance', e as Error);
+    }
+    p2pcf = null;
+  }
+
+  p2pcf = createP2PCFClient(roomId);
+}
+
+function setupRoomControls(): void {
+  const newRoomButton = q('new-room-btn');
+  const copyRoomButton = q('copy-room-btn');
+
+  if (!newRoomButton) {
+    uiLog.error('new-room-btn element not found; room controls disabled');
+  } else {
+    newRoomButton.addEventListener('click', async () => {
+      const newRoomId = await generateRandomRoomId();
+      uiLog.info('User requested new room id', { newRoomId });
+      setRoomId(newRoomId);
+      updateRoomIdDisplay(newRoomId);
+
+      // Re-init P2PCF with new room id
+      await initP2PCFWithCurrentRoom();
+    });
+  }
+
+  const newPinButton = q('new-pin-btn');
+  if (newPinButton) {
+    newPinButton.addEventListener('click', () => {
+      uiLog.info('User requested new pairing PIN');
+      rotatePairingPin();
+    });
+  }
+
+  if (copyRoomButton) {
+    copyRoomButton.addEventListener('click', async () => {
+      const roomIdEl = q('room-id');
+      const value = roomIdEl?.textContent || '';
+      if (!value) return;
+      try {
+        await navigator.clipboard.writeText(value);
+        uiLog.info('Room ID copied to clipboard');
+      } catch (err) {
+        uiLog.error('Failed to copy Room ID to clipboard', err as Error);
+      }
+    });
+  }
+}
+
+function parseStartupParams(): URLSearchParams {
+  try {
+    const url = new URL(window.location.href);
+    const params = url.searchParams;
+    logRenderer('Parsed startup params from URL', {
+      llamaInstalled: params.get('llamaInstalled'),
+      llamaVersion: params.get('llamaVersion'),
+    });
+    return params;
+  } catch (error) {
+    logRendererError('Failed to parse startup params; using empty params', error);
+    return new URLSearchParams();
+  }
+}
+
+function renderSetupScreen() {
+  logRenderer('Rendering llama setup screen');
+  const root = document.body;
+  root.innerHTML = '';
+
+  const container = document.createElement('div');
+  container.id = 'llama-setup';
+  container.style.padding = '24px';
+  container.style.fontFamily = 'system-ui, -apple-system, BlinkMacSystemFont, sans-serif';
+
+  const title = document.createElement('h1');
+  title.textContent = 'Welcome to MyDeviceAI Desktop';
+  title.style.marginBottom = '8px';
+
+  const subtitle = document.createElement('p');
+  subtitle.textContent =
+    'The button below will download the right llama.cpp runtime for your platform, a LLM Qwnen3-4b to get you started. This will take about 2.5 gb of space';
+
+  const statusLine = document.createElement('div');
+  statusLine.id = 'llama-setup-status';
+  statusLine.style.margin = '12px 0';
+  statusLine.textContent = 'Ready to download.';
+
+  const progressBarWrapper = document.createElement('div');
+  progressBarWrapper.style.width = '100%';
+  progressBarWrapper.style.height = '8px';
+  progressBarWrapper.style.background = '#eee';
+  progressBarWrapper.style.borderRadius = '4px';
+  progressBarWrapper.style.overflow = 'hidden';
+  progressBarWrapper.style.margin = '8px 0 4px 0';
+
+  const progressBar = document.createElement('div');
+  progressBar.id = 'llama-setup-progress';
+  progressBar.style.width = '0%';
+  progressBar.style.height = '100%';
+  progressBar.style.background = '#2563eb';
+  progressBar.style.transition = 'width 0.15s linear';
+
+  progressBarWrapper.appendChild(progressBar);
+
+  const progressDetail = document.createElement('div');
+  progressDetail.id = 'llama-setup-progress-detail';
+  progressDetail.style.fontSize = '11px';
+  progressDetail.style.color = '#666';
+
+  const errorLine = document.createElement('div');
+  errorLine.id = 'llama-setup-error';
+  errorLine.style.color = '#b91c1c';
+  errorLine.style.marginTop = '6px';
+  errorLine.style.fontSize = '12px';
+
+  const buttonRow = document.createElement('div');
+  buttonRow.style.marginTop = '16px';
+  buttonRow.style.display = 'flex';
+  buttonRow.style.gap = '8px';
+
+  const installButton = document.createElement('button');
+  installButton.textContent = 'Download & Install llama.cpp';
+  installButton.style.padding = '8px 14px';
+  installButton.style.border = 'none';
+  installButton.style.borderRadius = '4px';
+  installButton.style.background = '#2563eb';
+  installButton.style.color = '#fff';
+  installButton.style.cursor = 'pointer';
+
+  const retryButton = document.createElement('button');
+  retryButton.textContent = 'Retry';
+  retryButton.style.padding = '8px 12px';
+  retryButton.style.borderRadius = '4px';
+  retryButton.style.border = '1px solid #d1d5db';
+  retryButton.style.background = '#fff';
+  retryButton.style.cursor = 'pointer';
+  retryButton.style.display = 'none';
+
+  buttonRow.appendChild(installButton);
+  buttonRow.appendChild(retryButton);
+
+  container.appendChild(title);
+  container.appendChild(subtitle);
+  container.appendChild(statusLine);
+  container.appendChild(progressBarWrapper);
+  container.appendChild(progressDetail);
+  container.appendChild(errorLine);
+  container.appendChild(buttonRow);
+
+  root.appendChild(container);
+
+  const runInstall = async () => {
+    if (!window.llama?.installLatest) {
+      errorLine.textContent =
+        'Setup API not available. Ensure preload and main are configured correctly.';
+      return;
+    }
+
+    installButton.disabled = true;
+    retryButton.style.display = 'none';
+    errorLine.textContent = '';
+    statusLine.textContent = 'Starting download...';
+    progressBar.style.width = '0%';
+    progressDetail.textContent = '';
+
+    const updateFromProgress = (p: any) => {
+      switch (p.type) {
+        case 'status':
+          statusLine.textContent = p.message || '';
+          break;
+        case 'download-start':
+          statusLine.textContent = 'Downloading llama.cpp...';
+          if (p.totalBytes) {
+            progressDetail.textContent = `Total size: ${(
+              p.totalBytes /
+              (1024 * 1024)
+            ).toFixed(2)} MB`;
+          }
+          break;
+        case 'download-progress':
+          if (p.totalBytes) {
+            const pct = Math.max(
+              1,
+              Math.min(99, (p.receivedBytes / p.totalBytes) * 100),
+            );
+            progressBar.style.width = `${pct.toFixed(1)}%`;
+            progressDetail.textContent = `Downloaded ${(
+              p.receivedBytes /
+              (1024 * 1024)
+            ).toFixed(2)} MB of ${(p.totalBytes / (1024 * 1024)).toFixed(
+              2,
+            )} MB`;
+          } else {
+            statusLine.textContent = 'Downloading llama.cpp...';
+          }
+          break;
+        case 'download-complete':
+          statusLine.textContent = 'Download complete. Finalizing installation...';
+          progressBar.style.width = '100%';
+          break;
+        case 'install-complete':
+          statusLine.textContent = `Installed llama.cpp ${p.version || ''}`;
+          progressDetail.textContent = p.binaryPath
+            ? `Binary: ${p.binaryPath}`
+            : '';
+          break;
+        case 'error':
+          errorLine.textContent = p.message || 'Unknown error during setup.';
+          retryButton.style.display = 'inline-block';
+          installButton.disabled = false;
+          break;
+      }
+    };
+
+    const result = (await window.llama
+      .installLatest(updateFromProgress)
+      .catch((err: any) => {
+        updateFromProgress({
+          type: 'error',
+          message: err?.message || String(err),
+        });
+        const fallback: {
+          installed: boolean;
+          version?: string;
+          binaryPath?: string;
+          error?: string;
+        } = { installed: false, error: err?.message || String(err) };
+        return fallback;
+      })) as {
+      installed: boolean;
+      version?: string;
+      binaryPath?: string;
+      error?: string;
+    };
+
+    if (result.installed) {
+      statusLine.textContent = `Setup complete. llama.cpp ${
+        result.version || ''
+      } is ready. Launching app...`;
+      progressBar.style.width = '100%';
+      setTimeout(() => {
+        renderMainUI();
+      }, 800);
+    }
+  };
+
+  installButton.onclick = () => {
+    logRenderer('Install button clicked');
+    runInstall();
+  };
+  retryButton.onclick = () => {
+    logRenderer('Retry button clicked');
+    runInstall();
+  };
+}
+
+function renderMainUI() {
+  // Keep existing HTML-driven structure: assume index.html has the room controls.
+  // We only ensure that on successful setup we restore original DOM-based UI.
+  const target = document.location.origin + document.location.pathname;
+  logRenderer('Navigating to main UI', { target });
+  document.location.href = target;
+}
+
+declare global {
+  interface Window {
+    modelManager?: {
+      list: () => Promise<{
+        models: {
+          id: string;
+          displayName: string;
+          filePath: string;
+          sizeBytes?: number;
+          mmprojPath?: string;
+          quantization?: string;
+          installed: boolean;
+          contextStrategy?: string;
+          currentParams: {
+            temperature: number;
+            topP: number;
+            topK: number;
+            maxTokens: number;
+            contextWindow: number;
+            gpuLayers: number;
+          };
+        }[];
+        activeModelId: string | null;
+        embeddingModelId?: string | null;
+      }>;
+      getActive: () => Promise<{
+        model: {
+          id: string;
+          displayName: string;
+          filePath: string;
+          installed: boolean;
+          contextStrategy?: string;
+          currentParams: {
+            temperature: number;
+            topP: number;
+            topK: number;
+            maxTokens: number;
+            contextWindow: number;
+            gpuLayers: number;
+          };
+        } | null;
+        // The model has a vision projector (mmproj) and accepts images.
+        vision?: boolean;
+      }>;
+      setActive: (
+        id: string,
+      ) => Promise<{ ok: boolean; activeModelId?: string; error?: string }>;
+      setEmbedding: (
+        id: string | null,
+      ) => Promise<{ ok: boolean; embeddingModelId?: string | null; error?: string }>;
+      onActiveChanged: (
+        handler: (change: {
+          activeModelId: string | null;
+          model: { id: string; displayName: string; installed: boolean } | null;
+          vision: boolean;
+        }) => void,
+      ) => () => void;
+      updateParams: (
+        id: string,
+        params: {
+          temperature?: number;
+          topP?: number;
+          topK?: number;
+          maxTokens?: number;
+          contextWindow?: number;
+          gpuLayers?: number;
+        },
+      ) => Promise<{ ok: boolean; error?: string }>;
+      setContextStrategy: (id: string, strategy: string) => Promise<{ ok: boolean; error?: string }>;
+      resolveSampling: (overrides: {
+        temperature?: number;
+        top_p?: number;
+        top_k?: number;
+        max_tokens?: number;
+        stop?: string | string[];
+        seed?: number;
+        repeat_penalty?: number;
+        min_p?: number;
+      }) => Promise<
+        | {
+            ok: true;
+            sampling: {
+              temperature: number;
+              top_p: number;
+              top_k: number;
+              max_tokens: number;
+              stop?: string[];
+              seed?: number;
+              repeat_penalty?: number;
+              min_p?: number;
+            };
+          }
+        | { ok: false; error: string }
+      >;
+      searchHfGguf: (
+        query: string,
+      ) => Promise<{ ok: true; results: any[] } | { ok: false; error: string }>;
+      listHfFiles: (
+        repoId: string,
+      ) => Promise<
+        | { ok: true; files: { name: string; size?: number }[] }
+        | { ok: false; error: string }
+      >;
+      downloadHf: (options: {
+        repoId: string;
+        fileName: string;
+        displayName?: string;
+        quantization?: string;
+        contextWindow?: number;
+        mmprojFileName?: string;
+      }) => Promise<{ ok: boolean; error?: string }>;
+      // freeBytes is null when the platform cannot report free space.
+      getFreeDiskSpace: () => Promise<{ ok: boolean; freeBytes?: number | null; error?: string }>;
+      cancelDownload: (id: string) => Promise<{ ok: boolean; error?: string }>;
+      deleteModel: (id: string) => Promise<{ ok: boolean; error?: string }>;
+      onDownloadProgress: (
+        handler: (p: {
+          id: string;
+          type:
+            | 'status'
+            | 'download-start'
+            | 'download-progress'
+            | 'download-complete'
+            | 'install-complete'
+            | 'error';
+          message?: string;
+          url?: string;
+          totalBytes?: number;
+          receivedBytes?: number;
+          filePath?: string;
+        }) => void,
+      ) => () => void;
+    };
+
+    devices?: {
+      list: () => Promise<
+        { ok: true; devices: DeviceInfo[] } | { ok: false; error: string }
+      >;
+      get: (
+        id: string,
+      ) => Promise<{ ok: true; device: DeviceInfo | null } | { ok: false; error: string }>;
+      verifyProof: (id: string, binding: string, proof: unknown) => Promise<{ ok: boolean }>;
+      approve: (
+        id: string,
+        name?: string,
+      ) => Promise<{ ok: boolean; device?: DeviceInfo; secret?: string; error?: string }>;
+      block: (
+        id: string,
+        name?: string,
+      ) => Promise<{ ok: boolean; device?: DeviceInfo; error?: string }>;
+      rename: (
+        id: string,
+        name: string,
+      ) => Promise<{ ok: boolean; device?: DeviceInfo; error?: string }>;
+      revoke: (id: string) => Promise<{ ok: boolean; error?: string }>;
+      setLimits: (
+        id: string,
+        limits: Partial<PeerLimits> | null,
+      ) => Promise<{ ok: boolean; device?: DeviceInfo; error?: string }>;
+      setPermissions: (
+        id: string,
+        permissions: Partial<DevicePermissions> | null,
+      ) => Promise<{ ok: boolean; device?: DeviceInfo; error?: string }>;
+      onChanged: (
+        handler: (
+          change:
+            | { type: 'updated'; device: DeviceInfo }
+            | { type: 'removed'; id: string },
+        ) => void,
+      ) => () => void;
+    };
+  }
+}
+
+declare global {
+  interface Window {
+    usage?: {
+      checkQuota: (
+        deviceId: string,
+      ) => Promise<({ ok: true } & QuotaCheckResult) | { ok: false; error: string }>;
+      record: (
+        deviceId: string,
+        tokens: { promptTokens?: number; completionTokens?: number },
+      ) => Promise<{ ok: true; usage: DailyUsage } | { ok: false; error: string }>;
+      get: (
+        deviceId: string,
+      ) => Promise<{ ok: true; usage: DailyUsage } | { ok: false; error: string }>;
+    };
+
+    settings?: {
+      get: () => Promise<
+        { ok: true; settings: AppSettings } | { ok: false; error: string }
+      >;
+      update: (
+        patch: Partial<AppSettings>,
+      ) => Promise<{ ok: boolean; settings?: AppSettings; error?: string }>;
+      onChanged: (handler: (settings: AppSettings) => void) => () => void;
+    };
+
+    captures?: {
+      append: (entries: CaptureEntry[]) => void;
+      list: () => Promise<
+        { ok: true; captures: CaptureFileInfo[] } | { ok: false; error: string }
+      >;
+      read: (name: string) => Promise<{ ok: true; text: string } | { ok: false; error: string }>;
+      delete: (name: string) => Promise<{ ok: boolean; error?: string }>;
+    };
+  }
+}
+
+// Mirrors CaptureFileInfo in src/trafficCapture.ts.
+type CaptureFileInfo = {
+  name: string;
+  bytes: number;
+  modifiedAt: string;
+};
+
+// Mirrors PeerLimits / DownloadLimits / AppSettings in src/settingsStore.ts (0 = unlimited).
+type PeerLimits = {
+  requestsPerMinute: number;
+  maxConcurrentPerPeer: number;
+  dailyPromptTokens: number;
+  dailyCompletionTokens: number;
+};
+
+type DownloadLimits = {
+  maxModelMb: number;
+  minFreeDiskMb: number;
+};
+
+type AppSettings = {
+  requireEncryption: boolean;
+  maxConcurrentPrompts: number;
+  limits: PeerLimits;
+  downloads: DownloadLimits;
+  captureTraffic: boolean;
+};
+
+// Mirrors DailyUsage / QuotaCheck in src/usageStore.ts.
+type DailyUsage = {
+  date: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+type QuotaCheckResult =
+  | { allowed: true; limits: PeerLimits; usage: DailyUsage }
+  | {
+      allowed: false;
+      limits: PeerLimits;
+      usage: DailyUsage;
+      limit: 'daily_prompt_tokens' | 'daily_completion_tokens';
+      retryAfter: number;
+    };
+
+// Known device as returned by the devices bridge (the secret stays in main).
+// Mirrors DevicePermissions in src/deviceStore.ts.
+type DevicePermissions = {
+  manageModels: boolean;
+};
+
+type DeviceInfo = {
+  id: string;
+  name: string;
+  status: 'trusted' | 'blocked';
+  limits?: Partial<PeerLimits>;
+  permissions?: Partial<DevicePermissions>;
+  createdAt: string;
+  updatedAt: string;
+  lastSeenAt?: string;
+};
+
+/**
+ * Simple in-renderer Model Management screen implementation.
+ * - Separate UIs for Model Management and Model Downloading
+ * - Model Management: select active model, edit params
+ * - Download Models: HF search and download
+ */
+
+function renderMainP2PUI() {
+  const target = document.location.origin + document.location.pathname;
+  logRenderer('Navigating to main UI', { target });
+  document.location.href = target;
+}
+
+/**
+ * Build the Model Management UI (selection and parameters only)
+ */
+function buildModelManagementUI() {
+  const root = document.body;
+  root.innerHTML = '';
+
+  const container = document.createElement('div');
+  container.className = 'md-root md-stack';
+
+  const header = document.createElement('header');
+  header.className = 'md-topbar md-stack-section';
+  header.style.justifyContent = 'space-between';
+
+  const headerLeft = document.createElement('div');
+  headerLeft.className = 'md-topbar-left';
+
+  const title = document.createElement('div');
+  title.className = 'md-app-title';
+  title.textContent = 'Model Management';
+
+  const subtitle = document.createElement('div');
+  subtitle.className = 'md-app-subtitle';
+  subtitle.textContent = 'Manage installed models and parameters';
+
+  headerLeft.appendChild(title);
+  headerLeft.appendChild(subtitle);
+
+  const headerRight = document.createElement('div');
+  headerRight.className = 'md-topbar-right';
+
+  const backBtn = document.createElement('button');
+  backBtn.textContent = 'Back to Main';
+  backBtn.className = 'md-btn md-btn-ghost';
+  backBtn.onclick = () => {
+    renderMainP2PUI();
+  };
+
+  headerRight.appendChild(backBtn);
+  header.appendChild(headerLeft);
+  header.appendChild(headerRight);
+
+  const layout = document.createElement('div');
+  layout.className = 'md-stack-section';
+  layout.style.display = 'grid';
+  layout.style.gridTemplateColumns = '280px 1fr';
+  layout.style.gap = '14px';
+  layout.style.flex = '1 1 auto';
+  layout.style.minHeight = '0';
+
+  // Left: Installed models list
+  const leftPanel = document.createElement('section');
+  leftPanel.className = 'md-card';
+  leftPanel.style.display = 'flex';
+  leftPanel.style.flexDirection = 'column';
+  leftPanel.style.gap = '8px';
+  leftPanel.style.overflowY = 'auto';
+
+  const leftTitle = document.createElement('div');
+  leftTitle.className = 'md-section-label';
+  leftTitle.textContent = 'Installed Models';
+  leftPanel.appendChild(leftTitle);
+
+  const modelListEl = document.createElement('div');
+  modelListEl.id = 'md-model-list';
+  modelListEl.style.display = 'flex';
+  modelListEl.style.flexDirection = 'column';
+  modelListEl.style.gap = '4px';
+  leftPanel.appendChild(modelListEl);
+
+  // Right: Details
+  const rightPanel = document.createElement('section');
+  rightPanel.className = 'md-card';
+  rightPanel.style.display = 'flex';
+  rightPanel.style.flexDirection = 'column';
+  rightPanel.style.gap = '8px';
+  rightPanel.style.flex = '1';
+  rightPanel.style.minHeight = '0';
+  rightPanel.style.overflowY = 'auto';
+
+  const detailsTitle = document.createElement('div');
+  detailsTitle.className = 'md-section-label';
+  detailsTitle.textContent = 'Model Details & Parameters';
+  rightPanel.appendChild(detailsTitle);
+
+  const detailsBody = document.createElement('div');
+  detailsBody.id = 'md-model-details-body';
+  detailsBody.textContent = 'Select a model from the left to view and edit its parameters.';
+  detailsBody.style.fontSize = '12px';
+  detailsBody.style.color = 'var(--md-text-muted)';
+  rightPanel.appendChild(detailsBody);
+
+  layout.appendChild(leftPanel);
+  layout.appendChild(rightPanel);
+
+  container.appendChild(header);
+  container.appendChild(layout);
+
+  root.appendChild(container);
+
+  let currentSelectedId: string | null = null;
+
+  const refreshList = async () => {
+    if (!window.modelManager?.list) return;
+    const { models, activeModelId, embeddingModelId } = await window.modelManager.list();
+    modelListEl.innerHTML = '';
+
+    if (!models.length) {
+      const empty = document.createElement('div');
+      empty.textContent = 'No models registered yet.';
+      empty.style.fontSize = '12px';
+      empty.style.color = '#6b7280';
+      modelListEl.appendChild(empty);
+      return;
+    }
+
+    models.forEach((m) => {
+      const row = document.createElement('div');
+      row.style.padding = '8px 10px';
+      row.style.marginBottom = '4px';
+      row.style.borderRadius = '8px';
+      row.style.cursor = 'pointer';
+      row.style.display = 'flex';
+      row.style.flexDirection = 'column';
+      row.style.gap = '4px';
+      row.style.transition = 'all var(--md-transition-fast)';
+      row.dataset.id = m.id;
+
+      const name = document.createElement('div');
+      name.textContent = m.displayName || m.id;
+      name.style.fontSize = '12px';
+      name.style.fontWeight = '500';
+      name.style.color = 'var(--md-text)';
+
+      const meta = document.createElement('div');
+      meta.style.fontSize = '10px';
+      meta.style.color = 'var(--md-text-muted)';
+      meta.textContent = `${
+        m.installed ? 'installed' : 'not installed'
+      }${activeModelId === m.id ? ' • active' : ''}${
+        embeddingModelId === m.id ? ' • embeddings' : ''
+      }`;
+
+      row.appendChild(name);
+      row.appendChild(meta);
+
+      // Highlight active model with distinct styling
+      const isActive = activeModelId === m.id;
+      const isSelected = m.id === currentSelectedId;
+      
+      if (isActive && isSelected) {
+        // Active AND selected - show both highlights
+        row.style.background = 'linear-gradient(135deg, var(--md-accent-soft), rgba(168, 85, 247, 0.14))';
+        row.style.border = '2px solid var(--md-accent)';
+        row.style.boxShadow = '0 0 12px rgba(56, 189, 248, 0.3)';
+      } else if (isActive) {
+        // Active but not selected - subtler green/blue glow
+        row.style.background = 'linear-gradient(135deg, rgba(56, 189, 248, 0.12), rgba(34, 197, 94, 0.08))';
+        row.style.border = '1px solid rgba(56, 189, 248, 0.5)';
+        row.style.boxShadow = '0 0 8px rgba(56, 189, 248, 0.2)';
+      } else if (isSelected) {
+        // Selected but not active
+        row.style.background = 'var(--md-accent-soft)';
+        row.style.border = '1px solid var(--md-accent)';
+      } else {
+        row.style.background = 'rgba(15, 23, 42, 0.6)';
+        row.style.border = '1px solid var(--md-border-subtle)';
+      }
+
+      row.onmouseenter = () => {
+        const isActive = activeModelId === m.id;
+        const isSelected = m.id === currentSelectedId;
+        
+        if (!isSelected && !isActive) {
+          row.style.background = 'rgba(15, 23, 42, 0.9)';
+          row.style.borderColor = 'var(--md-border-strong)';
+        }
+      };
+
+      row.onmouseleave = () => {
+        const isActive = activeModelId === m.id;
+        const isSelected = m.id === currentSelectedId;
+        
+        if (isActive && isSelected) {
+          row.style.background = 'linear-gradient(135deg, var(--md-accent-soft), rgba(168, 85, 247, 0.14))';
+          row.style.border = '2px solid var(--md-accent)';
+          row.style.boxShadow = '0 0 12px rgba(56, 189, 248, 0.3)';
+        } else if (isActive) {
+          row.style.background = 'linear-gradient(135deg, rgba(56, 189, 248, 0.12), rgba(34, 197, 94, 0.08))';
+          row.style.border = '1px solid rgba(56, 189, 248, 0.5)';
+          row.style.boxShadow = '0 0 8px rgba(56, 189, 248, 0.2)';
+        } else if (isSelected) {
+          row.style.background = 'var(--md-accent-soft)';
+          row.style.border = '1px solid var(--md-accent)';
+        } else {
+          row.style.background = 'rgba(15, 23, 42, 0.6)';
+          row.style.borderColor = 'var(--md-border-subtle)';
+        }
+      };
+
+      row.onclick = () => {
+        currentSelectedId = m.id;
+        renderDetails(m, activeModelId, embeddingModelId);
+        refreshList();
+      };
+
+      modelListEl.appendChild(row);
+    });
+  };
+
+  const renderDetails = (
+    model: {
+      id: string;
+      displayName: string;
+      installed: boolean;
+      contextStrategy?: string;
+      currentParams: {
+        temperature: number;
+        topP: number;
+        topK: number;
+        maxTokens: number;
+        contextWindow: number;
+        gpuLayers: number;
+      };
+    },
+    activeModelId: string | null,
+    embeddingModelId: string | null = null,
+  ) => {
+    detailsBody.innerHTML = '';
+
+    const titleEl = document.createElement('div');
+    titleEl.textContent = model.displayName || model.id;
+    titleEl.style.fontSize = '13px';
+    titleEl.style.fontWeight = '600';
+    titleEl.style.marginBottom = '6px';
+    titleEl.style.color = 'var(--md-text)';
+
+    const statusEl = document.createElement('div');
+    statusEl.style.fontSize = '11px';
+    statusEl.style.marginBottom = '8px';
+    statusEl.style.color = 'var(--md-text-muted)';
+    statusEl.textContent = `${
+      model.installed ? 'Installed' : 'Not installed'
+    }${activeModelId === model.id ? ' • Active model' : ''}${
+      embeddingModelId === model.id ? ' • Embedding model' : ''
+    }`;
+
+    const paramsForm = document.createElement('div');
+    paramsForm.style.display = 'grid';
+    paramsForm.style.gridTemplateColumns = 'repeat(3, minmax(0, 1fr))';
+    paramsForm.style.gap = '6px';
+    paramsForm.style.fontSize = '11px';
+
+    type ParamKey = keyof typeof model.currentParams;
+    const paramLabels: Record<ParamKey, string> = {
+      temperature: 'Temp',
+      topP: 'top_p',
+      topK: 'top_k',
+      maxTokens: 'Max tokens',
+      contextWindow: 'Ctx window',
+      gpuLayers: 'GPU layers',
+    };
+
+    const inputs: Partial<Record<ParamKey, HTMLInputElement>> = {};
+
+    (Object.keys(model.currentParams) as ParamKey[]).forEach((key) => {
+      const wrap = document.createElement('label');
+      wrap.style.display = 'flex';
+      wrap.style.flexDirection = 'column';
+      wrap.style.gap = '1px';
+
+      const lab = document.createElement('div');
+      lab.textContent = paramLabels[key];
+      lab.style.color = 'var(--md-text-muted)';
+      lab.style.fontSize = '10px';
+
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.value = String(model.currentParams[key]);
+      input.style.fontSize = '11px';
+      input.style.padding = '5px 7px';
+      input.style.borderRadius = '5px';
+      input.style.border = '1px solid var(--md-border-subtle)';
+      input.style.background = 'rgba(2, 6, 23, 0.8)';
+      input.style.color = 'var(--md-text)';
+
+      inputs[key] = input;
+
+      wrap.appendChild(lab);
+      wrap.appendChild(input);
+      paramsForm.appendChild(wrap);
+    });
+
+    // Applied to phone prompts longer than the context window; saved on change.
+    const strategyWrap = document.createElement('label');
+    strategyWrap.style.display = 'flex';
+    strategyWrap.style.flexDirection = 'column';
+    strategyWrap.style.gap = '1px';
+    strategyWrap.style.marginTop = '6px';
+    strategyWrap.style.fontSize = '11px';
+
+    const strategyLabel = document.createElement('div');
+    strategyLabel.textContent = 'When a chat is longer than the context window';
+    strategyLabel.style.color = 'var(--md-text-muted)';
+    strategyLabel.style.fontSize = '10px';
+
+    const strategySelect = document.createElement('select');
+    strategySelect.style.fontSize = '11px';
+    strategySelect.style.padding = '5px 7px';
+    strategySelect.style.borderRadius = '5px';
+    strategySelect.style.border = '1px solid var(--md-border-subtle)';
+    strategySelect.style.background = 'rgba(2, 6, 23, 0.8)';
+    strategySelect.style.color = 'var(--md-text)';
+    const strategyLabels: Record<ContextStrategy, string> = {
+      drop_oldest: 'Drop the oldest turns, keep the system prompt',
+      sliding_window: 'Sliding window over the newest turns',
+      summarize: 'Summarize older turns with the model',
+      none: 'Refuse the prompt',
+    };
+    CONTEXT_STRATEGIES.forEach((strategy) => {
+      const option = document.createElement('option');
+      option.value = strategy;
+      option.textContent = strategyLabels[strategy];
+      strategySelect.appendChild(option);
+    });
+    strategySelect.value = normalizeContextStrategy(model.contextStrategy);
+
+    strategySelect.onchange = async () => {
+      if (!window.modelManager?.setContextStrategy) return;
+      const res = await window.modelManager.setContextStrategy(model.id, strategySelect.value);
+      if (!res.ok) {
+        detailsBody.appendChild(
+          document.createTextNode(
+            ` Failed to update context strategy: ${res.error || 'unknown error'}`,
+          ),
+        );
+      } else {
+        uiLog.info('Updated context strategy', { id: model.id, strategy: strategySelect.value });
+      }
+    };
+
+    strategyWrap.appendChild(strategyLabel);
+    strategyWrap.appendChild(strategySelect);
+
+    const actionsRow = document.createElement('div');
+    actionsRow.style.marginTop = '4px';
+    actionsRow.style.display = 'flex';
+    actionsRow.style.gap = '6px';
+
+    const saveBtn = document.createElement('button');
+    saveBtn.textContent = 'Save Params';
+    saveBtn.className = 'md-btn md-btn-ghost';
+    saveBtn.style.fontSize = '11px';
+
+    saveBtn.onclick = async () => {
+      if (!window.modelManager?.updateParams) return;
+      const params: any = {};
+      (Object.keys(inputs) as ParamKey[]).forEach((k) => {
+        const v = inputs[k]?.value;
+        if (v !== undefined) {
+          const num = Number(v);
+          if (!Number.isNaN(num)) params[k] = num;
+        }
+      });
+      const res = await window.modelManager.updateParams(model.id, params);
+      if (!res.ok) {
+        detailsBody.appendChild(
+          document.createTextNode(
+            ` Failed to update params: ${res.error || 'unknown error'}`,
+          ),
+        );
+      } else {
+        uiLog.info('Updated model params', { id: model.id });
+        refreshList();
+      }
+    };
+
+    const setActiveBtn = document.createElement('button');
+    setActiveBtn.textContent =
+      activeModelId === model.id ? 'Active' : 'Set Active';
+    setActiveBtn.disabled = activeModelId === model.id || !model.installed;
+    setActiveBtn.className = activeModelId === model.id ? 'md-btn md-btn-ghost' : 'md-btn';
+    setActiveBtn.style.fontSize = '11px';
+    if (setActiveBtn.disabled) {
+      setActiveBtn.style.opacity = '0.5';
+      setActiveBtn.style.cursor = 'default';
+    }
+
+    setActiveBtn.onclick = async () => {
+      if (!window.modelManager?.setActive) return;
+      if (setActiveBtn.disabled) return;
+      
+      uiLog.info('Setting active model', { id: model.id });
+      const res = await window.modelManager.setActive(model.id);
+      if (!res.ok) {
+        const errorMsg = document.createElement('div');
+        errorMsg.style.color = '#b91c1c';
+        errorMsg.style.fontSize = '12px';
+        errorMsg.style.marginTop = '4px';
+        errorMsg.textContent = `Failed to set active: ${res.error || 'unknown error'}`;
+        detailsBody.appendChild(errorMsg);
+      } else {
+        uiLog.info('Active model changed', { id: model.id });
+        // Refresh the list to show updated active state
+        await refreshList();
+        // Re-render details for the now-active model
+        const { models, activeModelId, embeddingModelId } = await window.modelManager.list();
+        const updatedModel = models.find((m) => m.id === model.id);
+        if (updatedModel) {
+          renderDetails(updatedModel, activeModelId, embeddingModelId);
+        }
+      }
+    };
+
+    // Embeddings for phones run on a separate llama-server with this model.
+    const isEmbeddingModel = embeddingModelId === model.id;
+    const embeddingBtn = document.createElement('button');
+    embeddingBtn.textContent = isEmbeddingModel ? 'Stop Embeddings' : 'Use for Embeddings';
+    embeddingBtn.className = 'md-btn md-btn-ghost';
+    embeddingBtn.style.fontSize = '11px';
+    embeddingBtn.disabled = !model.installed;
+    if (embeddingBtn.disabled) {
+      embeddingBtn.style.opacity = '0.5';
+      embeddingBtn.style.cursor = 'default';
+    }
+
+    embeddingBtn.onclick = async () => {
+      if (!window.modelManager?.setEmbedding) return;
+      if (embeddingBtn.disabled) return;
+
+      uiLog.info('Setting embedding model', { id: isEmbeddingModel ? null : model.id });
+      const res = await window.modelManager.setEmbedding(isEmbeddingModel ? null : model.id);
+      if (!res.ok) {
+        const errorMsg = document.createElement('div');
+        errorMsg.style.color = '#b91c1c';
+        errorMsg.style.fontSize = '12px';
+        errorMsg.style.marginTop = '4px';
+        errorMsg.textContent = `Failed to set embedding model: ${res.error || 'unknown error'}`;
+        detailsBody.appendChild(errorMsg);
+      } else {
+        await refreshList();
+        const { models, activeModelId, embeddingModelId } = await window.modelManager.list();
+        const updatedModel = models.find((m) => m.id === model.id);
+        if (updatedModel) {
+          renderDetails(updatedModel, activeModelId, embeddingModelId);
+        }
+      }
+    };
+
+    const deleteBtn = document.createElement('button');
+    deleteBtn.textContent = 'Delete Model';
+    deleteBtn.className = 'md-btn md-btn-ghost';
+    deleteBtn.style.fontSize = '11px';
+    deleteBtn.style.color = 'var(--md-danger)';
+    deleteBtn.disabled = activeModelId === model.id || !model.installed;
+    if (deleteBtn.disabled) {
+      deleteBtn.style.opacity = '0.5';
+      deleteBtn.style.cursor = 'default';
+    }
+
+    deleteBtn.onclick = async () => {
+      if (!window.modelManager?.deleteModel) return;
+      if (deleteBtn.disabled) return;
+
+      // Confirm deletion
+      const confirmed = confirm(
+        `Are you sure you want to delete "${model.displayName || model.id}"?\n\nThis will permanently remove the model file from your system.`
+      );
+      
+      if (!confirmed) return;
+
+      uiLog.info('Deleting model', { id: model.id });
+      const res = await window.modelManager.deleteModel(model.id);
+      
+      if (!res.ok) {
+        const errorMsg = document.createElement('div');
+        errorMsg.style.color = '#b91c1c';
+        errorMsg.style.fontSize = '12px';
+        errorMsg.style.marginTop = '4px';
+        errorMsg.textContent = `Failed to delete: ${res.error || 'unknown error'}`;
+        detailsBody.appendChild(errorMsg);
+      } else {
+        uiLog.info('Model deleted successfully', { id: model.id });
+        // Clear details and refresh list
+        currentSelectedId = null;
+        detailsBody.innerHTML = '';
+        detailsBody.textContent = 'Select a model from the left to view and edit its parameters.';
+        detailsBody.style.fontSize = '12px';
+        detailsBody.style.color = 'var(--md-text-muted)';
+        await refreshList();
+      }
+    };
+
+    actionsRow.appendChild(saveBtn);
+    actionsRow.appendChild(setActiveBtn);
+    actionsRow.appendChild(embeddingBtn);
+    actionsRow.appendChild(deleteBtn);
+
+    detailsBody.appendChild(titleEl);
+    detailsBody.appendChild(statusEl);
+    detailsBody.appendChild(paramsForm);
+    detailsBody.appendChild(strategyWrap);
+    detailsBody.appendChild(actionsRow);
+  };
+
+  void refreshList();
+}
+
+/**
+ * Build the Devices UI (trusted / blocked phones: rename, block, revoke)
+ */
+function buildDeviceManagementUI() {
+  const root = document.body;
+  root.innerHTML = '';
+
+  const container = document.createElement('div');
+  container.className = 'md-root md-stack';
+
+  const header = document.createElement('header');
+  header.className = 'md-topbar md-stack-section';
+  header.style.justifyContent = 'space-between';
+
+  const headerLeft = document.createElement('div');
+  headerLeft.className = 'md-topbar-left';
+
+  const title = document.createElement('div');
+  title.className = 'md-app-title';
+  title.textContent = 'Devices';
+
+  const subtitle = document.createElement('div');
+  subtitle.className = 'md-app-subtitle';
+  subtitle.textContent = 'Phones allowed or blocked from using this desktop';
+
+  headerLeft.appendChild(title);
+  headerLeft.appendChild(subtitle);
+
+  const headerRight = document.createElement('div');
+  headerRight.className = 'md-topbar-right';
+
+  const backBtn = document.createElement('button');
+  backBtn.textContent = 'Back to Main';
+  backBtn.className = 'md-btn md-btn-ghost';
+  backBtn.onclick = () => {
+    renderMainP2PUI();
+  };
+
+  headerRight.appendChild(backBtn);
+  header.appendChild(headerLeft);
+  header.appendChild(headerRight);
+
+  const layout = document.createElement('div');
+  layout.className = 'md-stack-section';
+  layout.style.display = 'grid';
+  layout.style.gridTemplateColumns = '280px 1fr';
+  layout.style.gap = '14px';
+  layout.style.flex = '1 1 auto';
+  layout.style.minHeight = '0';
+
+  // Left: Known devices list
+  const leftPanel = document.createElement('section');
+  leftPanel.className = 'md-card';
+  leftPanel.style.display = 'flex';
+  leftPanel.style.flexDirection = 'column';
+  leftPanel.style.gap = '8px';
+  leftPanel.style.overflowY = 'auto';
+
+  const leftTitle = document.createElement('div');
+  leftTitle.className = 'md-section-label';
+  leftTitle.textContent = 'Known Devices';
+  leftPanel.appendChild(leftTitle);
+
+  const deviceListEl = document.createElement('div');
+  deviceListEl.style.display = 'flex';
+  deviceListEl.style.flexDirection = 'column';
+  deviceListEl.style.gap = '4px';
+  leftPanel.appendChild(deviceListEl);
+
+  // Right: Details
+  const rightPanel = document.createElement('section');
+  rightPanel.className = 'md-card';
+  rightPanel.style.display = 'flex';
+  rightPanel.style.flexDirection = 'column';
+  rightPanel.style.gap = '8px';
+  rightPanel.style.flex = '1';
+  rightPanel.style.minHeight = '0';
+  rightPanel.style.overflowY = 'auto';
+
+  const detailsTitle = document.createElement('div');
+  detailsTitle.className = 'md-section-label';
+  detailsTitle.textContent = 'Device Details';
+  rightPanel.appendChild(detailsTitle);
+
+  const detailsBody = document.createElement('div');
+  detailsBody.style.display = 'flex';
+  detailsBody.style.flexDirection = 'column';
+  rightPanel.appendChild(detailsBody);
+
+  layout.appendChild(leftPanel);
+  layout.appendChild(rightPanel);
+
+  container.appendChild(header);
+  container.appendChild(layout);
+
+  root.appendChild(container);
+
+  let currentSelectedId: string | null = null;
+
+  const showPlaceholder = () => {
+    detailsBody.innerHTML = '';
+    detailsBody.textContent = 'Select a device from the left to manage it.';
+    detailsBody.style.fontSize = '12px';
+    detailsBody.style.color = 'var(--md-text-muted)';
+  };
+
+  const showError = (message: string) => {
+    const errorMsg = document.createElement('div');
+    errorMsg.style.color = '#b91c1c';
+    errorMsg.style.fontSize = '12px';
+    errorMsg.style.marginTop = '4px';
+    errorMsg.textContent = message;
+    detailsBody.appendChild(errorMsg);
+  };
+
+  const formatDate = (value?: string) =>
+    value ? new Date(value).toLocaleString() : 'never';
+
+  const refreshList = async () => {
+    if (!window.devices?.list) return;
+    const res = await window.devices.list();
+    deviceListEl.innerHTML = '';
+
+    const devices = res.ok ? res.devices : [];
+    if (!devices.length) {
+      const empty = document.createElement('div');
+      empty.textContent = res.ok
+        ? 'No devices yet. Phones appear here after you allow them.'
+        : `Failed to load devices: ${(res as { ok: false; error: string }).error}`;
+      empty.style.fontSize = '12px';
+      empty.style.color = '#6b7280';
+      deviceListEl.appendChild(empty);
+    }
+
+    devices.forEach((d) => {
+      const row = document.createElement('div');
+      row.style.padding = '8px 10px';
+      row.style.borderRadius = '8px';
+      row.style.cursor = 'pointer';
+      row.style.display = 'flex';
+      row.style.flexDirection = 'column';
+      row.style.gap = '4px';
+      row.style.transition = 'all var(--md-transition-fast)';
+
+      const isSelected = d.id === currentSelectedId;
+      row.style.background = isSelected ? 'var(--md-accent-soft)' : 'rgba(15, 23, 42, 0.6)';
+      row.style.border = isSelected
+        ? '1px solid var(--md-accent)'
+        : '1px solid var(--md-border-subtle)';
+
+      const name = document.createElement('div');
+      name.textContent = d.name;
+      name.style.fontSize = '12px';
+      name.style.fontWeight = '500';
+      name.style.color = 'var(--md-text)';
+
+      const meta = document.createElement('div');
+      meta.style.fontSize = '10px';
+      meta.style.color = d.status === 'blocked' ? 'var(--md-danger)' : 'var(--md-text-muted)';
+      meta.textContent = `${d.status} • last seen ${formatDate(d.lastSeenAt)}`;
+
+      row.appendChild(name);
+      row.appendChild(meta);
+
+      row.onclick = () => {
+        currentSelectedId = d.id;
+        renderDetails(d);
+        void refreshList();
+      };
+
+      deviceListEl.appendChild(row);
+    });
+
+    const selected = devices.find((d) => d.id === currentSelectedId);
+    if (!selected) {
+      currentSelectedId = null;
+      showPlaceholder();
+    }
+  };
+
+  const renderDetails = (device: DeviceInfo) => {
+    detailsBody.innerHTML = '';
+    detailsBody.style.color = '';
+
+    const titleEl = document.createElement('div');
+    titleEl.textContent = device.name;
+    titleEl.style.fontSize = '13px';
+    titleEl.style.fontWeight = '600';
+    titleEl.style.marginBottom = '6px';
+    titleEl.style.color = 'var(--md-text)';
+
+    const statusEl = document.createElement('div');
+    statusEl.style.fontSize = '11px';
+    statusEl.style.marginBottom = '8px';
+    statusEl.style.color = 'var(--md-text-muted)';
+    statusEl.textContent = `${
+      device.status === 'trusted' ? 'Trusted' : 'Blocked'
+    } • added ${formatDate(device.createdAt)} • last seen ${formatDate(device.lastSeenAt)}`;
+
+    const idEl = document.createElement('div');
+    idEl.style.fontSize = '10px';
+    idEl.style.fontFamily = 'var(--md-font-mono)';
+    idEl.style.color = 'var(--md-text-muted)';
+    idEl.style.marginBottom = '8px';
+    idEl.textContent = device.id;
+
+    const nameWrap = document.createElement('label');
+    nameWrap.style.display = 'flex';
+    nameWrap.style.flexDirection = 'column';
+    nameWrap.style.gap = '1px';
+    nameWrap.style.maxWidth = '280px';
+
+    const nameLabel = document.createElement('div');
+    nameLabel.textContent = 'Name';
+    nameLabel.style.color = 'var(--md-text-muted)';
+    nameLabel.style.fontSize = '10px';
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.value = device.name;
+    nameInput.maxLength = MAX_DEVICE_NAME_LENGTH;
+    nameInput.style.fontSize = '11px';
+    nameInput.style.padding = '5px 7px';
+    nameInput.style.borderRadius = '5px';
+    nameInput.style.border = '1px solid var(--md-border-subtle)';
+    nameInput.style.background = 'rgba(2, 6, 23, 0.8)';
+    nameInput.style.color = 'var(--md-text)';
+
+    nameWrap.appendChild(nameLabel);
+    nameWrap.appendChild(nameInput);
+
+    const actionsRow = document.createElement('div');
+    actionsRow.style.marginTop = '8px';
+    actionsRow.style.display = 'flex';
+    actionsRow.style.gap = '6px';
+
+    const renameBtn = document.createElement('button');
+    renameBtn.textContent = 'Rename';
+    renameBtn.className = 'md-btn md-btn-ghost';
+    renameBtn.style.fontSize = '11px';
+    renameBtn.onclick = async () => {
+      if (!window.devices?.rename) return;
+      const res = await window.devices.rename(device.id, nameInput.value);
+      if (!res.ok || !res.device) {
+        showError(`Failed to rename: ${res.error || 'unknown error'}`);
+        return;
+      }
+      uiLog.info('Renamed device', { id: device.id });
+      renderDetails(res.device);
+      await refreshList();
+    };
+
+    const blockBtn = document.createElement('button');
+    blockBtn.textContent = 'Block';
+    blockBtn.className = 'md-btn md-btn-ghost';
+    blockBtn.style.fontSize = '11px';
+    blockBtn.style.color = 'var(--md-danger)';
+    blockBtn.disabled = device.status === 'blocked';
+    if (blockBtn.disabled) {
+      blockBtn.style.opacity = '0.5';
+      blockBtn.style.cursor = 'default';
+    }
+    blockBtn.onclick = async () => {
+      if (!window.devices?.block || blockBtn.disabled) return;
+      const confirmed = confirm(
+        `Block "${device.name}"?\n\nIt will be disconnected and refused on every future connection.`,
+      );
+      if (!confirmed) return;
+      const res = await window.devices.block(device.id);
+      if (!res.ok || !res.device) {
+        showError(`Failed to block: ${res.error || 'unknown error'}`);
+        return;
+      }
+      uiLog.info('Blocked device', { id: device.id });
+      renderDetails(res.device);
+      await refreshList();
+    };
+
+    // Revoking forgets the device; for a blocked device that amounts to unblocking it.
+    const revokeBtn = document.createElement('button');
+    revokeBtn.textContent = device.status === 'blocked' ? 'Unblock' : 'Revoke';
+    revokeBtn.className = 'md-btn md-btn-ghost';
+    revokeBtn.style.fontSize = '11px';
+    if (device.status === 'trusted') {
+      revokeBtn.style.color = 'var(--md-danger)';
+    }
+    revokeBtn.onclick = async () => {
+      if (!window.devices?.revoke) return;
+      const confirmed = confirm(
+        device.status === 'blocked'
+          ? `Unblock "${device.name}"?\n\nIt will need the PIN and your approval to connect again.`
+          : `Revoke "${device.name}"?\n\nIt will be disconnected and must pair with the PIN and be approved again.`,
+      );
+      if (!confirmed) return;
+      const res = await window.devices.revoke(device.id);
+      if (!res.ok) {
+        showError(`Failed to revoke: ${res.error || 'unknown error'}`);
+        return;
+      }
+      uiLog.info('Revoked device', { id: device.id });
+      currentSelectedId = null;
+      await refreshList();
+    };
+
+    actionsRow.appendChild(renameBtn);
+    actionsRow.appendChild(blockBtn);
+    actionsRow.appendChild(revokeBtn);
+
+    // Limit overrides; blank fields fall back to the defaults in Settings.
+    const limitsTitle = document.createElement('div');
+    limitsTitle.className = 'md-section-label';
+    limitsTitle.style.marginTop = '12px';
+    limitsTitle.textContent = 'Limits (blank = Settings default, 0 = unlimited)';
+
+    const usageEl = document.createElement('div');
+    usageEl.style.fontSize = '11px';
+    usageEl.style.color = 'var(--md-text-muted)';
+    usageEl.style.marginBottom = '6px';
+    usageEl.textContent = 'Usage today: loading...';
+
+    const limitsForm = document.createElement('div');
+    limitsForm.style.display = 'grid';
+    limitsForm.style.gridTemplateColumns = 'repeat(4, minmax(0, 1fr))';
+    limitsForm.style.gap = '6px';
+    limitsForm.style.fontSize = '11px';
+
+    const limitLabels: Record<keyof PeerLimits, string> = {
+      requestsPerMinute: 'Requests / min',
+      maxConcurrentPerPeer: 'Concurrent',
+      dailyPromptTokens: 'Prompt tokens / day',
+      dailyCompletionTokens: 'Completion tokens / day',
+    };
+    const limitInputs: Partial<Record<keyof PeerLimits, HTMLInputElement>> = {};
+
+    (Object.keys(limitLabels) as Array<keyof PeerLimits>).forEach((key) => {
+      const wrap = document.createElement('label');
+      wrap.style.display = 'flex';
+      wrap.style.flexDirection = 'column';
+      wrap.style.gap = '1px';
+
+      const lab = document.createElement('div');
+      lab.textContent = limitLabels[key];
+      lab.style.color = 'var(--md-text-muted)';
+      lab.style.fontSize = '10px';
+
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.min = '0';
+      input.placeholder = 'default';
+      const override = device.limits?.[key];
+      input.value = override === undefined ? '' : String(override);
+      input.style.fontSize = '11px';
+      input.style.padding = '5px 7px';
+      input.style.borderRadius = '5px';
+      input.style.border = '1px solid var(--md-border-subtle)';
+      input.style.background = 'rgba(2, 6, 23, 0.8)';
+      input.style.color = 'var(--md-text)';
+
+      limitInputs[key] = input;
+      wrap.appendChild(lab);
+      wrap.appendChild(input);
+      limitsForm.appendChild(wrap);
+    });
+
+    const saveLimitsBtn = document.createElement('button');
+    saveLimitsBtn.textContent = 'Save Limits';
+    saveLimitsBtn.className = 'md-btn md-btn-ghost';
+    saveLimitsBtn.style.fontSize = '11px';
+    saveLimitsBtn.style.marginTop = '6px';
+    saveLimitsBtn.style.alignSelf = 'flex-start';
+    saveLimitsBtn.onclick = async () => {
+      if (!window.devices?.setLimits) return;
+      const limits: Partial<PeerLimits> = {};
+      (Object.keys(limitInputs) as Array<keyof PeerLimits>).forEach((key) => {
+        const value = limitInputs[key]?.value ?? '';
+        const num = Number(value);
+        if (value !== '' && !Number.isNaN(num)) limits[key] = num;
+      });
+      const res = await window.devices.setLimits(device.id, limits);
+      if (!res.ok || !res.device) {
+        showError(`Failed to save limits: ${res.error || 'unknown error'}`);
+        return;
+      }
+      uiLog.info('Updated device limits', { id: device.id });
+      renderDetails(res.device);
     };
-  }
-}
 
-/**
- * Simple in-renderer Model Management screen implementation.
- * - Separate UIs for Model Management and Model Downloading
- * - Model Management: select active model, edit params
- * - Download Models: HF search and download
- */
+    // Remote actions beyond prompting; saved as soon as a box is toggled.
+    const permissionsTitle = document.createElement('div');
+    permissionsTitle.className = 'md-section-label';
+    permissionsTitle.style.marginTop = '12px';
+    permissionsTitle.textContent = 'Permissions';
+
+    const manageModelsRow = document.createElement('label');
+    manageModelsRow.style.display = 'flex';
+    manageModelsRow.style.alignItems = 'center';
+    manageModelsRow.style.gap = '6px';
+    manageModelsRow.style.fontSize = '11px';
+
+    const manageModelsInput = document.createElement('input');
+    manageModelsInput.type = 'checkbox';
+    manageModelsInput.checked = device.permissions?.manageModels === true;
+    manageModelsInput.onchange = async () => {
+      if (!window.devices?.setPermissions) return;
+      const res = await window.devices.setPermissions(device.id, {
+        ...(device.permissions || {}),
+        manageModels: manageModelsInput.checked,
+      });
+      if (!res.ok || !res.device) {
+        showError(`Failed to save permissions: ${res.error || 'unknown error'}`);
+        manageModelsInput.checked = !manageModelsInput.checked;
+        return;
+      }
+      uiLog.info('Updated device permissions', { id: device.id });
+      renderDetails(res.device);
+    };
 
-function renderMainP2PUI() {
-  const target = document.location.origin + document.location.pathname;
-  logRenderer('Navigating to main UI', { target });
-  document.location.href = target;
+    const manageModelsText = document.createElement('span');
+    manageModelsText.textContent = 'Allow listing and switching models from this device';
+
+    manageModelsRow.appendChild(manageModelsInput);
+    manageModelsRow.appendChild(manageModelsText);
+
+    detailsBody.appendChild(titleEl);
+    detailsBody.appendChild(statusEl);
+    detailsBody.appendChild(idEl);
+    detailsBody.appendChild(nameWrap);
+    detailsBody.appendChild(actionsRow);
+    detailsBody.appendChild(limitsTitle);
+    detailsBody.appendChild(usageEl);
+    detailsBody.appendChild(limitsForm);
+    detailsBody.appendChild(saveLimitsBtn);
+    detailsBody.appendChild(permissionsTitle);
+    detailsBody.appendChild(manageModelsRow);
+
+    void window.usage?.get(device.id).then((res) => {
+      if (!res.ok) {
+        usageEl.textContent = 'Usage today: unavailable';
+        return;
+      }
+      const { usage } = res;
+      usageEl.textContent = `Usage today: ${usage.requests} requests, ${usage.promptTokens} prompt tokens, ${usage.completionTokens} completion tokens`;
+    });
+  };
+
+  showPlaceholder();
+  void refreshList();
 }
 
 /**
- * Build the Model Management UI (selection and parameters only)
+ * Build the Settings UI (app-wide options persisted by src/settingsStore.ts)
  */
-function buildModelManagementUI() {
+function buildSettingsUI() {
   const root = document.body;
   root.innerHTML = '';
 
@@ -1193,11 +4847,11 @@ function buildModelManagementUI() {
 
   const title = document.createElement('div');
   title.className = 'md-app-title';
-  title.textContent = 'Model Management';
+  title.textContent = 'Settings';
 
   const subtitle = document.createElement('div');
   subtitle.className = 'md-app-subtitle';
-  subtitle.textContent = 'Manage installed models and parameters';
+  subtitle.textContent = 'Options for how phones connect to this desktop';
 
   headerLeft.appendChild(title);
   headerLeft.appendChild(subtitle);
@@ -1216,373 +4870,650 @@ function buildModelManagementUI() {
   header.appendChild(headerLeft);
   header.appendChild(headerRight);
 
-  const layout = document.createElement('div');
-  layout.className = 'md-stack-section';
-  layout.style.display = 'grid';
-  layout.style.gridTemplateColumns = '280px 1fr';
-  layout.style.gap = '14px';
-  layout.style.flex = '1 1 auto';
-  layout.style.minHeight = '0';
+  const panel = document.createElement('section');
+  panel.className = 'md-card md-stack-section';
+  panel.style.display = 'flex';
+  panel.style.flexDirection = 'column';
+  panel.style.gap = '8px';
+  panel.style.overflowY = 'auto';
+
+  const securityTitle = document.createElement('div');
+  securityTitle.className = 'md-section-label';
+  securityTitle.textContent = 'Security';
+  panel.appendChild(securityTitle);
+
+  const makeCheckboxRow = (labelText: string, hintText: string) => {
+    const wrap = document.createElement('label');
+    wrap.style.display = 'flex';
+    wrap.style.alignItems = 'flex-start';
+    wrap.style.gap = '8px';
+    wrap.style.fontSize = '12px';
+    wrap.style.color = 'var(--md-text)';
+    wrap.style.cursor = 'pointer';
+
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+
+    const text = document.createElement('div');
+    const label = document.createElement('div');
+    label.textContent = labelText;
+    const hint = document.createElement('div');
+    hint.textContent = hintText;
+    hint.style.fontSize = '10px';
+    hint.style.color = 'var(--md-text-muted)';
+    text.appendChild(label);
+    text.appendChild(hint);
+
+    wrap.appendChild(input);
+    wrap.appendChild(text);
+    panel.appendChild(wrap);
+    return input;
+  };
 
-  // Left: Installed models list
-  const leftPanel = document.createElement('section');
-  leftPanel.className = 'md-card';
-  leftPanel.style.display = 'flex';
-  leftPanel.style.flexDirection = 'column';
-  leftPanel.style.gap = '8px';
-  leftPanel.style.overflowY = 'auto';
+  const requireEncryptionInput = makeCheckboxRow(
+    'Require end-to-end encryption',
+    'Refuse phones that cannot encrypt messages on top of WebRTC. Older app versions will not be able to connect.',
+  );
 
-  const leftTitle = document.createElement('div');
-  leftTitle.className = 'md-section-label';
-  leftTitle.textContent = 'Installed Models';
-  leftPanel.appendChild(leftTitle);
+  const makeSectionTitle = (text: string) => {
+    const label = document.createElement('div');
+    label.className = 'md-section-label';
+    label.style.marginTop = '8px';
+    label.textContent = text;
+    panel.appendChild(label);
+  };
 
-  const modelListEl = document.createElement('div');
-  modelListEl.id = 'md-model-list';
-  modelListEl.style.display = 'flex';
-  modelListEl.style.flexDirection = 'column';
-  modelListEl.style.gap = '4px';
-  leftPanel.appendChild(modelListEl);
+  const makeNumberRow = (labelText: string, hintText: string, min: number, max: number) => {
+    const wrap = document.createElement('label');
+    wrap.style.display = 'flex';
+    wrap.style.flexDirection = 'column';
+    wrap.style.gap = '2px';
+    wrap.style.maxWidth = '360px';
 
-  // Right: Details
-  const rightPanel = document.createElement('section');
-  rightPanel.className = 'md-card';
-  rightPanel.style.display = 'flex';
-  rightPanel.style.flexDirection = 'column';
-  rightPanel.style.gap = '8px';
-  rightPanel.style.flex = '1';
-  rightPanel.style.minHeight = '0';
-  rightPanel.style.overflowY = 'auto';
+    const label = document.createElement('div');
+    label.textContent = labelText;
+    label.style.fontSize = '12px';
+    label.style.color = 'var(--md-text)';
+
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = String(min);
+    input.max = String(max);
+    input.style.fontSize = '11px';
+    input.style.padding = '5px 7px';
+    input.style.borderRadius = '5px';
+    input.style.border = '1px solid var(--md-border-subtle)';
+    input.style.background = 'rgba(2, 6, 23, 0.8)';
+    input.style.color = 'var(--md-text)';
+    input.style.maxWidth = '120px';
+
+    const hint = document.createElement('div');
+    hint.textContent = hintText;
+    hint.style.fontSize = '10px';
+    hint.style.color = 'var(--md-text-muted)';
+
+    wrap.appendChild(label);
+    wrap.appendChild(input);
+    wrap.appendChild(hint);
+    panel.appendChild(wrap);
+    return input;
+  };
 
-  const detailsTitle = document.createElement('div');
-  detailsTitle.className = 'md-section-label';
-  detailsTitle.textContent = 'Model Details & Parameters';
-  rightPanel.appendChild(detailsTitle);
+  const readNumber = (input: HTMLInputElement): number | undefined => {
+    const num = Number(input.value);
+    return input.value !== '' && !Number.isNaN(num) ? num : undefined;
+  };
 
-  const detailsBody = document.createElement('div');
-  detailsBody.id = 'md-model-details-body';
-  detailsBody.textContent = 'Select a model from the left to view and edit its parameters.';
-  detailsBody.style.fontSize = '12px';
-  detailsBody.style.color = 'var(--md-text-muted)';
-  rightPanel.appendChild(detailsBody);
+  makeSectionTitle('Generation');
 
-  layout.appendChild(leftPanel);
-  layout.appendChild(rightPanel);
+  const maxConcurrentInput = makeNumberRow(
+    'Concurrent prompts',
+    'Prompts generated at the same time; others wait in line and phones see their place. A running llama-server keeps its slot count until it next starts (for example after switching models).',
+    1,
+    16,
+  );
 
-  container.appendChild(header);
-  container.appendChild(layout);
+  makeSectionTitle('Limits per device');
+
+  const limitInputs: Record<keyof PeerLimits, HTMLInputElement> = {
+    requestsPerMinute: makeNumberRow(
+      'Requests per minute',
+      'Prompts a device may start in any 60 seconds. 0 = unlimited.',
+      0,
+      1e9,
+    ),
+    maxConcurrentPerPeer: makeNumberRow(
+      'Concurrent requests',
+      'Prompts a device may have queued or running at once. 0 = unlimited.',
+      0,
+      1e9,
+    ),
+    dailyPromptTokens: makeNumberRow(
+      'Daily prompt tokens',
+      'Input tokens a device may use per day (resets at midnight). 0 = unlimited.',
+      0,
+      1e9,
+    ),
+    dailyCompletionTokens: makeNumberRow(
+      'Daily completion tokens',
+      'Generated tokens a device may use per day. 0 = unlimited. Override per device on the Devices screen.',
+      0,
+      1e9,
+    ),
+  };
 
-  root.appendChild(container);
+  makeSectionTitle('Downloads requested by phones');
 
-  let currentSelectedId: string | null = null;
+  // Stored in MiB, edited in GB.
+  const maxModelGbInput = makeNumberRow(
+    'Largest download (GB)',
+    'Phones cannot ask for a model (plus its vision projector) bigger than this. 0 = unlimited.',
+    0,
+    1e6,
+  );
+  const minFreeDiskGbInput = makeNumberRow(
+    'Free disk space to keep (GB)',
+    'Requests that would leave less free space on the models disk are refused. 0 = no check.',
+    0,
+    1e6,
+  );
+  maxModelGbInput.step = '0.5';
+  minFreeDiskGbInput.step = '0.5';
+  const readGbAsMb = (input: HTMLInputElement): number | undefined => {
+    const gb = readNumber(input);
+    return gb === undefined ? undefined : Math.round(gb * 1024);
+  };
 
-  const refreshList = async () => {
-    if (!window.modelManager?.list) return;
-    const { models, activeModelId } = await window.modelManager.list();
-    modelListEl.innerHTML = '';
+  makeSectionTitle('Diagnostics');
 
-    if (!models.length) {
-      const empty = document.createElement('div');
-      empty.textContent = 'No models registered yet.';
-      empty.style.fontSize = '12px';
-      empty.style.color = '#6b7280';
-      modelListEl.appendChild(empty);
+  const captureTrafficInput = makeCheckboxRow(
+    'Record protocol traffic',
+    'Save every message exchanged with phones, including prompts and replies, to a capture file on this computer. Open captures from Traffic on the main screen.',
+  );
+
+  const actionsRow = document.createElement('div');
+  actionsRow.style.marginTop = '4px';
+  actionsRow.style.display = 'flex';
+  actionsRow.style.alignItems = 'center';
+  actionsRow.style.gap = '8px';
+
+  const saveBtn = document.createElement('button');
+  saveBtn.textContent = 'Save Settings';
+  saveBtn.className = 'md-btn';
+  saveBtn.style.fontSize = '11px';
+
+  const statusEl = document.createElement('div');
+  statusEl.style.fontSize = '11px';
+  statusEl.style.color = 'var(--md-text-muted)';
+
+  actionsRow.appendChild(saveBtn);
+  actionsRow.appendChild(statusEl);
+  panel.appendChild(actionsRow);
+
+  container.appendChild(header);
+  container.appendChild(panel);
+  root.appendChild(container);
+
+  const applySettings = (settings: AppSettings) => {
+    requireEncryptionInput.checked = settings.requireEncryption;
+    maxConcurrentInput.value = String(settings.maxConcurrentPrompts);
+    (Object.keys(limitInputs) as Array<keyof PeerLimits>).forEach((key) => {
+      limitInputs[key].value = String(settings.limits[key]);
+    });
+    maxModelGbInput.value = String(Math.round((settings.downloads.maxModelMb / 1024) * 10) / 10);
+    minFreeDiskGbInput.value = String(
+      Math.round((settings.downloads.minFreeDiskMb / 1024) * 10) / 10,
+    );
+    captureTrafficInput.checked = settings.captureTraffic;
+  };
+
+  saveBtn.onclick = async () => {
+    if (!window.settings?.update) return;
+    const res = await window.settings.update({
+      requireEncryption: requireEncryptionInput.checked,
+      maxConcurrentPrompts: readNumber(maxConcurrentInput),
+      limits: {
+        requestsPerMinute: readNumber(limitInputs.requestsPerMinute),
+        maxConcurrentPerPeer: readNumber(limitInputs.maxConcurrentPerPeer),
+        dailyPromptTokens: readNumber(limitInputs.dailyPromptTokens),
+        dailyCompletionTokens: readNumber(limitInputs.dailyCompletionTokens),
+      },
+      downloads: {
+        maxModelMb: readGbAsMb(maxModelGbInput),
+        minFreeDiskMb: readGbAsMb(minFreeDiskGbInput),
+      },
+      captureTraffic: captureTrafficInput.checked,
+    });
+    if (!res.ok || !res.settings) {
+      statusEl.style.color = 'var(--md-danger)';
+      statusEl.textContent = `Failed to save: ${res.error || 'unknown error'}`;
       return;
     }
+    uiLog.info('Settings saved', res.settings);
+    applySettings(res.settings);
+    statusEl.style.color = 'var(--md-text-muted)';
+    statusEl.textContent = 'Saved';
+  };
 
-    models.forEach((m) => {
-      const row = document.createElement('div');
-      row.style.padding = '8px 10px';
-      row.style.marginBottom = '4px';
-      row.style.borderRadius = '8px';
-      row.style.cursor = 'pointer';
-      row.style.display = 'flex';
-      row.style.flexDirection = 'column';
-      row.style.gap = '4px';
-      row.style.transition = 'all var(--md-transition-fast)';
-      row.dataset.id = m.id;
+  void (async () => {
+    if (!window.settings?.get) return;
+    const res = await window.settings.get();
+    if (res.ok) {
+      applySettings(res.settings);
+    } else {
+      statusEl.style.color = 'var(--md-danger)';
+      statusEl.textContent = `Failed to load settings: ${(res as { ok: false; error: string }).error}`;
+    }
+  })();
+}
 
-      const name = document.createElement('div');
-      name.textContent = m.displayName || m.id;
-      name.style.fontSize = '12px';
-      name.style.fontWeight = '500';
-      name.style.color = 'var(--md-text)';
+/**
+ * Build the Traffic Inspector UI: captures recorded with Settings > Record
+ * protocol traffic, their requests as timelines, and replay of a connection.
+ */
+function buildTrafficInspectorUI() {
+  const root = document.body;
+  root.innerHTML = '';
 
-      const meta = document.createElement('div');
-      meta.style.fontSize = '10px';
-      meta.style.color = 'var(--md-text-muted)';
-      meta.textContent = `${
-        m.installed ? 'installed' : 'not installed'
-      }${activeModelId === m.id ? ' • active' : ''}`;
+  const container = document.createElement('div');
+  container.className = 'md-root md-stack';
 
-      row.appendChild(name);
-      row.appendChild(meta);
+  const header = document.createElement('header');
+  header.className = 'md-topbar md-stack-section';
+  header.style.justifyContent = 'space-between';
 
-      // Highlight active model with distinct styling
-      const isActive = activeModelId === m.id;
-      const isSelected = m.id === currentSelectedId;
-      
-      if (isActive && isSelected) {
-        // Active AND selected - show both highlights
-        row.style.background = 'linear-gradient(135deg, var(--md-accent-soft), rgba(168, 85, 247, 0.14))';
-        row.style.border = '2px solid var(--md-accent)';
-        row.style.boxShadow = '0 0 12px rgba(56, 189, 248, 0.3)';
-      } else if (isActive) {
-        // Active but not selected - subtler green/blue glow
-        row.style.background = 'linear-gradient(135deg, rgba(56, 189, 248, 0.12), rgba(34, 197, 94, 0.08))';
-        row.style.border = '1px solid rgba(56, 189, 248, 0.5)';
-        row.style.boxShadow = '0 0 8px rgba(56, 189, 248, 0.2)';
-      } else if (isSelected) {
-        // Selected but not active
-        row.style.background = 'var(--md-accent-soft)';
-        row.style.border = '1px solid var(--md-accent)';
-      } else {
-        row.style.background = 'rgba(15, 23, 42, 0.6)';
-        row.style.border = '1px solid var(--md-border-subtle)';
-      }
+  const headerLeft = document.createElement('div');
+  headerLeft.className = 'md-topbar-left';
 
-      row.onmouseenter = () => {
-        const isActive = activeModelId === m.id;
-        const isSelected = m.id === currentSelectedId;
-        
-        if (!isSelected && !isActive) {
-          row.style.background = 'rgba(15, 23, 42, 0.9)';
-          row.style.borderColor = 'var(--md-border-strong)';
-        }
-      };
+  const title = document.createElement('div');
+  title.className = 'md-app-title';
+  title.textContent = 'Traffic Inspector';
 
-      row.onmouseleave = () => {
-        const isActive = activeModelId === m.id;
-        const isSelected = m.id === currentSelectedId;
-        
-        if (isActive && isSelected) {
-          row.style.background = 'linear-gradient(135deg, var(--md-accent-soft), rgba(168, 85, 247, 0.14))';
-          row.style.border = '2px solid var(--md-accent)';
-          row.style.boxShadow = '0 0 12px rgba(56, 189, 248, 0.3)';
-        } else if (isActive) {
-          row.style.background = 'linear-gradient(135deg, rgba(56, 189, 248, 0.12), rgba(34, 197, 94, 0.08))';
-          row.style.border = '1px solid rgba(56, 189, 248, 0.5)';
-          row.style.boxShadow = '0 0 8px rgba(56, 189, 248, 0.2)';
-        } else if (isSelected) {
-          row.style.background = 'var(--md-accent-soft)';
-          row.style.border = '1px solid var(--md-accent)';
-        } else {
-          row.style.background = 'rgba(15, 23, 42, 0.6)';
-          row.style.borderColor = 'var(--md-border-subtle)';
-        }
-      };
+  const subtitle = document.createElement('div');
+  subtitle.className = 'md-app-subtitle';
+  subtitle.textContent = 'Recorded messages with phones, grouped by request';
 
-      row.onclick = () => {
-        currentSelectedId = m.id;
-        renderDetails(m, activeModelId);
-        refreshList();
-      };
+  headerLeft.appendChild(title);
+  headerLeft.appendChild(subtitle);
 
-      modelListEl.appendChild(row);
-    });
+  const headerRight = document.createElement('div');
+  headerRight.className = 'md-topbar-right';
+
+  // Replays stop when leaving the screen.
+  let replayController: AbortController | null = null;
+
+  const backBtn = document.createElement('button');
+  backBtn.textContent = 'Back to Main';
+  backBtn.className = 'md-btn md-btn-ghost';
+  backBtn.onclick = () => {
+    replayController?.abort();
+    renderMainP2PUI();
   };
 
-  const renderDetails = (
-    model: {
-      id: string;
-      displayName: string;
-      installed: boolean;
-      currentParams: {
-        temperature: number;
-        topP: number;
-        topK: number;
-        maxTokens: number;
-        contextWindow: number;
-        gpuLayers: number;
-      };
-    },
-    activeModelId: string | null,
-  ) => {
-    detailsBody.innerHTML = '';
+  headerRight.appendChild(backBtn);
+  header.appendChild(headerLeft);
+  header.appendChild(headerRight);
 
-    const titleEl = document.createElement('div');
-    titleEl.textContent = model.displayName || model.id;
-    titleEl.style.fontSize = '13px';
-    titleEl.style.fontWeight = '600';
-    titleEl.style.marginBottom = '6px';
-    titleEl.style.color = 'var(--md-text)';
+  const layout = document.createElement('div');
+  layout.className = 'md-stack-section';
+  layout.style.display = 'grid';
+  layout.style.gridTemplateColumns = '260px 1fr';
+  layout.style.gap = '14px';
+  layout.style.flex = '1 1 auto';
+  layout.style.minHeight = '0';
 
-    const statusEl = document.createElement('div');
-    statusEl.style.fontSize = '11px';
-    statusEl.style.marginBottom = '8px';
-    statusEl.style.color = 'var(--md-text-muted)';
-    statusEl.textContent = `${
-      model.installed ? 'Installed' : 'Not installed'
-    }${activeModelId === model.id ? ' • Active model' : ''}`;
+  // Left: capture files
+  const leftPanel = document.createElement('section');
+  leftPanel.className = 'md-card';
+  leftPanel.style.display = 'flex';
+  leftPanel.style.flexDirection = 'column';
+  leftPanel.style.gap = '8px';
+  leftPanel.style.overflowY = 'auto';
 
-    const paramsForm = document.createElement('div');
-    paramsForm.style.display = 'grid';
-    paramsForm.style.gridTemplateColumns = 'repeat(3, minmax(0, 1fr))';
-    paramsForm.style.gap = '6px';
-    paramsForm.style.fontSize = '11px';
+  const leftTitle = document.createElement('div');
+  leftTitle.className = 'md-section-label';
+  leftTitle.textContent = 'Captures';
+  leftPanel.appendChild(leftTitle);
 
-    type ParamKey = keyof typeof model.currentParams;
-    const paramLabels: Record<ParamKey, string> = {
-      temperature: 'Temp',
-      topP: 'top_p',
-      topK: 'top_k',
-      maxTokens: 'Max tokens',
-      contextWindow: 'Ctx window',
-      gpuLayers: 'GPU layers',
-    };
+  const captureListEl = document.createElement('div');
+  captureListEl.style.display = 'flex';
+  captureListEl.style.flexDirection = 'column';
+  captureListEl.style.gap = '4px';
+  leftPanel.appendChild(captureListEl);
 
-    const inputs: Partial<Record<ParamKey, HTMLInputElement>> = {};
+  // Right: connections and request timelines of the selected capture
+  const rightPanel = document.createElement('section');
+  rightPanel.className = 'md-card';
+  rightPanel.style.display = 'flex';
+  rightPanel.style.flexDirection = 'column';
+  rightPanel.style.gap = '8px';
+  rightPanel.style.flex = '1';
+  rightPanel.style.minHeight = '0';
+  rightPanel.style.overflowY = 'auto';
 
-    (Object.keys(model.currentParams) as ParamKey[]).forEach((key) => {
-      const wrap = document.createElement('label');
-      wrap.style.display = 'flex';
-      wrap.style.flexDirection = 'column';
-      wrap.style.gap = '1px';
+  const detailsBody = document.createElement('div');
+  detailsBody.style.display = 'flex';
+  detailsBody.style.flexDirection = 'column';
+  detailsBody.style.gap = '8px';
+  rightPanel.appendChild(detailsBody);
 
-      const lab = document.createElement('div');
-      lab.textContent = paramLabels[key];
-      lab.style.color = 'var(--md-text-muted)';
-      lab.style.fontSize = '10px';
+  layout.appendChild(leftPanel);
+  layout.appendChild(rightPanel);
 
-      const input = document.createElement('input');
-      input.type = 'number';
-      input.value = String(model.currentParams[key]);
-      input.style.fontSize = '11px';
-      input.style.padding = '5px 7px';
-      input.style.borderRadius = '5px';
-      input.style.border = '1px solid var(--md-border-subtle)';
-      input.style.background = 'rgba(2, 6, 23, 0.8)';
-      input.style.color = 'var(--md-text)';
+  container.appendChild(header);
+  container.appendChild(layout);
 
-      inputs[key] = input;
+  root.appendChild(container);
 
-      wrap.appendChild(lab);
-      wrap.appendChild(input);
-      paramsForm.appendChild(wrap);
-    });
+  let currentCapture: string | null = null;
 
-    const actionsRow = document.createElement('div');
-    actionsRow.style.marginTop = '4px';
-    actionsRow.style.display = 'flex';
-    actionsRow.style.gap = '6px';
+  const formatMs = (ms: number | null) => {
+    if (ms === null) return '—';
+    return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`;
+  };
+  const formatBytes = (bytes: number) =>
+    bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  const outcomeColor: Record<RequestTimeline['outcome'], string> = {
+    end: 'var(--md-text-muted)',
+    error: 'var(--md-danger)',
+    cancelled: 'var(--md-text-muted)',
+    open: 'var(--md-danger)',
+  };
 
-    const saveBtn = document.createElement('button');
-    saveBtn.textContent = 'Save Params';
-    saveBtn.className = 'md-btn md-btn-ghost';
-    saveBtn.style.fontSize = '11px';
+  const makeLabel = (text: string) => {
+    const label = document.createElement('div');
+    label.className = 'md-section-label';
+    label.style.marginTop = '4px';
+    label.textContent = text;
+    return label;
+  };
 
-    saveBtn.onclick = async () => {
-      if (!window.modelManager?.updateParams) return;
-      const params: any = {};
-      (Object.keys(inputs) as ParamKey[]).forEach((k) => {
-        const v = inputs[k]?.value;
-        if (v !== undefined) {
-          const num = Number(v);
-          if (!Number.isNaN(num)) params[k] = num;
-        }
-      });
-      const res = await window.modelManager.updateParams(model.id, params);
-      if (!res.ok) {
-        detailsBody.appendChild(
-          document.createTextNode(
-            ` Failed to update params: ${res.error || 'unknown error'}`,
-          ),
-        );
-      } else {
-        uiLog.info('Updated model params', { id: model.id });
-        refreshList();
+  const makeNote = (text: string, color = 'var(--md-text-muted)') => {
+    const note = document.createElement('div');
+    note.textContent = text;
+    note.style.fontSize = '12px';
+    note.style.color = color;
+    return note;
+  };
+
+  const renderFrames = (timeline: RequestTimeline) => {
+    const list = document.createElement('div');
+    list.style.fontSize = '10px';
+    list.style.fontFamily = 'var(--md-font-mono)';
+    list.style.color = 'var(--md-text-muted)';
+    list.style.padding = '4px 0 4px 12px';
+    list.style.whiteSpace = 'pre-wrap';
+    list.style.wordBreak = 'break-all';
+    const gapEnds = timeline.gaps.map((gap) => gap.atMs);
+    timeline.frames.forEach(({ offsetMs, dir, frame }) => {
+      const line = document.createElement('div');
+      const text = JSON.stringify(frame);
+      line.textContent = `+${formatMs(offsetMs)} ${dir === 'in' ? '→' : '←'} ${
+        text.length > 200 ? `${text.slice(0, 200)}…` : text
+      }`;
+      if (gapEnds.indexOf(offsetMs) !== -1) {
+        line.style.color = 'var(--md-danger)';
       }
-    };
+      list.appendChild(line);
+    });
+    return list;
+  };
 
-    const setActiveBtn = document.createElement('button');
-    setActiveBtn.textContent =
-      activeModelId === model.id ? 'Active' : 'Set Active';
-    setActiveBtn.disabled = activeModelId === model.id || !model.installed;
-    setActiveBtn.className = activeModelId === model.id ? 'md-btn md-btn-ghost' : 'md-btn';
-    setActiveBtn.style.fontSize = '11px';
-    if (setActiveBtn.disabled) {
-      setActiveBtn.style.opacity = '0.5';
-      setActiveBtn.style.cursor = 'default';
+  const renderTimelines = (target: HTMLElement, timelines: RequestTimeline[]) => {
+    if (!timelines.length) {
+      target.appendChild(makeNote('No requests.'));
+      return;
     }
+    timelines.forEach((timeline) => {
+      const row = document.createElement('div');
+      row.style.padding = '6px 10px';
+      row.style.borderRadius = '8px';
+      row.style.border = '1px solid var(--md-border-subtle)';
+      row.style.background = 'rgba(15, 23, 42, 0.6)';
+      row.style.cursor = 'pointer';
 
-    setActiveBtn.onclick = async () => {
-      if (!window.modelManager?.setActive) return;
-      if (setActiveBtn.disabled) return;
-      
-      uiLog.info('Setting active model', { id: model.id });
-      const res = await window.modelManager.setActive(model.id);
-      if (!res.ok) {
-        const errorMsg = document.createElement('div');
-        errorMsg.style.color = '#b91c1c';
-        errorMsg.style.fontSize = '12px';
-        errorMsg.style.marginTop = '4px';
-        errorMsg.textContent = `Failed to set active: ${res.error || 'unknown error'}`;
-        detailsBody.appendChild(errorMsg);
-      } else {
-        uiLog.info('Active model changed', { id: model.id });
-        // Refresh the list to show updated active state
-        await refreshList();
-        // Re-render details for the now-active model
-        const { models, activeModelId } = await window.modelManager.list();
-        const updatedModel = models.find((m) => m.id === model.id);
-        if (updatedModel) {
-          renderDetails(updatedModel, activeModelId);
+      const summary = document.createElement('div');
+      summary.style.fontSize = '11px';
+      summary.style.color = 'var(--md-text)';
+      const ended =
+        timeline.outcome === 'error'
+          ? `error${timeline.errorCode ? ` ${timeline.errorCode}` : ''}`
+          : timeline.outcome === 'open'
+            ? 'no final frame'
+            : timeline.outcome + (timeline.finishReason ? ` (${timeline.finishReason})` : '');
+      summary.textContent = `${timeline.requestType} ${timeline.id.slice(0, 8)} • ${
+        timeline.deviceId || timeline.clientId
+      } • ${new Date(timeline.startedAt).toLocaleTimeString()}`;
+
+      const meta = document.createElement('div');
+      meta.style.fontSize = '10px';
+      meta.style.color = outcomeColor[timeline.outcome];
+      meta.textContent = `${ended} • first token ${formatMs(timeline.firstTokenMs)} • ${
+        timeline.tokens
+      } tokens • ${formatMs(timeline.durationMs)} total • longest gap ${formatMs(
+        timeline.maxGapMs,
+      )}${timeline.gaps.length ? ` • ${timeline.gaps.length} stalls` : ''}`;
+      if (timeline.gaps.length) meta.style.color = 'var(--md-danger)';
+      if (timeline.errorMessage) meta.title = timeline.errorMessage;
+
+      row.appendChild(summary);
+      row.appendChild(meta);
+
+      let frames: HTMLElement | null = null;
+      row.onclick = () => {
+        if (frames) {
+          frames.remove();
+          frames = null;
+        } else {
+          frames = renderFrames(timeline);
+          row.appendChild(frames);
         }
-      }
+      };
+      target.appendChild(row);
+    });
+  };
+
+  const startReplay = (entries: CaptureEntry[], peer: string, target: HTMLElement) => {
+    if (!replayCapture) {
+      target.appendChild(makeNote('Replay needs a running connection to the room.', 'var(--md-danger)'));
+      return;
+    }
+    replayController?.abort();
+    const controller = new AbortController();
+    replayController = controller;
+
+    target.innerHTML = '';
+    target.appendChild(makeLabel('Replay'));
+    const status = makeNote('Replaying…');
+    const stopBtn = document.createElement('button');
+    stopBtn.textContent = 'Stop';
+    stopBtn.className = 'md-btn md-btn-ghost';
+    stopBtn.style.fontSize = '11px';
+    stopBtn.style.alignSelf = 'flex-start';
+    stopBtn.onclick = () => controller.abort();
+    const results = document.createElement('div');
+    results.style.display = 'flex';
+    results.style.flexDirection = 'column';
+    results.style.gap = '4px';
+    target.appendChild(status);
+    target.appendChild(stopBtn);
+    target.appendChild(results);
+
+    const replayEntries: CaptureEntry[] = [];
+    let renderTimer: ReturnType<typeof setTimeout> | null = null;
+    const render = () => {
+      renderTimer = null;
+      results.innerHTML = '';
+      renderTimelines(results, buildRequestTimelines(replayEntries));
     };
 
-    const deleteBtn = document.createElement('button');
-    deleteBtn.textContent = 'Delete Model';
-    deleteBtn.className = 'md-btn md-btn-ghost';
-    deleteBtn.style.fontSize = '11px';
-    deleteBtn.style.color = 'var(--md-danger)';
-    deleteBtn.disabled = activeModelId === model.id || !model.installed;
-    if (deleteBtn.disabled) {
-      deleteBtn.style.opacity = '0.5';
-      deleteBtn.style.cursor = 'default';
+    replayCapture(
+      entries,
+      peer,
+      (entry) => {
+        replayEntries.push(entry);
+        if (!renderTimer) renderTimer = setTimeout(render, 500);
+      },
+      controller.signal,
+    )
+      .then((result) => {
+        const skipped = Object.keys(result.skipped)
+          .map((t) => `${t} ×${result.skipped[t]}`)
+          .join(', ');
+        status.textContent = `${controller.signal.aborted ? 'Stopped' : 'Finished'} after ${
+          result.replayed
+        } frames${skipped ? `; not replayed: ${skipped}` : ''}`;
+      })
+      .catch((err) => {
+        status.style.color = 'var(--md-danger)';
+        status.textContent = `Replay failed: ${(err as Error)?.message || String(err)}`;
+      })
+      .finally(() => {
+        stopBtn.remove();
+        if (renderTimer) clearTimeout(renderTimer);
+        render();
+        if (replayController === controller) replayController = null;
+      });
+  };
+
+  const showCapture = async (name: string) => {
+    detailsBody.innerHTML = '';
+    if (!window.captures?.read) return;
+    const res = await window.captures.read(name);
+    if (currentCapture !== name) return;
+    if (!res.ok) {
+      detailsBody.appendChild(
+        makeNote(`Failed to read capture: ${(res as { ok: false; error: string }).error}`, 'var(--md-danger)'),
+      );
+      return;
     }
 
-    deleteBtn.onclick = async () => {
-      if (!window.modelManager?.deleteModel) return;
-      if (deleteBtn.disabled) return;
+    const { entries, invalidLines } = parseCapture(res.text);
+    const timelines = buildRequestTimelines(entries);
+    const openCount = timelines.filter((t) => t.outcome === 'open').length;
+    detailsBody.appendChild(
+      makeNote(
+        `${entries.length} frames • ${timelines.length} requests${
+          openCount ? ` • ${openCount} without a final frame` : ''
+        }${invalidLines ? ` • ${invalidLines} unreadable lines` : ''}`,
+      ),
+    );
 
-      // Confirm deletion
-      const confirmed = confirm(
-        `Are you sure you want to delete "${model.displayName || model.id}"?\n\nThis will permanently remove the model file from your system.`
+    const replayBody = document.createElement('div');
+    replayBody.style.display = 'flex';
+    replayBody.style.flexDirection = 'column';
+    replayBody.style.gap = '4px';
+
+    detailsBody.appendChild(makeLabel('Connections'));
+    capturedConnections(entries).forEach((connection) => {
+      const row = document.createElement('div');
+      row.style.display = 'flex';
+      row.style.alignItems = 'center';
+      row.style.gap = '8px';
+      row.style.fontSize = '11px';
+      row.style.color = 'var(--md-text)';
+
+      const label = document.createElement('div');
+      label.style.flex = '1';
+      label.textContent = `${connection.deviceId || connection.clientId} • ${new Date(
+        connection.startedAt,
+      ).toLocaleString()} • ${formatMs(connection.endedAt - connection.startedAt)} • ${
+        connection.inbound
+      } in / ${connection.outbound} out`;
+
+      const replayBtn = document.createElement('button');
+      replayBtn.textContent = 'Replay';
+      replayBtn.className = 'md-btn';
+      replayBtn.style.fontSize = '11px';
+      replayBtn.title = "Send this connection's messages to the local model again";
+      replayBtn.onclick = () => startReplay(entries, connection.peer, replayBody);
+
+      row.appendChild(label);
+      row.appendChild(replayBtn);
+      detailsBody.appendChild(row);
+    });
+
+    detailsBody.appendChild(replayBody);
+    detailsBody.appendChild(makeLabel('Requests'));
+    renderTimelines(detailsBody, timelines);
+  };
+
+  const refreshList = async () => {
+    if (!window.captures?.list) return;
+    const res = await window.captures.list();
+    captureListEl.innerHTML = '';
+
+    const captures = res.ok ? res.captures : [];
+    if (!captures.length) {
+      const empty = makeNote(
+        res.ok
+          ? 'No captures yet. Turn on "Record protocol traffic" in Settings.'
+          : `Failed to load captures: ${(res as { ok: false; error: string }).error}`,
       );
-      
-      if (!confirmed) return;
+      captureListEl.appendChild(empty);
+    }
 
-      uiLog.info('Deleting model', { id: model.id });
-      const res = await window.modelManager.deleteModel(model.id);
-      
-      if (!res.ok) {
-        const errorMsg = document.createElement('div');
-        errorMsg.style.color = '#b91c1c';
-        errorMsg.style.fontSize = '12px';
-        errorMsg.style.marginTop = '4px';
-        errorMsg.textContent = `Failed to delete: ${res.error || 'unknown error'}`;
-        detailsBody.appendChild(errorMsg);
-      } else {
-        uiLog.info('Model deleted successfully', { id: model.id });
-        // Clear details and refresh list
-        currentSelectedId = null;
-        detailsBody.innerHTML = '';
-        detailsBody.textContent = 'Select a model from the left to view and edit its parameters.';
-        detailsBody.style.fontSize = '12px';
-        detailsBody.style.color = 'var(--md-text-muted)';
-        await refreshList();
-      }
-    };
+    captures.forEach((capture) => {
+      const row = document.createElement('div');
+      row.style.padding = '8px 10px';
+      row.style.borderRadius = '8px';
+      row.style.cursor = 'pointer';
+      row.style.display = 'flex';
+      row.style.alignItems = 'center';
+      row.style.gap = '6px';
 
-    actionsRow.appendChild(saveBtn);
-    actionsRow.appendChild(setActiveBtn);
-    actionsRow.appendChild(deleteBtn);
+      const isSelected = capture.name === currentCapture;
+      row.style.background = isSelected ? 'var(--md-accent-soft)' : 'rgba(15, 23, 42, 0.6)';
+      row.style.border = isSelected
+        ? '1px solid var(--md-accent)'
+        : '1px solid var(--md-border-subtle)';
 
-    detailsBody.appendChild(titleEl);
-    detailsBody.appendChild(statusEl);
-    detailsBody.appendChild(paramsForm);
-    detailsBody.appendChild(actionsRow);
+      const text = document.createElement('div');
+      text.style.flex = '1';
+      const name = document.createElement('div');
+      name.textContent = new Date(capture.modifiedAt).toLocaleString();
+      name.style.fontSize = '12px';
+      name.style.color = 'var(--md-text)';
+      const meta = document.createElement('div');
+      meta.textContent = `${capture.name} • ${formatBytes(capture.bytes)}`;
+      meta.style.fontSize = '10px';
+      meta.style.color = 'var(--md-text-muted)';
+      text.appendChild(name);
+      text.appendChild(meta);
+
+      const deleteBtn = document.createElement('button');
+      deleteBtn.textContent = 'Delete';
+      deleteBtn.className = 'md-btn md-btn-ghost';
+      deleteBtn.style.fontSize = '10px';
+      deleteBtn.onclick = async (event) => {
+        event.stopPropagation();
+        if (!window.captures?.delete) return;
+        const result = await window.captures.delete(capture.name);
+        if (!result.ok) {
+          uiLog.error('Failed to delete capture', undefined, { name: capture.name, error: result.error });
+          return;
+        }
+        if (currentCapture === capture.name) {
+          currentCapture = null;
+          detailsBody.innerHTML = '';
+        }
+        void refreshList();
+      };
+
+      row.appendChild(text);
+      row.appendChild(deleteBtn);
+      row.onclick = () => {
+        currentCapture = capture.name;
+        void refreshList();
+        void showCapture(capture.name);
+      };
+      captureListEl.appendChild(row);
+    });
+
+    if (!currentCapture) {
+      detailsBody.innerHTML = '';
+      detailsBody.appendChild(makeNote('Select a capture from the left to inspect it.'));
+    }
   };
 
   void refreshList();
@@ -1907,7 +5838,14 @@ function buildDownloadModelsUI() {
             return;
           }
 
-          const ggufFiles = Array.isArray(res.files) ? res.files : [];
+          const repoFiles = Array.isArray(res.files) ? res.files : [];
+          // Vision repos ship a projector (mmproj-*.gguf) next to the weights;
+          // it is not a model on its own, so download it with the chosen file.
+          const isMmproj = (f: { name: string }) => /mmproj/i.test(f.name);
+          const ggufFiles = repoFiles.filter((f) => !isMmproj(f));
+          const mmprojFiles = repoFiles.filter(isMmproj);
+          const mmprojFile =
+            mmprojFiles.find((f) => /f16/i.test(f.name)) || mmprojFiles[0];
 
           hfResults.innerHTML = '';
 
@@ -1917,7 +5855,9 @@ function buildDownloadModelsUI() {
             return;
           }
 
-          hfStatus.textContent = `Select a GGUF file from ${m.id} to download:`;
+          hfStatus.textContent = mmprojFile
+            ? `Select a GGUF file from ${m.id} to download (vision projector ${mmprojFile.name} is included):`
+            : `Select a GGUF file from ${m.id} to download:`;
           hfStatus.style.color = 'var(--md-text-muted)';
 
           // Back button to return to search results
@@ -1995,6 +5935,7 @@ function buildDownloadModelsUI() {
               const result = await window.modelManager!.downloadHf({
                 repoId: m.id,
                 fileName,
+                mmprojFileName: mmprojFile?.name,
               });
 
               if (!result.ok) {
@@ -2050,6 +5991,7 @@ function buildDownloadModelsUI() {
 
 // Cleanup P2PCF on window unload
 async function cleanupP2PCF(): Promise<void> {
+  disposeP2PCFListeners();
   if (p2pcf) {
     logRenderer('Destroying P2PCF instance');
     try {
@@ -2305,9 +6247,11 @@ window.addEventListener('DOMContentLoaded', async () => {
     logRenderer('Llama already installed; proceeding with main UI');
   }
 
-  // If installed, expose two separate controls in the top-right:
+  // If installed, expose separate controls in the top-right:
   // 1. "Models" - for managing/selecting installed models
   // 2. "Download Models" - for searching and downloading from HuggingFace
+  // 3. "Devices" - for managing trusted and blocked phones
+  // 4. "Settings" - for app-wide connection options
 
   const header = document.querySelector('.md-topbar-right');
   if (header) {
@@ -2330,6 +6274,36 @@ window.addEventListener('DOMContentLoaded', async () => {
     };
     downloadBtn.title = 'Download new models from Hugging Face';
     header.appendChild(downloadBtn);
+
+    const devicesBtn = document.createElement('button');
+    devicesBtn.textContent = 'Devices';
+    devicesBtn.className = 'md-btn';
+    devicesBtn.style.marginLeft = '8px';
+    devicesBtn.onclick = () => {
+      buildDeviceManagementUI();
+    };
+    devicesBtn.title = 'Manage trusted and blocked phones';
+    header.appendChild(devicesBtn);
+
+    const settingsBtn = document.createElement('button');
+    settingsBtn.textContent = 'Settings';
+    settingsBtn.className = 'md-btn';
+    settingsBtn.style.marginLeft = '8px';
+    settingsBtn.onclick = () => {
+      buildSettingsUI();
+    };
+    settingsBtn.title = 'Connection and security options';
+    header.appendChild(settingsBtn);
+
+    const trafficBtn = document.createElement('button');
+    trafficBtn.textContent = 'Traffic';
+    trafficBtn.className = 'md-btn';
+    trafficBtn.style.marginLeft = '8px';
+    trafficBtn.onclick = () => {
+      buildTrafficInspectorUI();
+    };
+    trafficBtn.title = 'Inspect and replay recorded protocol traffic';
+    header.appendChild(trafficBtn);
   }
 
   // Ensure llama-server is running so there is an active engine.
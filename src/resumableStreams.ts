@@ -0,0 +1,108 @@
+// src/resumableStreams.ts
+// Output buffering for prompts whose phone may reconnect (renderer side).
+//
+// Phones switching networks (Wi-Fi to LTE) drop the data channel mid-answer.
+// Instead of aborting, the desktop keeps generating into a ResumableStream for
+// RESUME_GRACE_MS; the phone reconnects as the same device and sends
+// "resume" with the number of frames it already has, then receives the missing
+// frames followed by the rest of the stream.
+//
+// Offsets count every frame sent for the prompt id except "queued", starting at
+// 0 with "start". Only the newest MAX_BUFFERED_FRAMES are kept.
+
+export const RESUME_GRACE_MS = 60 * 1000;
+const MAX_BUFFERED_FRAMES = 16384;
+
+export type StreamTarget<F> = (frame: F) => Promise<void>;
+
+export class ResumableStream<F> {
+  private readonly frames: F[] = [];
+  // Offset of frames[0]; grows as old frames are dropped.
+  private baseOffset = 0;
+  private target: StreamTarget<F> | null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private done = false;
+
+  constructor(target: StreamTarget<F>) {
+    this.target = target;
+  }
+
+  get attached(): boolean {
+    return this.target !== null;
+  }
+
+  get finished(): boolean {
+    return this.done;
+  }
+
+  /**
+   * Buffer a frame and send it to the phone, if one is attached.
+   */
+  emit(frame: F): Promise<void> {
+    this.frames.push(frame);
+    if (this.frames.length > MAX_BUFFERED_FRAMES) {
+      this.frames.shift();
+      this.baseOffset += 1;
+    }
+    return this.target ? this.target(frame) : Promise.resolve();
+  }
+
+  /**
+   * Send a frame that is not replayed on resume, e.g. "queued".
+   */
+  sendTransient(frame: F): Promise<void> {
+    return this.target ? this.target(frame) : Promise.resolve();
+  }
+
+  /**
+   * Mark the prompt as finished; no more frames follow.
+   */
+  finish(): void {
+    this.done = true;
+  }
+
+  /**
+   * Stop sending; frames are only buffered until attach().
+   */
+  detach(): void {
+    this.target = null;
+  }
+
+  canResumeFrom(offset: number): boolean {
+    return offset >= this.baseOffset && offset <= this.baseOffset + this.frames.length;
+  }
+
+  /**
+   * Replay frames from `offset` to `target` and keep streaming to it. Frames
+   * are handed over synchronously so none can overtake the replay. Cancels
+   * any pending expiry.
+   */
+  attach(target: StreamTarget<F>, offset: number): boolean {
+    if (!this.canResumeFrom(offset)) return false;
+    this.cancelExpiry();
+    this.target = target;
+    this.frames.slice(offset - this.baseOffset).forEach((frame) => {
+      void target(frame);
+    });
+    return true;
+  }
+
+  /**
+   * Run `onExpire` after `ms` unless attach() is called first. Replaces any
+   * earlier expiry.
+   */
+  expireAfter(ms: number, onExpire: () => void): void {
+    this.cancelExpiry();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      onExpire();
+    }, ms);
+  }
+
+  cancelExpiry(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,194 @@
+// src/settingsStore.ts
+// Main-process store of app-wide settings for MyDeviceAI-Desktop.
+//
+// Responsibilities:
+// - Persist user settings in SETTINGS_FILE, filling gaps with DEFAULT_SETTINGS.
+// - Validate partial updates coming from the renderer's Settings screen.
+// - Notify renderer windows of changes so running services pick them up.
+
+import { app, BrowserWindow } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const LOG_PREFIX = '[Settings]';
+
+function logInfo(message: string, extra?: Record<string, unknown>): void {
+  if (extra) {
+    // eslint-disable-next-line no-console
+    console.log(`${LOG_PREFIX} ${message}`, extra);
+  } else {
+    // eslint-disable-next-line no-console
+    console.log(`${LOG_PREFIX} ${message}`);
+  }
+}
+
+function logError(message: string, error?: unknown, extra?: Record<string, unknown>): void {
+  // eslint-disable-next-line no-console
+  console.error(`${LOG_PREFIX} ${message}`, {
+    error:
+      error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : error,
+    ...(extra || {}),
+  });
+}
+
+// Per-device limits; 0 means unlimited. Trusted devices may override any of
+// these individually (see KnownDevice.limits in src/deviceStore.ts).
+export type PeerLimits = {
+  requestsPerMinute: number;
+  maxConcurrentPerPeer: number;
+  dailyPromptTokens: number;
+  dailyCompletionTokens: number;
+};
+
+// Checked before the desktop offers a phone's download_model request for
+// approval; 0 turns a check off.
+export type DownloadLimits = {
+  // Largest download (model plus vision projector), in MiB.
+  maxModelMb: number;
+  // Free space that must remain on the models volume afterwards, in MiB.
+  minFreeDiskMb: number;
+};
+
+export type AppSettings = {
+  // Refuse peers that cannot encrypt protocol frames end to end (see src/e2e.ts).
+  requireEncryption: boolean;
+
+  // Prompts generated at once; the rest wait in the desktop scheduler. Also used
+  // as llama-server's --parallel slot count the next time it starts.
+  maxConcurrentPrompts: number;
+
+  // Default limits applied to every device.
+  limits: PeerLimits;
+
+  // Limits on model downloads requested by phones.
+  downloads: DownloadLimits;
+
+  // Record protocol frames to a capture file (see src/trafficCapture.ts).
+  captureTraffic: boolean;
+};
+
+export const MAX_CONCURRENT_PROMPTS_LIMIT = 16;
+
+const SETTINGS_FILE = path.join(app.getPath('userData'), 'settings.json');
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  requireEncryption: false,
+  maxConcurrentPrompts: 4,
+  limits: {
+    requestsPerMinute: 0,
+    maxConcurrentPerPeer: 0,
+    dailyPromptTokens: 0,
+    dailyCompletionTokens: 0,
+  },
+  downloads: {
+    maxModelMb: 16 * 1024,
+    minFreeDiskMb: 10 * 1024,
+  },
+  captureTraffic: false,
+};
+
+const MAX_LIMIT_VALUE = 1e9;
+
+function readJsonFile<T>(file: string): T | null {
+  try {
+    const raw = fs.readFileSync(file, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeJsonAtomic(file: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2), 'utf8');
+  fs.renameSync(tmp, file);
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/**
+ * Validate a limits patch against `base`. Used for settings and device overrides.
+ */
+export function normalizeLimits(
+  input: Partial<PeerLimits> | null | undefined,
+  base: PeerLimits,
+): PeerLimits {
+  const src = input || {};
+  const limit = (key: keyof PeerLimits) => clampInt(src[key], 0, MAX_LIMIT_VALUE, base[key]);
+  return {
+    requestsPerMinute: limit('requestsPerMinute'),
+    maxConcurrentPerPeer: limit('maxConcurrentPerPeer'),
+    dailyPromptTokens: limit('dailyPromptTokens'),
+    dailyCompletionTokens: limit('dailyCompletionTokens'),
+  };
+}
+
+function normalizeDownloadLimits(
+  input: Partial<DownloadLimits> | null | undefined,
+  base: DownloadLimits,
+): DownloadLimits {
+  const src = input || {};
+  return {
+    maxModelMb: clampInt(src.maxModelMb, 0, MAX_LIMIT_VALUE, base.maxModelMb),
+    minFreeDiskMb: clampInt(src.minFreeDiskMb, 0, MAX_LIMIT_VALUE, base.minFreeDiskMb),
+  };
+}
+
+/**
+ * Keep only known keys with valid values; anything else falls back to `base`.
+ */
+function normalizeSettings(input: Partial<AppSettings> | null, base: AppSettings): AppSettings {
+  const src = input || {};
+  return {
+    requireEncryption:
+      typeof src.requireEncryption === 'boolean'
+        ? src.requireEncryption
+        : base.requireEncryption,
+    maxConcurrentPrompts: clampInt(
+      src.maxConcurrentPrompts,
+      1,
+      MAX_CONCURRENT_PROMPTS_LIMIT,
+      base.maxConcurrentPrompts,
+    ),
+    limits: normalizeLimits(src.limits, base.limits),
+    downloads: normalizeDownloadLimits(src.downloads, base.downloads),
+    captureTraffic:
+      typeof src.captureTraffic === 'boolean' ? src.captureTraffic : base.captureTraffic,
+  };
+}
+
+let cachedSettings: AppSettings | null = null;
+
+export function getSettings(): AppSettings {
+  if (!cachedSettings) {
+    cachedSettings = normalizeSettings(
+      readJsonFile<Partial<AppSettings>>(SETTINGS_FILE),
+      DEFAULT_SETTINGS,
+    );
+  }
+  return cachedSettings;
+}
+
+export function updateSettings(
+  patch: Partial<AppSettings>,
+): { ok: boolean; settings?: AppSettings; error?: string } {
+  try {
+    const next = normalizeSettings(patch, getSettings());
+    writeJsonAtomic(SETTINGS_FILE, next);
+    cachedSettings = next;
+    logInfo('Settings updated', next);
+    BrowserWindow.getAllWindows().forEach((window) => {
+      window.webContents.send('settings-changed', next);
+    });
+    return { ok: true, settings: next };
+  } catch (err: any) {
+    logError('updateSettings failed', err);
+    return { ok: false, error: err?.message || String(err) };
+  }
+}
@@ -0,0 +1,261 @@
+// src/structuredOutput.ts
+// Constrained output for prompts: response_format and GBNF grammars (renderer side).
+//
+// A prompt may carry an OpenAI-style "response_format" or a raw GBNF "grammar";
+// both are forwarded to llama-server, which turns them into a sampling grammar.
+// Grammars keep small models on valid syntax but not always on the schema (a
+// reply cut off by max_tokens is not even valid JSON), so JSON replies are
+// checked again here before "end" and failures are reported as "error" frames
+// with code "schema_violation" and the list of violations.
+//
+// The schema check covers the keywords structured extraction relies on: type,
+// enum, const, properties, required, additionalProperties, items, min/maxItems,
+// min/maxLength, minimum/maximum (and the exclusive forms), allOf, anyOf and
+// oneOf. Other keywords, including $ref, are not checked. "pattern" is left to
+// the grammar: running a phone-supplied regex here could stall the renderer.
+
+export type ResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; schema: JsonSchema; strict?: boolean } };
+
+export type JsonSchema = boolean | { [keyword: string]: any };
+
+export type SchemaViolation = {
+  // Location in the reply, e.g. "$.tasks[0].due".
+  path: string;
+  message: string;
+};
+
+export type StructuredOutputCheck = { ok: true } | { ok: false; violations: SchemaViolation[] };
+
+const MAX_SCHEMA_CHARS = 32 * 1024;
+const MAX_GRAMMAR_CHARS = 32 * 1024;
+const MAX_VIOLATIONS = 16;
+const MAX_SCHEMA_NAME_LENGTH = 64;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Not `in`, which also sees inherited keys such as "constructor".
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+/**
+ * Validate "response_format". Accepts OpenAI's
+ * { type: "json_schema", json_schema: { name?, schema, strict? } } and
+ * { type: "json_object" }, plus llama-server's { type: "json_object", schema }.
+ */
+export function normalizeResponseFormat(
+  raw: unknown,
+): { responseFormat: ResponseFormat | null } | { error: string } {
+  if (raw === undefined || raw === null) return { responseFormat: null };
+  if (!isPlainObject(raw)) {
+    return { error: 'response_format must be an object' };
+  }
+
+  let schema: unknown;
+  let name = 'response';
+  let strict: boolean | undefined;
+  if (raw.type === 'json_object') {
+    if (raw.schema === undefined) return { responseFormat: { type: 'json_object' } };
+    schema = raw.schema;
+  } else if (raw.type === 'json_schema') {
+    const spec = raw.json_schema;
+    if (!isPlainObject(spec)) {
+      return { error: 'response_format.json_schema must be an object with a schema' };
+    }
+    schema = spec.schema;
+    if (typeof spec.name === 'string' && spec.name.trim()) {
+      name = spec.name.trim().slice(0, MAX_SCHEMA_NAME_LENGTH);
+    }
+    if (typeof spec.strict === 'boolean') strict = spec.strict;
+  } else {
+    return { error: 'response_format.type must be "json_object" or "json_schema"' };
+  }
+
+  if (!isPlainObject(schema) && typeof schema !== 'boolean') {
+    return { error: 'response_format schema must be a JSON schema object' };
+  }
+  if (JSON.stringify(schema).length > MAX_SCHEMA_CHARS) {
+    return { error: `response_format schema exceeds ${MAX_SCHEMA_CHARS} characters` };
+  }
+  return {
+    responseFormat: {
+      type: 'json_schema',
+      json_schema: { name, schema, ...(strict !== undefined ? { strict } : {}) },
+    },
+  };
+}
+
+export function normalizeGrammar(raw: unknown): { grammar: string | null } | { error: string } {
+  if (raw === undefined || raw === null) return { grammar: null };
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return { error: 'grammar must be a non-empty GBNF string' };
+  }
+  if (raw.length > MAX_GRAMMAR_CHARS) {
+    return { error: `grammar exceeds ${MAX_GRAMMAR_CHARS} characters` };
+  }
+  return { grammar: raw };
+}
+
+/**
+ * Check a finished reply against the prompt's response_format.
+ * `truncated` is set when max_tokens cut the reply short, for a clearer message.
+ */
+export function checkStructuredOutput(
+  text: string,
+  format: ResponseFormat,
+  truncated = false,
+): StructuredOutputCheck {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return {
+      ok: false,
+      violations: [
+        {
+          path: '$',
+          message: truncated
+            ? 'Output is not valid JSON; it was cut off by max_tokens'
+            : 'Output is not valid JSON',
+        },
+      ],
+    };
+  }
+
+  const violations: SchemaViolation[] =
+    format.type === 'json_schema' ? validateJsonSchema(value, format.json_schema.schema) : [];
+  return violations.length ? { ok: false, violations } : { ok: true };
+}
+
+/**
+ * Validate a parsed value against a JSON schema (see the header for the
+ * supported keywords). Returns at most MAX_VIOLATIONS violations.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateAt(value, schema, '$', violations);
+  return violations.slice(0, MAX_VIOLATIONS);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function validateAt(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  out: SchemaViolation[],
+): void {
+  if (out.length >= MAX_VIOLATIONS) return;
+  if (schema === false) {
+    out.push({ path, message: 'No value is allowed here' });
+    return;
+  }
+  if (!isPlainObject(schema)) return;
+  const fail = (message: string) => {
+    out.push({ path, message });
+  };
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      fail(`Expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((e: unknown) => sameJson(e, value))) {
+    fail(`Must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.const !== undefined && !sameJson(schema.const, value)) {
+    fail(`Must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      fail(`Must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      fail(`Must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail(`Must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail(`Must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      fail(`Must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      fail(`Must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail(`Must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail(`Must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => validateAt(item, schema.items, `${path}[${i}]`, out));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isPlainObject(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      schema.required.forEach((key: string) => {
+        if (!hasOwn(value, key)) {
+          out.push({ path: `${path}.${key}`, message: 'Required property is missing' });
+        }
+      });
+    }
+    Object.keys(value).forEach((key) => {
+      const childPath = `${path}.${key}`;
+      if (hasOwn(properties, key)) {
+        validateAt(value[key], properties[key], childPath, out);
+      } else if (schema.additionalProperties === false) {
+        out.push({ path: childPath, message: 'Property is not allowed' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        validateAt(value[key], schema.additionalProperties, childPath, out);
+      }
+    });
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    schema.allOf.forEach((sub: JsonSchema) => validateAt(value, sub, path, out));
+  }
+  const matchCount = (options: JsonSchema[]) =>
+    options.filter((sub) => validateJsonSchema(value, sub).length === 0).length;
+  if (Array.isArray(schema.anyOf) && matchCount(schema.anyOf) === 0) {
+    fail('Does not match any of the allowed schemas (anyOf)');
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matching = matchCount(schema.oneOf);
+    if (matching !== 1) {
+      fail(`Must match exactly one schema (oneOf), matched ${matching}`);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// src/textCompletion.ts
+// Raw text completion and fill-in-the-middle for "complete" (renderer side).
+//
+// "prompt" goes through /v1/chat/completions and the model's chat template.
+// "complete" sends text as-is instead: to llama-server's /completion, or to
+// /infill when a suffix is given so the model writes what goes between prompt
+// and suffix (this needs a model trained with FIM tokens, e.g. a coder model).
+// Both endpoints stream llama-server's native chunks, { "content", "stop" },
+// rather than OpenAI deltas; the last one carries stop_type, token counts and
+// timings.
+
+export const MAX_COMPLETION_CHARS = 256 * 1024;
+
+export type CompletionRequest = {
+  prompt: string;
+  // null for plain completion; a string (possibly empty) selects /infill.
+  suffix: string | null;
+};
+
+export type CompletionChunkStats = {
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  finishReason?: string;
+};
+
+/**
+ * Validate a "complete" message. The prompt may only be empty when a suffix
+ * is given (filling in at the start of a file).
+ */
+export function normalizeCompletionRequest(msg: any): CompletionRequest | { error: string } {
+  const prompt = msg?.prompt;
+  const suffix = msg?.suffix === undefined || msg?.suffix === null ? null : msg.suffix;
+  if (typeof prompt !== 'string') {
+    return { error: 'prompt must be a string' };
+  }
+  if (suffix !== null && typeof suffix !== 'string') {
+    return { error: 'suffix must be a string' };
+  }
+  if (!prompt && !suffix) {
+    return { error: 'prompt is empty' };
+  }
+  if (prompt.length + (suffix || '').length > MAX_COMPLETION_CHARS) {
+    return { error: `prompt and suffix are limited to ${MAX_COMPLETION_CHARS} characters` };
+  }
+  return { prompt, suffix };
+}
+
+export function completionEndpoint(request: CompletionRequest): '/completion' | '/infill' {
+  return request.suffix === null ? '/completion' : '/infill';
+}
+
+/**
+ * Build the /completion or /infill body. Sampling fields keep their
+ * llama-server names except max_tokens, which is n_predict here.
+ */
+export function completionRequestBody(
+  request: CompletionRequest,
+  sampling: { max_tokens: number; [field: string]: unknown },
+): Record<string, unknown> {
+  const { max_tokens: maxTokens, ...rest } = sampling;
+  return {
+    ...(request.suffix === null
+      ? { prompt: request.prompt }
+      : { input_prefix: request.prompt, input_suffix: request.suffix }),
+    ...rest,
+    n_predict: maxTokens,
+    // Follow-up completions of the same document reuse the cached prefix.
+    cache_prompt: true,
+    stream: true,
+  };
+}
+
+/**
+ * Token counts and finish reason from a native chunk; only the final chunk
+ * ("stop": true) has them. stop_type maps to the chat finish reasons.
+ */
+export function completionChunkStats(json: any): CompletionChunkStats {
+  if (json?.stop !== true) return {};
+  const stats: CompletionChunkStats = {};
+  if (typeof json.tokens_evaluated === 'number' || typeof json.tokens_predicted === 'number') {
+    stats.usage = {
+      prompt_tokens: json.tokens_evaluated,
+      completion_tokens: json.tokens_predicted,
+    };
+  }
+  if (json.stop_type === 'limit') {
+    stats.finishReason = 'length';
+  } else if (json.stop_type === 'eos' || json.stop_type === 'word') {
+    stats.finishReason = 'stop';
+  }
+  return stats;
+}
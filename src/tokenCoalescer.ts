@@ -0,0 +1,98 @@
+// src/tokenCoalescer.ts
+// Batches streamed "token" / "reasoning_token" text per prompt (renderer side).
+//
+// llama-server emits one SSE delta per token; relayed (TURN) phones pay for
+// every data channel message. A client may ask in "version_negotiate" for
+// output to be coalesced: buffered text is flushed every intervalMs, as soon as
+// it reaches maxChars, and always before "end" / "error" (callers flush).
+
+export type CoalesceWindow = {
+  intervalMs: number;
+  maxChars: number;
+};
+
+export type TokenFrameType = 'token' | 'reasoning_token';
+
+const MAX_COALESCE_INTERVAL_MS = 1000;
+const MAX_COALESCE_CHARS = 4096;
+const DEFAULT_COALESCE_CHARS = 256;
+
+/**
+ * Clamp a client's requested window. Returns null (send every token on its
+ * own) when the request is missing or asks for no delay.
+ */
+export function normalizeCoalesceWindow(raw: unknown): CoalesceWindow | null {
+  const src = (raw || {}) as { intervalMs?: unknown; maxChars?: unknown };
+  const intervalMs =
+    typeof src.intervalMs === 'number' && Number.isFinite(src.intervalMs)
+      ? Math.round(src.intervalMs)
+      : 0;
+  if (intervalMs <= 0) return null;
+
+  const maxChars =
+    typeof src.maxChars === 'number' && Number.isFinite(src.maxChars) && src.maxChars > 0
+      ? Math.round(src.maxChars)
+      : DEFAULT_COALESCE_CHARS;
+  return {
+    intervalMs: Math.min(intervalMs, MAX_COALESCE_INTERVAL_MS),
+    maxChars: Math.min(maxChars, MAX_COALESCE_CHARS),
+  };
+}
+
+export class TokenCoalescer {
+  private type: TokenFrameType | null = null;
+  private text = '';
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly window: CoalesceWindow,
+    private readonly send: (type: TokenFrameType, tok: string) => Promise<void>,
+  ) {}
+
+  /**
+   * Buffer text. Switching between content and reasoning flushes first so the
+   * client sees them in the order the model produced them.
+   */
+  async push(type: TokenFrameType, tok: string): Promise<void> {
+    if (!tok) return;
+    if (this.type !== null && this.type !== type) {
+      await this.flush();
+    }
+    this.type = type;
+    this.text += tok;
+
+    if (this.text.length >= this.window.maxChars) {
+      await this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.flush();
+      }, this.window.intervalMs);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const { type, text } = this;
+    this.type = null;
+    this.text = '';
+    if (type && text) {
+      await this.send(type, text);
+    }
+  }
+
+  /**
+   * Drop buffered text without sending it, e.g. when the peer has gone.
+   */
+  discard(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.type = null;
+    this.text = '';
+  }
+}
@@ -0,0 +1,69 @@
+// src/tokenization.ts
+// Token counting, tokenize and detokenize for phones (renderer side).
+//
+// Phones budget their history against the model's context window before
+// sending a prompt. The desktop answers with the active model's own tokenizer
+// through llama-server's /apply-template (chat template, for count_tokens),
+// /tokenize and /detokenize, so the counts match what a prompt will use.
+
+export const MAX_TOKENIZE_CHARS = 256 * 1024;
+export const MAX_DETOKENIZE_TOKENS = 32 * 1024;
+
+export type TokenizeRequest = {
+  content: string;
+  addSpecial: boolean;
+  withPieces: boolean;
+};
+
+export function normalizeTokenizeRequest(msg: any): TokenizeRequest | { error: string } {
+  if (typeof msg?.content !== 'string') {
+    return { error: 'content must be a string' };
+  }
+  if (msg.content.length > MAX_TOKENIZE_CHARS) {
+    return { error: `content is limited to ${MAX_TOKENIZE_CHARS} characters` };
+  }
+  return {
+    content: msg.content,
+    addSpecial: msg.add_special === true,
+    withPieces: msg.with_pieces === true,
+  };
+}
+
+export function normalizeTokenIds(raw: unknown): { tokens: number[] } | { error: string } {
+  if (!Array.isArray(raw)) {
+    return { error: 'tokens must be an array of token ids' };
+  }
+  if (raw.length > MAX_DETOKENIZE_TOKENS) {
+    return { error: `tokens is limited to ${MAX_DETOKENIZE_TOKENS} ids` };
+  }
+  if (!raw.every((t) => typeof t === 'number' && Number.isInteger(t) && t >= 0)) {
+    return { error: 'tokens must be non-negative integers' };
+  }
+  return { tokens: raw as number[] };
+}
+
+/**
+ * Read a /tokenize response. With with_pieces llama-server returns
+ * [{ id, piece }] instead of plain ids; pieces are only returned when asked for.
+ */
+export function parseTokenizeResponse(body: any): {
+  tokens: number[];
+  pieces?: Array<string | number[]>;
+} {
+  const raw = Array.isArray(body?.tokens) ? body.tokens : null;
+  if (!raw) {
+    throw new Error('Tokenizer returned no tokens');
+  }
+  if (raw.every((t: unknown) => typeof t === 'number')) {
+    return { tokens: raw };
+  }
+  if (raw.every((t: any) => typeof t?.id === 'number')) {
+    return {
+      tokens: raw.map((t: any) => t.id),
+      // Pieces that are not valid UTF-8 on their own (part of a multi-byte
+      // character) come back as byte arrays and are passed on as such.
+      pieces: raw.map((t: any) => (typeof t.piece === 'string' ? t.piece : t.piece || [])),
+    };
+  }
+  throw new Error('Tokenizer returned malformed tokens');
+}
@@ -0,0 +1,186 @@
+// src/toolCalling.ts
+// OpenAI-style tool calling over the P2P protocol (renderer side).
+//
+// - Validate the chat messages, "tools" and "tool_choice" a phone sends with a
+//   prompt before they are passed through to llama-server's chat endpoint.
+// - Turn streamed tool_calls deltas from llama-server into "tool_call" frames.
+//
+// Tools run on the phone: the model asks for a call, the phone runs it and
+// sends a follow-up prompt with a "tool" role message carrying the result.
+
+import { normalizeContentParts } from './attachments';
+import type { ContentPart } from './attachments';
+
+export const MAX_TOOLS = 64;
+const MAX_TOOL_NAME_LENGTH = 64;
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+export type ToolCall = {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+};
+
+export type ChatMessage =
+  | { role: string; content: string | ContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls: ToolCall[] }
+  | { role: 'tool'; content: string; tool_call_id: string };
+
+export type ToolDefinition = {
+  type: 'function';
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+};
+
+export type ToolChoice =
+  | 'auto'
+  | 'none'
+  | 'required'
+  | { type: 'function'; function: { name: string } };
+
+export type ToolCallDelta = {
+  index: number;
+  callId?: string;
+  name?: string;
+  arguments?: string;
+};
+
+function isToolName(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length > 0 &&
+    value.length <= MAX_TOOL_NAME_LENGTH &&
+    TOOL_NAME_PATTERN.test(value)
+  );
+}
+
+function normalizeToolCall(raw: any): ToolCall | null {
+  if (!raw || typeof raw.id !== 'string' || !isToolName(raw.function?.name)) {
+    return null;
+  }
+  const args = raw.function.arguments;
+  return {
+    id: raw.id,
+    type: 'function',
+    function: {
+      name: raw.function.name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+    },
+  };
+}
+
+/**
+ * Keep well-formed messages and drop the rest, as plain {role, content}
+ * filtering did before tools existed:
+ * - any role with string content, or an array of text / image_url parts
+ * - "assistant" with tool_calls (content may be null)
+ * - "tool" with string content and a tool_call_id
+ */
+export function normalizeChatMessages(raw: unknown[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  raw.forEach((m: any) => {
+    if (!m || typeof m.role !== 'string') return;
+
+    if (m.role === 'tool') {
+      if (typeof m.content === 'string' && typeof m.tool_call_id === 'string') {
+        messages.push({ role: 'tool', content: m.content, tool_call_id: m.tool_call_id });
+      }
+      return;
+    }
+
+    if (m.role === 'assistant' && Array.isArray(m.tool_calls) && m.tool_calls.length) {
+      const toolCalls = m.tool_calls.map(normalizeToolCall);
+      if (toolCalls.some((c: ToolCall | null) => !c)) return;
+      messages.push({
+        role: 'assistant',
+        content: typeof m.content === 'string' ? m.content : null,
+        tool_calls: toolCalls as ToolCall[],
+      });
+      return;
+    }
+
+    if (typeof m.content === 'string') {
+      messages.push({ role: m.role, content: m.content });
+    } else if (Array.isArray(m.content)) {
+      const parts = normalizeContentParts(m.content);
+      if (parts) messages.push({ role: m.role, content: parts });
+    }
+  });
+  return messages;
+}
+
+/**
+ * Validate a prompt's "tools" array. Returns null when absent, or an error
+ * message when present but malformed.
+ */
+export function normalizeTools(
+  raw: unknown,
+): { tools: ToolDefinition[] | null } | { error: string } {
+  if (raw === undefined || raw === null) return { tools: null };
+  if (!Array.isArray(raw)) return { error: 'tools must be an array' };
+  if (raw.length > MAX_TOOLS) return { error: `At most ${MAX_TOOLS} tools are allowed` };
+
+  const tools: ToolDefinition[] = [];
+  for (const t of raw as any[]) {
+    if (!t || t.type !== 'function' || !isToolName(t.function?.name)) {
+      return { error: 'Each tool must be { type: "function", function: { name, ... } }' };
+    }
+    const parameters = t.function.parameters;
+    if (parameters !== undefined && (typeof parameters !== 'object' || parameters === null)) {
+      return { error: `Tool ${t.function.name}: parameters must be a JSON schema object` };
+    }
+    tools.push({
+      type: 'function',
+      function: {
+        name: t.function.name,
+        ...(typeof t.function.description === 'string'
+          ? { description: t.function.description }
+          : {}),
+        ...(parameters ? { parameters } : {}),
+      },
+    });
+  }
+  return { tools: tools.length ? tools : null };
+}
+
+export function normalizeToolChoice(
+  raw: unknown,
+  tools: ToolDefinition[] | null,
+): { toolChoice: ToolChoice | undefined } | { error: string } {
+  if (raw === undefined || raw === null) return { toolChoice: undefined };
+  if (raw === 'auto' || raw === 'none' || raw === 'required') {
+    return { toolChoice: raw };
+  }
+  const name = (raw as any)?.function?.name;
+  if ((raw as any)?.type === 'function' && isToolName(name)) {
+    if (!tools?.some((t) => t.function.name === name)) {
+      return { error: `tool_choice names unknown tool ${name}` };
+    }
+    return { toolChoice: { type: 'function', function: { name } } };
+  }
+  return { error: 'tool_choice must be "auto", "none", "required" or a function reference' };
+}
+
+/**
+ * Extract tool call deltas from one llama-server chunk. Streaming chunks carry
+ * choices[0].delta.tool_calls; a non-streamed reply carries complete calls in
+ * choices[0].message.tool_calls.
+ */
+export function extractToolCallDeltas(json: any): ToolCallDelta[] {
+  const choice = json?.choices?.[0];
+  const calls = choice?.delta?.tool_calls ?? choice?.message?.tool_calls;
+  if (!Array.isArray(calls)) return [];
+
+  return calls.map((c: any, i: number) => {
+    const delta: ToolCallDelta = {
+      index: typeof c?.index === 'number' ? c.index : i,
+    };
+    if (typeof c?.id === 'string' && c.id) delta.callId = c.id;
+    if (typeof c?.function?.name === 'string' && c.function.name) {
+      delta.name = c.function.name;
+    }
+    if (typeof c?.function?.arguments === 'string' && c.function.arguments) {
+      delta.arguments = c.function.arguments;
+    }
+    return delta;
+  });
+}
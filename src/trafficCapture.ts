@@ -0,0 +1,152 @@
+// src/trafficCapture.ts
+// Main-process store of protocol traffic captures for MyDeviceAI-Desktop.
+//
+// Responsibilities:
+// - Append frames recorded by the renderer (see "Traffic capture" in
+//   src/renderer.ts) to one JSONL file per app run in CAPTURE_DIR. Recording
+//   is off unless enabled in Settings.
+// - List, read and delete captures for the Traffic Inspector screen.
+// - Bound disk use: a file stops growing at MAX_CAPTURE_BYTES and only the
+//   newest MAX_CAPTURE_FILES files are kept.
+//
+// Captures hold prompts and replies in plaintext (frames are recorded after
+// decryption), so they never leave this machine unless the user shares them.
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const LOG_PREFIX = '[TrafficCapture]';
+
+function logInfo(message: string, extra?: Record<string, unknown>): void {
+  if (extra) {
+    // eslint-disable-next-line no-console
+    console.log(`${LOG_PREFIX} ${message}`, extra);
+  } else {
+    // eslint-disable-next-line no-console
+    console.log(`${LOG_PREFIX} ${message}`);
+  }
+}
+
+function logError(message: string, error?: unknown, extra?: Record<string, unknown>): void {
+  // eslint-disable-next-line no-console
+  console.error(`${LOG_PREFIX} ${message}`, {
+    error:
+      error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : error,
+    ...(extra || {}),
+  });
+}
+
+export type CaptureFileInfo = {
+  name: string;
+  bytes: number;
+  modifiedAt: string;
+};
+
+const CAPTURE_DIR = path.join(app.getPath('userData'), 'captures');
+const MAX_CAPTURE_BYTES = 256 * 1024 * 1024;
+const MAX_CAPTURE_FILES = 20;
+const CAPTURE_NAME_RE = /^capture-[0-9T-]+\.jsonl$/;
+
+// File of the current app run, created with the first frame.
+let currentFile: string | null = null;
+let currentBytes = 0;
+let sizeLimitLogged = false;
+
+function newCaptureName(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const time = `${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`;
+  return `capture-${date}T${time}.jsonl`;
+}
+
+function capturePath(name: string): string {
+  if (!CAPTURE_NAME_RE.test(name)) {
+    throw new Error(`Invalid capture name: ${name}`);
+  }
+  return path.join(CAPTURE_DIR, name);
+}
+
+function pruneOldCaptures(): void {
+  listCaptures()
+    .slice(MAX_CAPTURE_FILES - 1)
+    .forEach((capture) => {
+      try {
+        fs.unlinkSync(capturePath(capture.name));
+        logInfo('Deleted old capture', { name: capture.name });
+      } catch (err) {
+        logError('Failed to delete old capture', err, { name: capture.name });
+      }
+    });
+}
+
+function ensureCurrentFile(): string {
+  if (!currentFile) {
+    fs.mkdirSync(CAPTURE_DIR, { recursive: true });
+    pruneOldCaptures();
+    currentFile = capturePath(newCaptureName());
+    currentBytes = fs.existsSync(currentFile) ? fs.statSync(currentFile).size : 0;
+    logInfo('Recording protocol traffic', { file: currentFile });
+  }
+  return currentFile;
+}
+
+/**
+ * Append recorded frames, one JSON object per line. Entries are written as
+ * given; their shape is owned by the renderer's recorder.
+ */
+export function appendCapture(entries: unknown[]): void {
+  if (!Array.isArray(entries) || !entries.length) return;
+  const file = ensureCurrentFile();
+  const text = entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+  const bytes = Buffer.byteLength(text, 'utf8');
+  if (currentBytes + bytes > MAX_CAPTURE_BYTES) {
+    if (!sizeLimitLogged) {
+      sizeLimitLogged = true;
+      logError('Capture reached its size limit; dropping further frames', undefined, {
+        file,
+        maxBytes: MAX_CAPTURE_BYTES,
+      });
+    }
+    return;
+  }
+  fs.appendFileSync(file, text, 'utf8');
+  currentBytes += bytes;
+}
+
+/**
+ * Captures on disk, newest first.
+ */
+export function listCaptures(): CaptureFileInfo[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(CAPTURE_DIR);
+  } catch {
+    return [];
+  }
+  return names
+    .filter((name) => CAPTURE_NAME_RE.test(name))
+    .map((name) => {
+      const stat = fs.statSync(path.join(CAPTURE_DIR, name));
+      return { name, bytes: stat.size, modifiedAt: stat.mtime.toISOString() };
+    })
+    .sort((a, b) => (a.name < b.name ? 1 : a.name > b.name ? -1 : 0));
+}
+
+export function readCapture(name: string): string {
+  return fs.readFileSync(capturePath(name), 'utf8');
+}
+
+export function deleteCapture(name: string): void {
+  const file = capturePath(name);
+  fs.unlinkSync(file);
+  if (file === currentFile) {
+    // The next frame starts a new file.
+    currentFile = null;
+    currentBytes = 0;
+    sizeLimitLogged = false;
+  }
+  logInfo('Deleted capture', { name });
+}
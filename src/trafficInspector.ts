@@ -0,0 +1,312 @@
+// src/trafficInspector.ts
+// Captured protocol traffic: entry format, per-request timelines and replay
+// plans (renderer side).
+//
+// The renderer records every frame it dispatches or sends as a CaptureEntry
+// while "Record protocol traffic" is on in Settings; src/trafficCapture.ts
+// appends them to a JSONL file. Inbound frames are recorded after decryption,
+// and pairing secrets are redacted. Binary attachment frames are not recorded.
+//
+// The Traffic Inspector screen groups a capture's frames by request id into
+// RequestTimelines (time to first token, stalls between stream frames, how the
+// request ended), and can replay one captured connection's inbound frames
+// through the live handlers against the local llama-server.
+
+import type { RawFrame } from './protocol';
+
+export type CaptureEntry = {
+  // Milliseconds since the epoch.
+  ts: number;
+  dir: 'in' | 'out';
+  // P2PCF session id of the connection.
+  peer: string;
+  clientId: string;
+  // From the peer's "hello"; null before it arrives.
+  deviceId: string | null;
+  // Whether the frame travelled inside an "enc" envelope.
+  encrypted: boolean;
+  frame: RawFrame;
+};
+
+export type TimelineFrame = {
+  // Since the timeline's first frame.
+  offsetMs: number;
+  dir: 'in' | 'out';
+  frame: RawFrame;
+};
+
+// "open": the capture has no final frame for the request, e.g. the answer
+// stopped halfway or the connection dropped.
+export type RequestOutcome = 'end' | 'error' | 'cancelled' | 'open';
+
+export type RequestGap = {
+  // Offset of the frame that ended the gap.
+  atMs: number;
+  gapMs: number;
+};
+
+export type RequestTimeline = {
+  id: string;
+  peer: string;
+  clientId: string;
+  deviceId: string | null;
+  // Type of the frame that started the request, or "unknown" when the capture
+  // began after it.
+  requestType: string;
+  startedAt: number;
+  frames: TimelineFrame[];
+  // From the request to the first token, reasoning token or tool call.
+  firstTokenMs: number | null;
+  tokens: number;
+  outcome: RequestOutcome;
+  finishReason?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  // From the request to its last frame.
+  durationMs: number;
+  // Pauses of at least GAP_THRESHOLD_MS between stream frames after the
+  // first token.
+  gaps: RequestGap[];
+  maxGapMs: number;
+};
+
+export type CapturedConnection = {
+  peer: string;
+  clientId: string;
+  deviceId: string | null;
+  startedAt: number;
+  endedAt: number;
+  inbound: number;
+  outbound: number;
+};
+
+export type ReplayPlan = {
+  frames: Array<{ delayMs: number; frame: RawFrame }>;
+  // Types of the inbound frames left out, with counts.
+  skipped: Record<string, number>;
+};
+
+export const GAP_THRESHOLD_MS = 2000;
+// Longer pauses between captured frames are shortened when replaying.
+export const REPLAY_MAX_DELAY_MS = 5000;
+
+export const REDACTED = '[redacted]';
+
+// Inbound frames whose id names a new request.
+const REQUEST_TYPES = [
+  'prompt',
+  'complete',
+  'resume',
+  'embed',
+  'count_tokens',
+  'tokenize',
+  'detokenize',
+  'list_models',
+  'set_model',
+  'download_model',
+  'cancel_download',
+];
+// Outbound frames whose "id" is a model id, not a request id.
+const MODEL_ID_TYPES = ['model_info', 'model_changed'];
+const TOKEN_TYPES = ['token', 'reasoning_token', 'tool_call'];
+const STREAM_TYPES = TOKEN_TYPES.concat(['end', 'error', 'cancelled']);
+// Single-frame replies that complete a request.
+const REPLY_TYPES = [
+  'end',
+  'embedding',
+  'token_count',
+  'tokenized',
+  'detokenized',
+  'model_list',
+  'download_cancelled',
+];
+// Pairing needs the phone's PIN or device secret, and model management
+// changes the desktop; replay leaves these out. A replay is always paired.
+const REPLAY_SKIPPED_TYPES = ['hello', 'pair_response', 'set_model', 'download_model', 'cancel_download'];
+
+/**
+ * A capture entry for a frame, with pairing secrets redacted.
+ */
+export function captureEntry(
+  dir: 'in' | 'out',
+  peer: { id: string; clientId: string },
+  deviceId: string | null,
+  encrypted: boolean,
+  frame: RawFrame,
+): CaptureEntry {
+  let recorded = frame;
+  if (frame.t === 'pair_response' && frame.proof !== undefined) {
+    recorded = { ...frame, proof: REDACTED };
+  } else if (frame.t === 'pair_result' && frame.deviceSecret !== undefined) {
+    recorded = { ...frame, deviceSecret: REDACTED };
+  }
+  return { ts: Date.now(), dir, peer: peer.id, clientId: peer.clientId, deviceId, encrypted, frame: recorded };
+}
+
+/**
+ * Parse a JSONL capture. Lines that are not capture entries are counted, not
+ * fatal: a capture cut off by a crash still loads.
+ */
+export function parseCapture(text: string): { entries: CaptureEntry[]; invalidLines: number } {
+  const entries: CaptureEntry[] = [];
+  let invalidLines = 0;
+  text.split('\n').forEach((line) => {
+    if (!line.trim()) return;
+    try {
+      const entry = JSON.parse(line);
+      if (
+        entry &&
+        typeof entry.ts === 'number' &&
+        (entry.dir === 'in' || entry.dir === 'out') &&
+        typeof entry.peer === 'string' &&
+        entry.frame &&
+        typeof entry.frame.t === 'string'
+      ) {
+        entries.push(entry as CaptureEntry);
+        return;
+      }
+    } catch {
+      // Counted below.
+    }
+    invalidLines += 1;
+  });
+  return { entries, invalidLines };
+}
+
+function requestIdOf(entry: CaptureEntry): string | null {
+  const { frame } = entry;
+  if (typeof frame.id !== 'string' || !frame.id) return null;
+  if (entry.dir === 'out' && MODEL_ID_TYPES.indexOf(frame.t) !== -1) return null;
+  return frame.id;
+}
+
+/**
+ * Group frames by request id into timelines, in order of their first frame.
+ * Requests are keyed per device, so a "resume" after reconnecting continues
+ * the original timeline.
+ */
+export function buildRequestTimelines(entries: CaptureEntry[]): RequestTimeline[] {
+  const timelines: RequestTimeline[] = [];
+  const current = new Map<string, RequestTimeline>();
+
+  entries.forEach((entry) => {
+    const id = requestIdOf(entry);
+    if (!id) return;
+    const key = `${entry.deviceId || entry.peer}:${id}`;
+    const { frame } = entry;
+    let timeline = current.get(key);
+
+    const startsRequest = entry.dir === 'in' && REQUEST_TYPES.indexOf(frame.t) !== -1;
+    if (!timeline || (startsRequest && frame.t !== 'resume' && timeline.outcome !== 'open')) {
+      timeline = {
+        id,
+        peer: entry.peer,
+        clientId: entry.clientId,
+        deviceId: entry.deviceId,
+        requestType: startsRequest ? frame.t : 'unknown',
+        startedAt: entry.ts,
+        frames: [],
+        firstTokenMs: null,
+        tokens: 0,
+        outcome: 'open',
+        durationMs: 0,
+        gaps: [],
+        maxGapMs: 0,
+      };
+      current.set(key, timeline);
+      timelines.push(timeline);
+    }
+    addFrame(timeline, entry);
+  });
+
+  timelines.forEach(findGaps);
+  return timelines;
+}
+
+function addFrame(timeline: RequestTimeline, entry: CaptureEntry): void {
+  const { frame } = entry;
+  const offsetMs = entry.ts - timeline.startedAt;
+  timeline.frames.push({ offsetMs, dir: entry.dir, frame });
+  timeline.durationMs = Math.max(timeline.durationMs, offsetMs);
+  if (entry.dir !== 'out') return;
+
+  if (TOKEN_TYPES.indexOf(frame.t) !== -1) {
+    timeline.tokens += 1;
+    if (timeline.firstTokenMs === null) timeline.firstTokenMs = offsetMs;
+  }
+  if (frame.t === 'error') {
+    timeline.outcome = 'error';
+    timeline.errorCode = typeof frame.code === 'string' ? frame.code : undefined;
+    timeline.errorMessage = typeof frame.message === 'string' ? frame.message : undefined;
+  } else if (frame.t === 'cancelled') {
+    timeline.outcome = 'cancelled';
+  } else if (
+    REPLY_TYPES.indexOf(frame.t) !== -1 ||
+    (frame.t === 'download_progress' && frame.stage === 'complete')
+  ) {
+    timeline.outcome = 'end';
+    if (typeof frame.finishReason === 'string') timeline.finishReason = frame.finishReason;
+  }
+}
+
+function findGaps(timeline: RequestTimeline): void {
+  let last: number | null = null;
+  timeline.frames.forEach(({ offsetMs, dir, frame }) => {
+    if (dir !== 'out' || STREAM_TYPES.indexOf(frame.t) === -1) return;
+    if (timeline.firstTokenMs === null || offsetMs < timeline.firstTokenMs) return;
+    if (last !== null) {
+      const gapMs = offsetMs - last;
+      timeline.maxGapMs = Math.max(timeline.maxGapMs, gapMs);
+      if (gapMs >= GAP_THRESHOLD_MS) timeline.gaps.push({ atMs: offsetMs, gapMs });
+    }
+    last = offsetMs;
+  });
+}
+
+/**
+ * The connections in a capture, in order of their first frame.
+ */
+export function capturedConnections(entries: CaptureEntry[]): CapturedConnection[] {
+  const byPeer = new Map<string, CapturedConnection>();
+  entries.forEach((entry) => {
+    let connection = byPeer.get(entry.peer);
+    if (!connection) {
+      connection = {
+        peer: entry.peer,
+        clientId: entry.clientId,
+        deviceId: entry.deviceId,
+        startedAt: entry.ts,
+        endedAt: entry.ts,
+        inbound: 0,
+        outbound: 0,
+      };
+      byPeer.set(entry.peer, connection);
+    }
+    connection.deviceId = connection.deviceId || entry.deviceId;
+    connection.endedAt = Math.max(connection.endedAt, entry.ts);
+    if (entry.dir === 'in') connection.inbound += 1;
+    else connection.outbound += 1;
+  });
+  return Array.from(byPeer.values());
+}
+
+/**
+ * The inbound frames of one connection to feed back into the handlers, with
+ * the captured pauses between them (capped at REPLAY_MAX_DELAY_MS).
+ */
+export function buildReplayPlan(entries: CaptureEntry[], peer: string): ReplayPlan {
+  const plan: ReplayPlan = { frames: [], skipped: {} };
+  let lastTs: number | null = null;
+  entries.forEach((entry) => {
+    if (entry.peer !== peer || entry.dir !== 'in') return;
+    const { frame } = entry;
+    if (REPLAY_SKIPPED_TYPES.indexOf(frame.t) !== -1) {
+      plan.skipped[frame.t] = (plan.skipped[frame.t] || 0) + 1;
+      return;
+    }
+    const delayMs = lastTs === null ? 0 : Math.min(REPLAY_MAX_DELAY_MS, Math.max(0, entry.ts - lastTs));
+    plan.frames.push({ delayMs, frame });
+    lastTs = entry.ts;
+  });
+  return plan;
+}
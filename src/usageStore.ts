@@ -0,0 +1,168 @@
+// src/usageStore.ts
+// Main-process store of per-device token usage for MyDeviceAI-Desktop.
+//
+// Responsibilities:
+// - Persist today's request and token counters per deviceId in USAGE_FILE so
+//   daily budgets survive restarts. Counters reset at local midnight.
+// - Resolve a device's effective limits (Settings defaults + device overrides).
+// - Decide whether a device still has daily prompt/completion token budget.
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getDevice } from './deviceStore';
+import { getSettings, normalizeLimits } from './settingsStore';
+import type { PeerLimits } from './settingsStore';
+
+const LOG_PREFIX = '[Usage]';
+
+function logError(message: string, error?: unknown, extra?: Record<string, unknown>): void {
+  // eslint-disable-next-line no-console
+  console.error(`${LOG_PREFIX} ${message}`, {
+    error:
+      error instanceof Error
+        ? { name: error.name, message: error.message, stack: error.stack }
+        : error,
+    ...(extra || {}),
+  });
+}
+
+export type DailyUsage = {
+  // Local calendar day, YYYY-MM-DD.
+  date: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+type UsageState = {
+  version: number;
+  devices: Record<string, DailyUsage>;
+};
+
+export type QuotaCheck =
+  | { allowed: true; limits: PeerLimits; usage: DailyUsage }
+  | {
+      allowed: false;
+      limits: PeerLimits;
+      usage: DailyUsage;
+      limit: 'daily_prompt_tokens' | 'daily_completion_tokens';
+      // Seconds until the budget resets (local midnight).
+      retryAfter: number;
+    };
+
+const STATE_VERSION = 1;
+const USAGE_FILE = path.join(app.getPath('userData'), 'usage.json');
+
+function readJsonFile<T>(file: string): T | null {
+  try {
+    const raw = fs.readFileSync(file, 'utf8');
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+function writeJsonAtomic(file: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2), 'utf8');
+  fs.renameSync(tmp, file);
+}
+
+function today(now = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function secondsUntilMidnight(now = new Date()): number {
+  const midnight = new Date(now);
+  midnight.setHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((midnight.getTime() - now.getTime()) / 1000));
+}
+
+function emptyUsage(): DailyUsage {
+  return { date: today(), requests: 0, promptTokens: 0, completionTokens: 0 };
+}
+
+let cachedState: UsageState | null = null;
+
+function ensureState(): UsageState {
+  if (cachedState) {
+    return cachedState;
+  }
+  const disk = readJsonFile<UsageState>(USAGE_FILE);
+  cachedState = {
+    version: STATE_VERSION,
+    devices: disk?.devices && typeof disk.devices === 'object' ? disk.devices : {},
+  };
+  return cachedState;
+}
+
+export function getDeviceUsage(deviceId: string): DailyUsage {
+  const usage = ensureState().devices[deviceId];
+  if (!usage || usage.date !== today()) {
+    return emptyUsage();
+  }
+  return usage;
+}
+
+export function resolveDeviceLimits(deviceId: string): PeerLimits {
+  const defaults = getSettings().limits;
+  const device = getDevice(deviceId);
+  return normalizeLimits(device?.limits, defaults);
+}
+
+export function checkDailyQuota(deviceId: string): QuotaCheck {
+  const limits = resolveDeviceLimits(deviceId);
+  const usage = getDeviceUsage(deviceId);
+
+  if (limits.dailyPromptTokens > 0 && usage.promptTokens >= limits.dailyPromptTokens) {
+    return {
+      allowed: false,
+      limits,
+      usage,
+      limit: 'daily_prompt_tokens',
+      retryAfter: secondsUntilMidnight(),
+    };
+  }
+  if (
+    limits.dailyCompletionTokens > 0 &&
+    usage.completionTokens >= limits.dailyCompletionTokens
+  ) {
+    return {
+      allowed: false,
+      limits,
+      usage,
+      limit: 'daily_completion_tokens',
+      retryAfter: secondsUntilMidnight(),
+    };
+  }
+  return { allowed: true, limits, usage };
+}
+
+/**
+ * Add one finished request's token counts (from llama-server's "usage") to
+ * today's totals for the device.
+ */
+export function recordUsage(
+  deviceId: string,
+  tokens: { promptTokens?: number; completionTokens?: number },
+): DailyUsage {
+  const toCount = (n: unknown) =>
+    typeof n === 'number' && Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+
+  const state = ensureState();
+  const usage = { ...getDeviceUsage(deviceId) };
+  usage.requests += 1;
+  usage.promptTokens += toCount(tokens.promptTokens);
+  usage.completionTokens += toCount(tokens.completionTokens);
+  state.devices[deviceId] = usage;
+
+  try {
+    writeJsonAtomic(USAGE_FILE, state);
+  } catch (err) {
+    logError('Failed to persist usage', err, { deviceId });
+  }
+  return usage;
+}
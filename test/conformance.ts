@@ -0,0 +1,465 @@
+// test/conformance.ts
+// Protocol conformance suite (npm test).
+//
+// Replays frame sequences through the same validation and dispatch the desktop
+// runs on every decrypted frame (src/protocol/dispatch.ts). Two kinds of
+// fixtures live in test/fixtures/:
+//
+// - conformance/*.json: scenarios, one phone connection each. Each step sends
+//   one inbound frame and says what must happen to it: "handled" (its handler
+//   ran), "ignored", or the error frame the desktop answers with. Steps may
+//   also list the desktop's "replies" in order. hello, pair_response and
+//   version_negotiate are answered by the desktop's own reply logic
+//   (src/protocol/handshake.ts and checkPairResponse in src/pairing.ts) with
+//   real key exchanges: a "pairAnswer" step has the suite answer the last
+//   pair_challenge the way the client SDK does, proving the given secret. The
+//   scenario's "pin" and "trustedDevices" stand in for the PIN display and the
+//   device store.
+// - captures/*.jsonl: traffic recorded with "Record protocol traffic" (see
+//   src/trafficInspector.ts). Each connection's inbound frames are replayed
+//   with the state its recorded pair_result and version_ack frames gave it. A
+//   frame the dispatcher rejects must have been answered with the same error
+//   in the recording, a frame it hands to a handler must not have been refused
+//   there for pairing or negotiation, and every version_negotiate must have
+//   been answered with the version_ack the desktop would send now.
+//
+// Not covered: the handlers for requests (prompt, embed, models...), which
+// need llama-server and the main process, and in pairing the bookkeeping kept
+// in src/renderer.ts: counting wrong PINs across phones into lockouts (a step
+// sets "pinLockedForMs" instead), the approval prompt (a step's "then" marks
+// the device allowed), and disconnects, which end a scenario. Captured pairing
+// proofs are redacted, so captures are not checked against pair_result.
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+
+import { supportsE2E } from '../src/e2e';
+import {
+  MAX_PAIRING_ATTEMPTS,
+  checkPairResponse,
+  computePairingProof,
+  derivePairingSecrets,
+  generatePairingKeyPair,
+  generatePairingNonce,
+  verifyPairingProof,
+} from '../src/pairing';
+import type { PairingKeyPair } from '../src/pairing';
+import {
+  CLIENT_MESSAGE_GATES,
+  answerVersionNegotiate,
+  dispatchClientFrame,
+  pairChallengeFrame,
+  pairingStep,
+} from '../src/protocol';
+import type {
+  ClientMessage,
+  ClientMessageHandlers,
+  ClientMessageOf,
+  ClientMessageType,
+  DispatchState,
+  PairingMethod,
+  RawFrame,
+  ServerMessageOf,
+} from '../src/protocol';
+import { parseCapture } from '../src/trafficInspector';
+import type { CaptureEntry } from '../src/trafficInspector';
+
+type ExpectedError = { error: string; id: string; message?: string };
+
+// A pair_response the suite builds for the last pair_challenge. "swap_key"
+// replaces the phone's key on the way, as a man in the middle would;
+// "invalid_key" sends a key that is not a point on the curve.
+type PairAnswer = { secret: string; tamper?: 'swap_key' | 'invalid_key' };
+
+type ScenarioStep = {
+  frame?: RawFrame;
+  pairAnswer?: PairAnswer;
+  expect: 'handled' | 'ignored' | ExpectedError;
+  // Every frame the desktop sends for this step. pair_challenge nonces and
+  // keys are random, so they are written "<nonce>" and "<key>".
+  replies?: RawFrame[];
+  // PIN answers are refused for this much longer.
+  pinLockedForMs?: number;
+  then?: Partial<DispatchState>;
+};
+
+type Scenario = {
+  description: string;
+  pin?: string;
+  // Device id -> device secret of the devices the desktop already trusts.
+  trustedDevices?: Record<string, string>;
+  steps: ScenarioStep[];
+};
+
+// The desktop's side of one scenario connection, as src/renderer.ts keeps it
+// in its PeerSession.
+type Desktop = {
+  pin: string;
+  trustedDevices: Record<string, string>;
+  deviceId: string | null;
+  encrypt: boolean;
+  challenge: { nonce: string; method: PairingMethod; keys: PairingKeyPair } | null;
+  // The last challenge sent, for the phone to answer.
+  sentChallenge: ServerMessageOf<'pair_challenge'> | null;
+  pairingAttempts: number;
+  awaitingApproval: boolean;
+  disconnected: boolean;
+  pinLockedForMs: number;
+  sessionSecret: string | null;
+  state: DispatchState;
+  received: ClientMessage[];
+  replies: RawFrame[];
+  pending: Array<Promise<void>>;
+};
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'test', 'fixtures');
+
+// The codes dispatch refuses a frame with before any handler sees it.
+const GATE_ERROR_CODES = ['not_paired', 'version_not_negotiated'];
+
+let failures = 0;
+
+function report(name: string, problems: string[]): void {
+  if (problems.length === 0) {
+    console.log(`ok - ${name}`);
+    return;
+  }
+  failures += 1;
+  console.log(`not ok - ${name}`);
+  problems.forEach((problem) => console.log(`  ${problem}`));
+}
+
+function fixtureFiles(dir: string, extension: string): string[] {
+  const full = path.join(FIXTURES_DIR, dir);
+  return fs
+    .readdirSync(full)
+    .filter((name) => path.extname(name) === extension)
+    .sort()
+    .map((name) => path.join(full, name));
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Handlers for every type the renderer handles ("enc" is unwrapped before
+ * dispatch), each pushing the message it receives onto `received`.
+ */
+function recordingHandlers(received: ClientMessage[]): ClientMessageHandlers {
+  const handlers: Record<string, (msg: ClientMessage) => void> = {};
+  (Object.keys(CLIENT_MESSAGE_GATES) as ClientMessageType[]).forEach((t) => {
+    if (t === 'enc') return;
+    handlers[t] = (msg) => received.push(msg);
+  });
+  return handlers as ClientMessageHandlers;
+}
+
+function describeFrame(frame: RawFrame): string {
+  return typeof frame.id === 'string' && frame.id ? `${frame.t} ${frame.id}` : frame.t;
+}
+
+async function sendChallenge(desktop: Desktop, method: PairingMethod): Promise<void> {
+  if (desktop.state.paired || desktop.awaitingApproval) return;
+  const keys = await generatePairingKeyPair();
+  const nonce = generatePairingNonce();
+  desktop.challenge = { nonce, method, keys };
+  desktop.sentChallenge = pairChallengeFrame(nonce, method, keys.publicKey, desktop.encrypt);
+  desktop.replies.push(desktop.sentChallenge);
+}
+
+// handleHello in src/renderer.ts, minus its device store and settings checks.
+async function answerHello(desktop: Desktop, msg: ClientMessageOf<'hello'>): Promise<void> {
+  if (desktop.deviceId || !msg.deviceId) return;
+  desktop.deviceId = msg.deviceId;
+  desktop.encrypt = supportsE2E(msg.encryption);
+  const trusted = Object.prototype.hasOwnProperty.call(desktop.trustedDevices, msg.deviceId);
+  await sendChallenge(desktop, trusted ? 'device' : 'pin');
+}
+
+// handlePairResponse in src/renderer.ts.
+async function answerPairResponse(desktop: Desktop, msg: ClientMessageOf<'pair_response'>): Promise<void> {
+  if (desktop.state.paired || desktop.awaitingApproval || !desktop.challenge) return;
+  const challenge = desktop.challenge;
+  desktop.challenge = null;
+
+  const { method } = challenge;
+  const locked = method === 'pin' && desktop.pinLockedForMs > 0;
+  let ok = false;
+  if (!locked) {
+    const secret = method === 'device' ? desktop.trustedDevices[desktop.deviceId] : desktop.pin;
+    try {
+      desktop.sessionSecret = await checkPairResponse(challenge, msg, (binding, proof) =>
+        verifyPairingProof(secret, binding, proof),
+      );
+    } catch {
+      desktop.sessionSecret = null;
+    }
+    ok = desktop.sessionSecret !== null;
+    if (!ok && method === 'pin') desktop.pairingAttempts += 1;
+  }
+
+  const step = pairingStep({
+    method,
+    ok,
+    attemptsLeft: MAX_PAIRING_ATTEMPTS - desktop.pairingAttempts,
+    lockedForMs: locked ? desktop.pinLockedForMs : 0,
+  });
+  desktop.replies.push(step.reply);
+  if (step.next === 'paired') {
+    desktop.state.paired = true;
+  } else if (step.next === 'approval') {
+    desktop.awaitingApproval = true;
+  } else if (step.next === 'challenge') {
+    await sendChallenge(desktop, 'pin');
+  } else {
+    desktop.disconnected = true;
+  }
+}
+
+function desktopHandlers(desktop: Desktop): ClientMessageHandlers {
+  const { received } = desktop;
+  return {
+    ...recordingHandlers(received),
+    hello: (msg) => {
+      received.push(msg);
+      desktop.pending.push(answerHello(desktop, msg));
+    },
+    pair_response: (msg) => {
+      received.push(msg);
+      desktop.pending.push(answerPairResponse(desktop, msg));
+    },
+    version_negotiate: (msg) => {
+      received.push(msg);
+      const { result, reply } = answerVersionNegotiate(msg);
+      desktop.state.negotiated = result.compatible;
+      desktop.replies.push(reply);
+    },
+  };
+}
+
+/**
+ * Answer a pair_challenge the way the client SDK does (answerChallenge in
+ * src/client/MyDeviceAIClient.ts). Returns the frame and the phone's session
+ * secret.
+ */
+async function buildPairAnswer(
+  challenge: ServerMessageOf<'pair_challenge'>,
+  answer: PairAnswer,
+): Promise<{ frame: RawFrame; sessionSecret: string }> {
+  const clientNonce = generatePairingNonce();
+  const keys = await generatePairingKeyPair();
+  const { binding, sessionSecret } = await derivePairingSecrets(keys, challenge.key, {
+    desktopNonce: challenge.nonce,
+    clientNonce,
+    desktopKey: challenge.key,
+    clientKey: keys.publicKey,
+  });
+  const proof = await computePairingProof(answer.secret, binding);
+  let key = keys.publicKey;
+  if (answer.tamper === 'swap_key') {
+    key = (await generatePairingKeyPair()).publicKey;
+  } else if (answer.tamper === 'invalid_key') {
+    key = Buffer.from('not a curve point').toString('base64');
+  }
+  return { frame: { t: 'pair_response', nonce: clientNonce, key, proof }, sessionSecret };
+}
+
+// Random challenge fields replaced by placeholders, once they have the
+// expected shape: 16 hex bytes, and an uncompressed P-256 point.
+function withPlaceholders(frame: RawFrame): RawFrame {
+  if (frame.t !== 'pair_challenge') return frame;
+  const key = typeof frame.key === 'string' ? Buffer.from(frame.key, 'base64') : null;
+  return {
+    ...frame,
+    nonce: typeof frame.nonce === 'string' && /^[0-9a-f]{32}$/.test(frame.nonce) ? '<nonce>' : frame.nonce,
+    key: key && key.length === 65 && key[0] === 4 ? '<key>' : frame.key,
+  };
+}
+
+function checkOutcome(
+  step: ScenarioStep,
+  frame: RawFrame,
+  desktop: Desktop,
+  result: ReturnType<typeof dispatchClientFrame>,
+): void {
+  const { received } = desktop;
+  if (step.expect === 'handled') {
+    assert.strictEqual(result.outcome, 'handled');
+    assert.strictEqual(received.length, 1, 'handler calls');
+    assert.strictEqual(received[0].t, frame.t);
+    // Optional fields sent as null never reach a handler.
+    Object.keys(received[0]).forEach((name) => {
+      assert.notStrictEqual((received[0] as RawFrame)[name], null, `${name} passed as null`);
+    });
+  } else if (step.expect === 'ignored') {
+    assert.strictEqual(result.outcome, 'ignored');
+    assert.strictEqual(received.length, 0, 'handler calls');
+  } else {
+    assert.strictEqual(result.outcome, 'rejected');
+    assert.strictEqual(received.length, 0, 'handler calls');
+    const { reply } = result as Extract<typeof result, { outcome: 'rejected' }>;
+    assert.strictEqual(reply.t, 'error');
+    assert.strictEqual(reply.code, step.expect.error);
+    assert.strictEqual(reply.id, step.expect.id);
+    if (step.expect.message !== undefined) {
+      assert.strictEqual(reply.message, step.expect.message);
+    }
+  }
+}
+
+async function runStep(step: ScenarioStep, desktop: Desktop): Promise<string | null> {
+  desktop.received = [];
+  desktop.replies = [];
+  desktop.pinLockedForMs = step.pinLockedForMs || 0;
+  desktop.sessionSecret = null;
+
+  let frame = step.frame;
+  let phoneSecret: string | null = null;
+  if (step.pairAnswer) {
+    if (!desktop.sentChallenge) return 'pairAnswer: no pair_challenge to answer';
+    const built = await buildPairAnswer(desktop.sentChallenge, step.pairAnswer);
+    frame = built.frame;
+    phoneSecret = built.sessionSecret;
+  }
+  if (!frame) return 'step has neither a frame nor a pairAnswer';
+  if (desktop.disconnected) return `${describeFrame(frame)}: sent after the desktop disconnected`;
+
+  try {
+    const result = dispatchClientFrame(frame, { ...desktop.state }, desktopHandlers(desktop));
+    if (result.outcome === 'rejected') {
+      desktop.replies.push((result as Extract<typeof result, { outcome: 'rejected' }>).reply);
+    }
+    await Promise.all(desktop.pending);
+    desktop.pending = [];
+
+    checkOutcome(step, frame, desktop, result);
+    if (step.replies) {
+      assert.deepStrictEqual(desktop.replies.map(withPlaceholders), step.replies, 'replies');
+    }
+    // An accepted answer must leave both sides with the same encryption keys.
+    if (phoneSecret && desktop.sessionSecret) {
+      assert.strictEqual(desktop.sessionSecret, phoneSecret, 'session secrets differ');
+    }
+  } catch (err) {
+    return `${describeFrame(frame)}: ${errorText(err)}`;
+  }
+  return null;
+}
+
+async function runScenario(file: string): Promise<void> {
+  const scenario = JSON.parse(fs.readFileSync(file, 'utf8')) as Scenario;
+  const desktop: Desktop = {
+    pin: scenario.pin || '000000',
+    trustedDevices: scenario.trustedDevices || {},
+    deviceId: null,
+    encrypt: false,
+    challenge: null,
+    sentChallenge: null,
+    pairingAttempts: 0,
+    awaitingApproval: false,
+    disconnected: false,
+    pinLockedForMs: 0,
+    sessionSecret: null,
+    state: { paired: false, negotiated: false },
+    received: [],
+    replies: [],
+    pending: [],
+  };
+  const problems: string[] = [];
+  for (let index = 0; index < scenario.steps.length; index += 1) {
+    const step = scenario.steps[index];
+    const problem = await runStep(step, desktop);
+    if (problem) problems.push(`step ${index + 1} (${problem})`);
+    Object.assign(desktop.state, step.then || {});
+  }
+  report(`${path.basename(file)}: ${scenario.description}`, problems);
+}
+
+function sameFrame(a: RawFrame, b: RawFrame): boolean {
+  try {
+    assert.deepStrictEqual(a, b);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function replayConnection(entries: CaptureEntry[]): string[] {
+  const problems: string[] = [];
+  const state: DispatchState = { paired: false, negotiated: false };
+  entries.forEach((entry, index) => {
+    const { frame } = entry;
+    if (entry.dir === 'out') {
+      if (frame.t === 'pair_result' && frame.ok === true) state.paired = true;
+      if (frame.t === 'version_ack') state.negotiated = frame.compatible === true;
+      return;
+    }
+
+    // The desktop's answers to this frame: what it sent before the next one.
+    const answers: RawFrame[] = [];
+    for (let i = index + 1; i < entries.length && entries[i].dir === 'out'; i += 1) {
+      answers.push(entries[i].frame);
+    }
+
+    const received: ClientMessage[] = [];
+    const result = dispatchClientFrame(frame, { ...state }, recordingHandlers(received));
+    if (result.outcome === 'rejected') {
+      const { reply } = result as Extract<typeof result, { outcome: 'rejected' }>;
+      if (!answers.some((answer) => sameFrame(answer, reply as RawFrame))) {
+        problems.push(`${describeFrame(frame)}: expected the recorded answer ${JSON.stringify(reply)}`);
+      }
+    } else if (result.outcome === 'handled') {
+      const refused = answers.find(
+        (answer) =>
+          answer.t === 'error' &&
+          answer.id === (typeof frame.id === 'string' ? frame.id : '') &&
+          GATE_ERROR_CODES.indexOf(answer.code as string) !== -1,
+      );
+      if (refused) {
+        problems.push(`${describeFrame(frame)}: handled, but the recording refused it with ${refused.code}`);
+      }
+      if (received[0].t === 'version_negotiate') {
+        const { reply } = answerVersionNegotiate(received[0]);
+        if (!answers.some((answer) => sameFrame(answer, reply as RawFrame))) {
+          problems.push(`${describeFrame(frame)}: expected the recorded answer ${JSON.stringify(reply)}`);
+        }
+      }
+    }
+  });
+  return problems;
+}
+
+function runCapture(file: string): void {
+  const { entries, invalidLines } = parseCapture(fs.readFileSync(file, 'utf8'));
+  const problems: string[] = [];
+  if (invalidLines > 0) problems.push(`${invalidLines} invalid capture lines`);
+
+  const byPeer = new Map<string, CaptureEntry[]>();
+  entries.forEach((entry) => {
+    if (!byPeer.has(entry.peer)) byPeer.set(entry.peer, []);
+    byPeer.get(entry.peer).push(entry);
+  });
+  byPeer.forEach((connection, peer) => {
+    replayConnection(connection).forEach((problem) => problems.push(`${peer}: ${problem}`));
+  });
+  report(`${path.basename(file)}: ${entries.length} frames, ${byPeer.size} connections`, problems);
+}
+
+async function main(): Promise<void> {
+  for (const file of fixtureFiles('conformance', '.json')) {
+    await runScenario(file);
+  }
+  fixtureFiles('captures', '.jsonl').forEach(runCapture);
+
+  if (failures > 0) {
+    console.log(`${failures} failed`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.log(`not ok - ${errorText(err)}`);
+  process.exitCode = 1;
+});